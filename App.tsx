@@ -1,142 +1,548 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { DifficultyLevel, Point } from './types';
+import React, { useState, useEffect, useLayoutEffect, useCallback, useMemo, useRef, useSyncExternalStore } from 'react';
+import { DifficultyLevel, GameConfig, LeaderboardEntry, Locale, MissOverlayStyle, Point, Preferences, SessionType, StudentProfile, TargetMarker } from './types';
 import { GAME_MODES, UNLOCK_THRESHOLD } from './constants';
 import CoordinateCanvas from './components/CoordinateCanvas';
+import LevelEditor from './components/LevelEditor';
+import HistoryPanel from './components/HistoryPanel';
+import ProfilePicker from './components/ProfilePicker';
+import LanguageSwitcher from './components/LanguageSwitcher';
+import SessionBar from './components/SessionBar';
+import Leaderboard from './components/Leaderboard';
+import ExerciseCard from './components/ExerciseCard';
+import { exerciseCardOf } from './components/exerciseCards';
+import SessionSummary from './components/SessionSummary';
+import ProjectImport from './components/ProjectImport';
+import WorksheetBuilder from './components/WorksheetBuilder';
+import ChallengePanel from './components/ChallengePanel';
+import TrophyCase from './components/TrophyCase';
+import Toasts, { Toast } from './components/Toasts';
+import ClassroomPanel, { ClassroomSession } from './components/ClassroomPanel';
+import TeacherDashboard from './components/TeacherDashboard';
+import BattleshipGame from './components/BattleshipGame';
+import SettingsPanel from './components/SettingsPanel';
+import { Message, MessageKey, detectLocale } from './i18n';
+import { I18nProvider, createI18nValue } from './i18n/I18nContext';
+import { ThemeProvider, useSystemReducedMotion } from './theme/ThemeContext';
+import { createTheme, themeVariables } from './theme';
+import { LevelError, decodeLevel, isCustomLevel, loadCustomLevels, readLevelFromHash, saveCustomLevels } from './utils/customLevels';
+import { DEFAULT_SETTINGS, StoredData, createProfile, emptyProgress, keepAttempts, loadStore, saveStore } from './utils/profileStore';
+import { ConditionStatus } from './utils/unlocks';
+import { newlyEarned } from './utils/achievements';
+import { precisionOf, snapTo } from './utils/gridDrawing';
+import { Challenge, ChallengeError, challengeTag, readChallengeCode, readChallengeFromHash } from './utils/challenge';
+import { CLASSROOM_PROTOCOL, ClassroomLevel, ClassroomPush, ServerMessage, classroomUrl, normalizeJoinCode } from './utils/classroom';
+import { ClassroomConnection, connectClassroom } from './utils/classroomClient';
+import { ScratchProject } from './utils/sb3';
+import { SessionStats, addLeaderboardEntry, withoutProfile } from './utils/sessions';
+import { POSITION_NOTE_GAP_MS, playEarcon, playPosition, sonifiedPoint, speak, stopSpeaking } from './utils/audio';
+import {
+  EngineEvent, RoundSource, createGameEngine, exerciseTypeOf, hitsToUnlock, isLevelOpen, isRaced, levelLocks, recordAttempt
+} from './engine';
 import confetti from 'canvas-confetti';
 
+const MODE_SHORT_NAMES: Record<DifficultyLevel, MessageKey> = {
+  [DifficultyLevel.Intro]: 'modes.intro.short',
+  [DifficultyLevel.Advanced]: 'modes.advanced.short',
+  [DifficultyLevel.Challenge]: 'modes.challenge.short',
+  [DifficultyLevel.Hell]: 'modes.hell.short',
+  [DifficultyLevel.Direction]: 'modes.direction.short'
+};
+
+const OVERLAY_LABELS: [MissOverlayStyle, MessageKey][] = [
+  ['off', 'overlay.off'],
+  ['heatmap', 'overlay.heatmap'],
+  ['scatter', 'overlay.scatter']
+];
+
 const App: React.FC = () => {
-  // Persistent Progress State
-  const [progress, setProgress] = useState<Record<DifficultyLevel, number>>(() => {
-    const saved = localStorage.getItem('coordinate_game_progress');
-    if (saved) {
+  // Persistent Store: every student profile with its progress, settings and history
+  const [loaded] = useState(loadStore);
+  const [store, setStore] = useState<StoredData>(loaded.data);
+  const [pickerOpen, setPickerOpen] = useState(true); // Shared computers: always ask who's playing
+
+  const profile = store.profiles.find(p => p.id === store.activeProfileId) ?? null;
+  const progress = profile?.progress ?? emptyProgress();
+  const attempts = useMemo(() => profile?.attempts ?? [], [profile]);
+  const missOverlay = profile?.settings.missOverlay ?? DEFAULT_SETTINGS.missOverlay;
+
+  // Applies a change to whoever is currently playing
+  const updateProfile = useCallback((change: (p: StudentProfile) => StudentProfile) => {
+    setStore(s => ({
+      ...s,
+      profiles: s.profiles.map(p => (p.id === s.activeProfileId ? change(p) : p))
+    }));
+  }, []);
+
+  // Language: remembered per student; before anyone is picked, follow the browser
+  const [guestLocale, setGuestLocale] = useState<Locale>(detectLocale);
+  const locale = profile?.settings.locale ?? guestLocale;
+  const setLocale = useCallback((next: Locale) => {
+    setGuestLocale(next);
+    updateProfile(p => ({ ...p, settings: { ...p.settings, locale: next } }));
+  }, [updateProfile]);
+  const i18n = useMemo(() => createI18nValue(locale, setLocale), [locale, setLocale]);
+  const { t, tm, text, info } = i18n;
+
+  useEffect(() => {
+    document.documentElement.lang = info.htmlLang;
+    document.documentElement.style.setProperty('--body-font', info.fontFamily);
+    document.documentElement.style.setProperty('--fun-font', info.funFontFamily);
+    document.title = t('app.title');
+  }, [info, t]);
+
+  // Look and sound: remembered per student like the language
+  const [guestPreferences, setGuestPreferences] = useState<Preferences>(DEFAULT_SETTINGS);
+  const preferences: Preferences = profile?.settings ?? guestPreferences;
+  const setPreferences = useCallback((change: Partial<Preferences>) => {
+    setGuestPreferences(a => ({ ...a, ...change }));
+    updateProfile(p => ({ ...p, settings: { ...p.settings, ...change } }));
+  }, [updateProfile]);
+  const systemReducedMotion = useSystemReducedMotion();
+  const theme = useMemo(
+    () => createTheme(preferences.theme, preferences.colorBlind, preferences.reducedMotion || systemReducedMotion),
+    [preferences.theme, preferences.colorBlind, preferences.reducedMotion, systemReducedMotion]
+  );
+  const [settingsOpen, setSettingsOpen] = useState(false);
+
+  // Before the first paint, so the page never shows in the wrong colours
+  useLayoutEffect(() => {
+    const root = document.documentElement;
+    Object.entries(themeVariables(theme)).forEach(([name, value]) => root.style.setProperty(name, value));
+    root.style.colorScheme = theme.dark ? 'dark' : 'light';
+    root.dataset.motion = theme.reducedMotion ? 'reduced' : 'full';
+  }, [theme]);
+
+  // Shown in the profile picker: data that had to be reset, or a full storage
+  const [storeNotice, setStoreNotice] = useState<Message | null>(
+    loaded.recoveredFrom ? { key: 'profile.recovered', params: { key: loaded.recoveredFrom } } : null
+  );
+
+  const [customLevels, setCustomLevels] = useState<GameConfig[]>(loadCustomLevels);
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [canvasWidth, setCanvasWidth] = useState(600);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [leaderboardOpen, setLeaderboardOpen] = useState(false);
+  const [projectOpen, setProjectOpen] = useState(false);
+  const [worksheetOpen, setWorksheetOpen] = useState(false);
+  // An imported Scratch project being played through in Expert mode
+  const [projectRun, setProjectRun] = useState<{ project: ScratchProject; startedAt: number } | null>(null);
+  const [challengeOpen, setChallengeOpen] = useState(false);
+  // A challenge code being played: its rounds come from its seed
+  const [challengeRun, setChallengeRun] = useState<{ challenge: Challenge; startedAt: number } | null>(null);
+  const [trophiesOpen, setTrophiesOpen] = useState(false);
+  const [toasts, setToasts] = useState<Toast[]>([]); // Unlocks and achievements, newest last
+  const [classroomOpen, setClassroomOpen] = useState(false);
+  const [classroom, setClassroom] = useState<ClassroomSession | null>(null); // The class this student is in
+  const [classroomError, setClassroomError] = useState<Message | null>(null);
+  const [dashboardAddress, setDashboardAddress] = useState<string | null>(null); // Set while the teacher dashboard is open
+  const [teacherCode, setTeacherCode] = useState<string | null>(null); // So reopening the dashboard gets the same class back
+  const [battleshipOpen, setBattleshipOpen] = useState(false);
+
+  const [mode, setMode] = useState<string>(DifficultyLevel.Intro);
+  const [hoverPos, setHoverPos] = useState<Point>({ x: 0, y: 0 });
+  const [sessionType, setSessionType] = useState<SessionType>(SessionType.Practice);
+  const [tickedAt, setTickedAt] = useState(() => Date.now()); // Updated while a race clock runs
+  const [latestEntry, setLatestEntry] = useState<LeaderboardEntry | null>(null); // Run that just landed on the leaderboard
+  const [summaryOpen, setSummaryOpen] = useState(false);
+
+  // Built-in modes first, then the teacher's own levels
+  const levels = useMemo<Record<string, GameConfig>>(() => {
+    const all: Record<string, GameConfig> = { ...GAME_MODES };
+    customLevels.forEach(level => { all[level.id] = level; });
+    return all;
+  }, [customLevels]);
+
+  const config = levels[mode] ?? GAME_MODES[DifficultyLevel.Intro];
+
+  // The game itself: rounds, grading and sessions live in the engine, the app shows its state.
+  // It outlives renders, so the student's record and the event handler reach it through refs.
+  const recordRef = useRef({ attempts, progress });
+  recordRef.current = { attempts, progress };
+  const engineEventRef = useRef<(event: EngineEvent) => void>(() => {});
+  const [engine] = useState(() => createGameEngine({
+    config,
+    record: () => recordRef.current,
+    onEvent: event => engineEventRef.current(event)
+  }));
+  const game = useSyncExternalStore(engine.subscribe, engine.getState);
+  const { round, status: sessionStatus, stats, clock, feedback, lastResult, roundScore, diagnosis } = game;
+
+  // Persist profile changes; when the storage is full, older attempts go so later saves fit
+  useEffect(() => {
+    const { saved, trimmedTo } = saveStore(store);
+    if (trimmedTo !== null) {
+      setStore(s => keepAttempts(s, trimmedTo));
+      setStoreNotice({ key: 'profile.trimmed', params: { count: trimmedTo } });
+      pushToasts([{ key: 'store:trimmed', icon: '💾', title: { key: 'toast.storageFull' }, detail: 'toast.storageTrimmed' }]);
+    } else if (!saved) {
+      setStoreNotice({ key: 'profile.saveFailed' });
+      pushToasts([{ key: 'store:failed', icon: '💾', title: { key: 'toast.storageFull' }, detail: 'toast.storageFailed' }]);
+    }
+  }, [store]);
+
+  useEffect(() => {
+    saveCustomLevels(customLevels);
+  }, [customLevels]);
+
+  // Misses in the current level, for the canvas overlay
+  const misses = useMemo(
+    () => attempts.filter(a => a.mode === mode && !a.success),
+    [attempts, mode]
+  );
+
+  // Adds new levels or replaces ones with the same id
+  const upsertCustomLevels = useCallback((incoming: GameConfig[]) => {
+    setCustomLevels(prev => {
+      const ids = new Set(incoming.map(l => l.id));
+      return [...prev.filter(l => !ids.has(l.id)), ...incoming];
+    });
+  }, []);
+
+  // Everyone who enters the same code gets the same rounds; custom levels come along inside the code.
+  // Challenges skip the unlock rules so a class can race in any mode.
+  const playChallenge = useCallback((challenge: Challenge) => {
+    const { level } = challenge;
+    if (isCustomLevel(level.id)) upsertCustomLevels([level]);
+    setProjectRun(null);
+    setChallengeRun({ challenge, startedAt: Date.now() });
+    setMode(level.id);
+    setChallengeOpen(false);
+  }, [upsertCustomLevels]);
+
+  // Shared links carry a level (#level=…) or a challenge (#challenge=…) in the hash; open it straight away
+  useEffect(() => {
+    const openFromHash = () => {
       try {
-        return JSON.parse(saved);
+        const level = readLevelFromHash(window.location.hash);
+        const challenge = readChallengeFromHash(window.location.hash);
+        if (!level && !challenge) return;
+        if (level) {
+          upsertCustomLevels([level]);
+          setMode(level.id);
+        }
+        if (challenge) playChallenge(challenge);
       } catch (e) {
-        console.error("Failed to parse progress", e);
+        console.error("Failed to read level from link", e);
+        engine.setFeedback(e instanceof ChallengeError ? e.messages[0] : { key: 'feedback.badLink' });
       }
-    }
-    return {
-      [DifficultyLevel.Intro]: 0,
-      [DifficultyLevel.Advanced]: 0,
-      [DifficultyLevel.Challenge]: 0,
-      [DifficultyLevel.Hell]: 0
+      history.replaceState(null, '', window.location.pathname + window.location.search);
     };
-  });
 
-  const [mode, setMode] = useState<DifficultyLevel>(DifficultyLevel.Intro);
-  const [target, setTarget] = useState<Point>({ x: 3, y: 5 });
-  const [hoverPos, setHoverPos] = useState<Point>({ x: 0, y: 0 });
-  const [score, setScore] = useState(0); // Session score
-  const [feedback, setFeedback] = useState<string>("请点击画面寻找坐标！");
-  const [lastResult, setLastResult] = useState<{ success: boolean; clickPos: Point; timestamp: number } | null>(null);
+    openFromHash();
+    window.addEventListener('hashchange', openFromHash);
+    return () => window.removeEventListener('hashchange', openFromHash);
+  }, [engine, upsertCustomLevels, playChallenge]);
+
+  const handleDeleteLevel = (id: string) => {
+    setCustomLevels(prev => prev.filter(l => l.id !== id));
+    if (mode === id) setMode(DifficultyLevel.Intro);
+  };
 
-  const config = GAME_MODES[mode];
+  const handleSelectProfile = (id: string) => {
+    // The class knows students by profile, so the next student joins for themselves
+    if (id !== store.activeProfileId) leaveClassroom();
+    setStore(s => ({ ...s, activeProfileId: id }));
+    // Unlocks differ per student, so start everyone from the beginning
+    setMode(DifficultyLevel.Intro);
+    setPickerOpen(false);
+  };
 
-  // Persist progress changes
-  useEffect(() => {
-    localStorage.setItem('coordinate_game_progress', JSON.stringify(progress));
-  }, [progress]);
+  const handleCreateProfile = (name: string, avatar: string) => {
+    const created = createProfile(name, avatar, locale);
+    setStore(s => ({ ...s, profiles: [...s.profiles, created] }));
+    handleSelectProfile(created.id);
+  };
 
-  // Lock Logic
-  const getLockStatus = (m: DifficultyLevel): { isLocked: boolean; reqText: string } => {
-    if (m === DifficultyLevel.Intro) return { isLocked: false, reqText: '' };
-    
-    if (m === DifficultyLevel.Advanced) {
-      const current = progress[DifficultyLevel.Intro];
-      return { 
-        isLocked: current < UNLOCK_THRESHOLD, 
-        reqText: `需入门模式完成 ${current}/${UNLOCK_THRESHOLD} 次` 
-      };
+  const handleDeleteProfile = (id: string) => {
+    setStore(s => ({
+      ...s,
+      activeProfileId: s.activeProfileId === id ? null : s.activeProfileId,
+      profiles: s.profiles.filter(p => p.id !== id),
+      leaderboards: withoutProfile(s.leaderboards, id)
+    }));
+  };
+
+  // Unlock conditions per level, measured against this student's record
+  const lockStatus = useMemo(() => levelLocks(levels, { progress, attempts }), [levels, progress, attempts]);
+
+  // Short level name for requirement texts
+  const levelShortName = (id: string) =>
+    id in MODE_SHORT_NAMES ? t(MODE_SHORT_NAMES[id as DifficultyLevel]) : text(levels[id].name);
+
+  const describeCondition = ({ condition, current }: ConditionStatus): string => {
+    const mode = levelShortName(condition.level);
+    switch (condition.kind) {
+      case 'hits':
+        return t('lock.requirement', { mode, current, threshold: condition.count });
+      case 'accuracy':
+        return t('lock.accuracy', {
+          mode,
+          current: Math.round(current * 100),
+          required: Math.round(condition.min * 100),
+          over: condition.over
+        });
+      case 'precision':
+        return t('lock.precision', { current: Math.round(current * 100), required: Math.round(condition.min * 100) });
+      case 'streak':
+        return t('lock.streak', { mode, current, required: condition.count });
     }
-    
-    if (m === DifficultyLevel.Challenge) {
-      const current = progress[DifficultyLevel.Advanced];
-      return { 
-        isLocked: current < UNLOCK_THRESHOLD, 
-        reqText: `需进阶模式完成 ${current}/${UNLOCK_THRESHOLD} 次` 
-      };
+  };
+
+  // Lock Logic: a level opens once every condition on it is met
+  const getLockStatus = (m: string): { isLocked: boolean; reqText: string } => {
+    return { isLocked: !isLevelOpen(lockStatus, m), reqText: (lockStatus[m] ?? []).map(describeCondition).join(' · ') };
+  };
+
+  // Anything already on screen is skipped, so effects running twice can't double up
+  const pushToasts = useCallback((incoming: Toast[]) => {
+    setToasts(prev => [...prev, ...incoming.filter(n => !prev.some(p => p.key === n.key))]);
+  }, []);
+  const dismissToast = useCallback((key: string) => setToasts(prev => prev.filter(p => p.key !== key)), []);
+
+  // Levels that open while playing get a toast; switching student or adding a level doesn't count
+  const openLevelsRef = useRef<{ profileId: string | null; known: string[]; open: string[] } | null>(null);
+  const profileId = profile?.id ?? null;
+  useEffect(() => {
+    const known = Object.keys(levels);
+    const open = known.filter(id => isLevelOpen(lockStatus, id));
+    const previous = openLevelsRef.current;
+    openLevelsRef.current = { profileId, known, open };
+    if (!previous || previous.profileId !== profileId) return;
+    pushToasts(open
+      .filter(id => previous.known.includes(id) && !previous.open.includes(id))
+      .map(id => ({ key: `level:${id}`, icon: '🔓', title: { key: 'toast.unlocked' }, detail: levels[id].name })));
+  }, [levels, lockStatus, profileId, pushToasts]);
+
+  // Achievements are awarded as soon as the record qualifies, and kept even if the history is cleared
+  useEffect(() => {
+    if (!profile) return;
+    const earned = newlyEarned({ attempts: profile.attempts, progress: profile.progress }, profile.achievements);
+    if (earned.length === 0) return;
+    const now = Date.now();
+    updateProfile(p => ({ ...p, achievements: { ...p.achievements, ...Object.fromEntries(earned.map(a => [a.id, now])) } }));
+    pushToasts(earned.map(a => ({ key: `achievement:${a.id}`, icon: a.icon, title: { key: 'toast.achievement' }, detail: a.name })));
+  }, [profile, updateProfile, pushToasts]);
+
+  // Classroom mode: one connection to the server on the teacher's computer while the student is in a class
+  const classroomRef = useRef<ClassroomConnection | null>(null);
+  const classroomLevel: ClassroomLevel = { id: config.id, name: config.name };
+  const classroomLevelRef = useRef(classroomLevel);
+  classroomLevelRef.current = classroomLevel;
+
+  const leaveClassroom = useCallback(() => {
+    classroomRef.current?.close();
+    classroomRef.current = null;
+    setClassroom(null);
+  }, []);
+
+  // What the teacher sends opens like a shared link would, skipping the unlock rules as challenges do
+  const handleClassroomPush = (push: ClassroomPush) => {
+    try {
+      if (push.kind === 'challenge') {
+        const challenge = readChallengeCode(push.code);
+        playChallenge(challenge);
+        pushToasts([{ key: `classroom:${push.code}`, icon: '🏫', title: { key: 'toast.classroomChallenge' }, detail: challenge.level.name }]);
+        return;
+      }
+      const level = push.encoded ? decodeLevel(push.encoded) : GAME_MODES[push.id as DifficultyLevel];
+      if (!level) throw new Error(`Unknown level ${push.id}`);
+      if (push.encoded) upsertCustomLevels([level]);
+      setProjectRun(null);
+      setChallengeRun(null);
+      setMode(level.id);
+      pushToasts([{ key: `classroom:${level.id}`, icon: '🏫', title: { key: 'toast.classroomLevel' }, detail: level.name }]);
+    } catch (e) {
+      console.error("Failed to open what the teacher sent", e);
+      engine.setFeedback(e instanceof ChallengeError || e instanceof LevelError ? e.messages[0] : { key: 'classroom.badPush' });
     }
-    
-    if (m === DifficultyLevel.Hell) {
-      const current = progress[DifficultyLevel.Challenge];
-      return { 
-        isLocked: current < UNLOCK_THRESHOLD, 
-        reqText: `需挑战模式完成 ${current}/${UNLOCK_THRESHOLD} 次` 
-      };
+  };
+
+  const handleClassroomMessage = (message: ServerMessage) => {
+    if (message.type === 'joined') {
+      setClassroom(c => c && { ...c, joined: true });
+      setClassroomOpen(false);
+    } else if (message.type === 'push') {
+      handleClassroomPush(message.push);
+    } else if (message.type === 'error') {
+      // A wrong code or a server of another version won't get better by retrying
+      if (message.error !== 'protocol' && message.error !== 'unknownClass') {
+        console.warn('Classroom server refused a message', message.error);
+        return;
+      }
+      leaveClassroom();
+      setClassroomError({ key: `classroom.error.${message.error}` });
+      setClassroomOpen(true);
     }
+  };
+  // The connection outlives renders, so it goes through a ref to reach the current handler
+  const classroomHandlerRef = useRef(handleClassroomMessage);
+  classroomHandlerRef.current = handleClassroomMessage;
 
-    return { isLocked: true, reqText: 'Locked' };
+  const joinClassroom = (address: string, code: string) => {
+    if (!profile) return;
+    leaveClassroom();
+    setClassroomError(null);
+    const student = { id: profile.id, name: profile.name, avatar: profile.avatar };
+    setClassroom({ address, code: normalizeJoinCode(code), status: 'connecting', joined: false });
+    classroomRef.current = connectClassroom(
+      classroomUrl(address),
+      () => ({ type: 'join', protocol: CLASSROOM_PROTOCOL, code, student, level: classroomLevelRef.current }),
+      message => classroomHandlerRef.current(message),
+      // After a drop the student has to be let in again before they count as in class
+      status => setClassroom(c => c && { ...c, status, joined: c.joined && status === 'open' })
+    );
   };
 
-  // Helper to generate random integer within range and step
-  const getRandomCoord = useCallback((min: number, max: number, step: number) => {
-    const steps = Math.floor((max - min) / step);
-    const randomStep = Math.floor(Math.random() * (steps + 1));
-    return min + randomStep * step;
-  }, []);
+  // The dashboard shows which level everyone is on
+  useEffect(() => {
+    classroomRef.current?.send({ type: 'level', level: { id: config.id, name: config.name } });
+  }, [config.id, config.name]);
 
-  const generateNewTarget = useCallback(() => {
-    const newX = getRandomCoord(config.xRange[0], config.xRange[1], config.targetStep);
-    const newY = getRandomCoord(config.yRange[0], config.yRange[1], config.targetStep);
-    
-    // Avoid (0,0) if possible in advanced modes just to be interesting, but it's allowed
-    setTarget({ x: newX, y: newY });
-  }, [config, getRandomCoord]);
+  useEffect(() => () => classroomRef.current?.close(), []);
+
+  const isRace = isRaced(game);
+  const elapsedMs = (clock.endedAt ?? tickedAt) - clock.startedAt;
+
+  // What the rounds come from besides the level itself
+  const source = useMemo<RoundSource | null>(
+    () => projectRun ? { kind: 'project', project: projectRun.project }
+      : challengeRun ? { kind: 'challenge', challenge: challengeRun.challenge }
+      : null,
+    [projectRun, challengeRun]
+  );
 
-  // Reset when mode changes
+  // Start over when the level, session type, source or student changes; races wait for the start button
   useEffect(() => {
-    generateNewTarget();
-    setScore(0);
-    setLastResult(null);
-    setFeedback("新游戏开始！请找到目标位置。");
-  }, [mode, generateNewTarget]);
-
-  const handleCanvasClick = (clickPos: Point) => {
-    // Calculate Euclidean distance in LOGICAL units
-    const dx = clickPos.x - target.x;
-    const dy = clickPos.y - target.y;
-    const distance = Math.sqrt(dx * dx + dy * dy);
-
-    const isSuccess = distance <= config.tolerance;
-
-    if (isSuccess) {
-      // Success Logic
-      setScore(s => s + 1);
-      
-      // Update persistent progress
-      setProgress(prev => ({
-        ...prev,
-        [mode]: (prev[mode] || 0) + 1
-      }));
-
-      setFeedback("太棒了！找到啦！🎉");
-      setLastResult({ success: true, clickPos: target, timestamp: Date.now() }); // Snap visual to target on success
-      
-      // Confetti effect
+    engine.reset({ config, sessionType, source });
+  }, [engine, config, sessionType, source, store.activeProfileId]);
+
+  useEffect(() => () => engine.stop(), [engine]);
+
+  // Projects are played in Expert mode; picking another mode leaves them
+  useEffect(() => {
+    if (mode !== DifficultyLevel.Hell) setProjectRun(null);
+  }, [mode]);
+
+  // Likewise a challenge ends when its level is left
+  useEffect(() => {
+    if (challengeRun && mode !== challengeRun.challenge.level.id) setChallengeRun(null);
+  }, [mode, challengeRun]);
+
+  const handlePlayProject = (project: ScratchProject) => {
+    setChallengeRun(null);
+    setProjectRun({ project, startedAt: Date.now() });
+    setMode(DifficultyLevel.Hell);
+    setProjectOpen(false);
+  };
+
+  const startSession = () => {
+    engine.start();
+    setTickedAt(engine.getState().clock.startedAt);
+  };
+
+  // Files a finished race on this level's leaderboard
+  const finishSession = (final: SessionStats, startedAt: number, endedAt: number) => {
+    // Challenge runs are compared by their code, not on the level's leaderboard
+    if (challengeRun) {
+      setLatestEntry(null);
+      setSummaryOpen(true);
+      return;
+    }
+    if (!profile) return;
+
+    const entry: LeaderboardEntry = {
+      profileId: profile.id,
+      name: profile.name,
+      avatar: profile.avatar,
+      sessionType,
+      hits: final.hits,
+      attempts: final.attempts,
+      bestStreak: final.bestStreak,
+      timeMs: endedAt - startedAt,
+      timestamp: endedAt
+    };
+    setStore(s => ({
+      ...s,
+      leaderboards: { ...s.leaderboards, [mode]: addLeaderboardEntry(s.leaderboards[mode] ?? [], entry) }
+    }));
+    setLatestEntry(entry);
+    setSummaryOpen(true);
+  };
+
+  // Race clock; the engine ends a timed session once its time is up
+  useEffect(() => {
+    if (!isRace || sessionStatus !== 'running') return;
+    const timer = setInterval(() => {
+      setTickedAt(Date.now());
+      engine.tick();
+    }, 100);
+    return () => clearInterval(timer);
+  }, [engine, isRace, sessionStatus]);
+
+  // Every answer goes into the student's record, with a cheer or a sound to go with it
+  const handleEngineEvent = (event: EngineEvent) => {
+    if (event.type === 'finished') {
+      finishSession(event.stats, event.startedAt, event.endedAt);
+      return;
+    }
+    const { attempt } = event;
+    updateProfile(p => recordAttempt(p, attempt));
+    // In a class, the teacher's dashboard sees every answer as it's given
+    classroomRef.current?.send({ type: 'attempt', attempt });
+
+    if (attempt.success && !theme.reducedMotion) {
       confetti({
         particleCount: 100,
         spread: 70,
         origin: { y: 0.6 }
       });
+    }
+    if (preferences.earcons) playEarcon(attempt.success ? 'hit' : 'miss');
+  };
+  engineEventRef.current = handleEngineEvent;
 
-      // Delay next target slightly
-      setTimeout(() => {
-        generateNewTarget();
-        setLastResult(null);
-        setFeedback("请寻找下一个坐标！");
-      }, 1500);
+  const projectMarker: TargetMarker | null = round.project
+    ? { label: round.project.sprite.name, image: round.project.sprite.costume }
+    : null;
 
-    } else {
-      // Failure Logic
-      setFeedback(`哎呀偏了！你点到了 (${Math.round(clickPos.x)}, ${Math.round(clickPos.y)}) 😅`);
-      setLastResult({ success: false, clickPos: clickPos, timestamp: Date.now() });
-    }
+  // Whatever this kind of question adds to the canvas: a shape, a protractor ring, the target itself
+  const overlay = exerciseTypeOf(round.type).overlay?.(round, { config: game.config, hover: hoverPos }) ?? {};
+
+  // Hits here that open another level; the bar fills toward the nearest one
+  const nextUnlock = hitsToUnlock(levels, mode);
+  const unlocksAnother = nextUnlock !== null;
+  const unlockThreshold = nextUnlock ?? UNLOCK_THRESHOLD;
+
+  // The target card's question as it should sound: coordinates and directions with their signs said out loud
+  const spokenPrompt = () => exerciseCardOf(round.type).spoken(round, t);
+  const readPrompt = () => speak(spokenPrompt(), info.htmlLang);
+
+  // Spoken questions: each new round is read out once, the 🔊 button on the card repeats it
+  useEffect(() => {
+    if (preferences.speech) readPrompt();
+  }, [round.number]);
+
+  useEffect(() => {
+    if (!preferences.speech) stopSpeaking();
+  }, [preferences.speech]);
+
+  // Position sounds: one short tone each time the pointer reaches another grid crossing, a few a second at most
+  const sonifiedRef = useRef<{ point: Point; at: number } | null>(null);
+  const handleHover = (pos: Point) => {
+    setHoverPos(pos);
+    if (!preferences.sonification) return;
+    const point = sonifiedPoint(pos, config);
+    const at = performance.now();
+    const last = sonifiedRef.current;
+    if (last && ((last.point.x === point.x && last.point.y === point.y) || at - last.at < POSITION_NOTE_GAP_MS)) return;
+    sonifiedRef.current = { point, at };
+    playPosition(point, config);
   };
 
-  const renderModeButton = (m: DifficultyLevel) => {
+  const renderModeButton = (m: string) => {
     const { isLocked, reqText } = getLockStatus(m);
     const isActive = mode === m;
-    const modeConfig = GAME_MODES[m];
+    const modeConfig = levels[m];
 
     // Base classes
     let classes = "flex flex-col items-center justify-center px-4 py-2 rounded-lg text-sm font-bold transition-all duration-200 border-2 min-w-[120px] ";
@@ -155,11 +561,11 @@ const App: React.FC = () => {
         onClick={() => !isLocked && setMode(m)}
         disabled={isLocked}
         className={classes}
-        title={isLocked ? reqText : modeConfig.description}
+        title={isLocked ? reqText : text(modeConfig.description)}
       >
         <div className="flex items-center gap-2">
           {isLocked && <span>🔒</span>}
-          <span>{modeConfig.name}</span>
+          <span>{text(modeConfig.name)}</span>
         </div>
         {isLocked && (
           <span className="text-[10px] font-normal mt-1 text-slate-400">{reqText}</span>
@@ -169,89 +575,437 @@ const App: React.FC = () => {
   };
 
   return (
-    <div className="min-h-screen bg-slate-50 flex flex-col items-center py-6 px-4">
+    <I18nProvider value={i18n}>
+    <ThemeProvider value={theme}>
+      <div className="min-h-screen bg-slate-50 flex flex-col items-center py-6 px-4">
       
-      {/* Header & Mode Switcher */}
-      <header className="w-full max-w-4xl mb-6">
-        <h1 className="text-3xl md:text-4xl text-center text-slate-800 mb-6 fun-font tracking-wide">
-          🗺️ 坐标寻宝大冒险
-        </h1>
+        {/* Header & Mode Switcher */}
+        <header className="w-full max-w-4xl mb-6">
+          <div className="flex justify-end items-center gap-3 mb-2">
+            {classroom && (
+              <button
+                onClick={() => setClassroomOpen(true)}
+                className="flex items-center gap-2 px-3 py-1 rounded-full bg-white border border-slate-200 shadow-sm text-sm font-bold text-slate-600 hover:bg-slate-50"
+                title={t(
+                  classroom.joined ? 'classroom.status.joined'
+                  : classroom.status === 'retrying' ? 'classroom.status.retrying'
+                  : 'classroom.status.connecting',
+                  { code: classroom.code }
+                )}
+              >
+                <span className={`w-2 h-2 rounded-full ${classroom.joined ? 'bg-emerald-500' : 'bg-amber-400 animate-pulse'}`}></span>
+                🏫 {classroom.code}
+              </button>
+            )}
+            <LanguageSwitcher />
+            <button
+              onClick={() => setSettingsOpen(true)}
+              className="flex items-center px-3 py-1 rounded-full bg-white border border-slate-200 shadow-sm text-sm font-bold text-slate-600 hover:bg-slate-50"
+              title={t('settings.title')}
+              aria-label={t('settings.title')}
+            >
+              ⚙️
+            </button>
+            {profile && (
+              <button
+                onClick={() => setPickerOpen(true)}
+                className="flex items-center gap-2 px-3 py-1 rounded-full bg-white border border-slate-200 shadow-sm text-sm font-bold text-slate-600 hover:bg-slate-50"
+                title={t('profile.switchTitle')}
+              >
+                <span className="text-lg">{profile.avatar}</span>
+                {profile.name}
+                <span className="text-xs font-normal text-slate-400">{t('profile.switch')}</span>
+              </button>
+            )}
+          </div>
+
+          <h1 className="text-3xl md:text-4xl text-center text-slate-800 mb-6 fun-font tracking-wide">
+            {t('app.title')}
+          </h1>
         
-        <div className="flex flex-wrap justify-center gap-2 md:gap-4 bg-white p-3 rounded-2xl shadow-sm border border-slate-200">
-          {(Object.keys(GAME_MODES) as DifficultyLevel[]).map(renderModeButton)}
-        </div>
+          <div className="flex flex-wrap justify-center gap-2 md:gap-4 bg-white p-3 rounded-2xl shadow-sm border border-slate-200">
+            {Object.keys(levels).map(renderModeButton)}
+            <button
+              onClick={() => setEditorOpen(true)}
+              className="flex items-center justify-center px-4 py-2 rounded-lg text-sm font-bold border-2 border-dashed border-slate-300 text-slate-500 hover:bg-slate-50 min-w-[120px]"
+            >
+              {t('toolbar.customLevels')}
+            </button>
+            <button
+              onClick={() => setHistoryOpen(true)}
+              className="flex items-center justify-center px-4 py-2 rounded-lg text-sm font-bold border-2 border-dashed border-slate-300 text-slate-500 hover:bg-slate-50 min-w-[120px]"
+            >
+              {t('toolbar.history')}
+            </button>
+            <button
+              onClick={() => { setLatestEntry(null); setLeaderboardOpen(true); }}
+              className="flex items-center justify-center px-4 py-2 rounded-lg text-sm font-bold border-2 border-dashed border-slate-300 text-slate-500 hover:bg-slate-50 min-w-[120px]"
+            >
+              {t('toolbar.leaderboard')}
+            </button>
+            <button
+              onClick={() => setProjectOpen(true)}
+              className="flex items-center justify-center px-4 py-2 rounded-lg text-sm font-bold border-2 border-dashed border-slate-300 text-slate-500 hover:bg-slate-50 min-w-[120px]"
+            >
+              {t('toolbar.scratchProject')}
+            </button>
+            <button
+              onClick={() => setWorksheetOpen(true)}
+              className="flex items-center justify-center px-4 py-2 rounded-lg text-sm font-bold border-2 border-dashed border-slate-300 text-slate-500 hover:bg-slate-50 min-w-[120px]"
+            >
+              {t('toolbar.worksheets')}
+            </button>
+            <button
+              onClick={() => setChallengeOpen(true)}
+              className="flex items-center justify-center px-4 py-2 rounded-lg text-sm font-bold border-2 border-dashed border-slate-300 text-slate-500 hover:bg-slate-50 min-w-[120px]"
+            >
+              {t('toolbar.challenge')}
+            </button>
+            {profile && (
+              <button
+                onClick={() => setTrophiesOpen(true)}
+                className="flex items-center justify-center px-4 py-2 rounded-lg text-sm font-bold border-2 border-dashed border-slate-300 text-slate-500 hover:bg-slate-50 min-w-[120px]"
+              >
+                {t('toolbar.trophies')}
+              </button>
+            )}
+            <button
+              onClick={() => setClassroomOpen(true)}
+              className="flex items-center justify-center px-4 py-2 rounded-lg text-sm font-bold border-2 border-dashed border-slate-300 text-slate-500 hover:bg-slate-50 min-w-[120px]"
+            >
+              {t('toolbar.classroom')}
+            </button>
+            <button
+              onClick={() => setBattleshipOpen(true)}
+              className="flex items-center justify-center px-4 py-2 rounded-lg text-sm font-bold border-2 border-dashed border-slate-300 text-slate-500 hover:bg-slate-50 min-w-[120px]"
+            >
+              {t('toolbar.battleship')}
+            </button>
+          </div>
         
-        <div className="mt-2 text-center text-slate-500 text-sm">
-          {config.description}
-        </div>
-      </header>
+          <div className="mt-2 text-center text-slate-500 text-sm">
+            {text(config.description)}
+          </div>
+        </header>
 
-      {/* Main Game Area */}
-      <main className="w-full max-w-4xl grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Main Game Area */}
+        <main className="w-full max-w-4xl grid grid-cols-1 lg:grid-cols-3 gap-6">
         
-        {/* Left: Info Panel */}
-        <div className="lg:col-span-1 flex flex-col gap-4 order-2 lg:order-1">
+          {/* Left: Info Panel */}
+          <div className="lg:col-span-1 flex flex-col gap-4 order-2 lg:order-1">
+
+            {/* Session Type, Race Clock & Streak */}
+            <SessionBar
+              sessionType={sessionType}
+              isRace={isRace}
+              status={sessionStatus}
+              stats={stats}
+              elapsedMs={elapsedMs}
+              themeColor={config.themeColor}
+              onChangeType={setSessionType}
+              onStart={startSession}
+            />
           
-          {/* Target Card */}
-          <div className={`bg-white rounded-2xl shadow-lg border-b-4 border-${config.themeColor}-500 p-6 flex flex-col items-center justify-center min-h-[160px]`}>
-            <span className="text-slate-400 font-bold text-sm uppercase tracking-wider mb-2">当前目标</span>
-            <div className={`text-5xl font-black text-${config.themeColor}-600 fun-font`}>
-              ({target.x}, {target.y})
-            </div>
-          </div>
+            {/* Target Card */}
+            <div className={`relative bg-white rounded-2xl shadow-lg border-b-4 border-${config.themeColor}-500 p-6 flex flex-col items-center justify-center min-h-[160px]`}>
+              {preferences.speech && (
+                <button
+                  onClick={readPrompt}
+                  title={t('speech.repeat')}
+                  aria-label={t('speech.repeat')}
+                  className="absolute top-2 right-2 w-8 h-8 rounded-lg border-2 border-slate-200 text-slate-500 hover:bg-slate-50"
+                >
+                  🔊
+                </button>
+              )}
+              <ExerciseCard
+                round={round}
+                config={config}
+                solved={lastResult?.success === true}
+                onSubmit={engine.submit}
+                onUndo={engine.undo}
+              />
+
+              {/* Imported project: which question this is, and a way out */}
+              {projectRun && (
+                <div className="mt-4 flex items-center gap-2 text-xs text-slate-400">
+                  <span>
+                    {t('project.progress', {
+                      name: projectRun.project.name,
+                      current: ((game.drawn - 1) % projectRun.project.targets.length) + 1,
+                      total: projectRun.project.targets.length
+                    })}
+                  </span>
+                  <button onClick={() => setProjectRun(null)} className="font-bold text-slate-500 hover:underline">
+                    {t('project.stop')}
+                  </button>
+                </div>
+              )}
 
-          {/* Mouse Observer */}
-          <div className="bg-slate-800 text-slate-100 rounded-xl p-4 shadow-md">
-            <div className="flex justify-between items-center mb-1">
-              <span className="text-xs font-mono text-slate-400">MOUSE_POS</span>
-              <div className="w-2 h-2 rounded-full bg-green-400 animate-pulse"></div>
+              {/* Challenge code: which round this is, and a way out */}
+              {challengeRun && (
+                <div className="mt-4 flex items-center gap-2 text-xs text-slate-400">
+                  <span>
+                    {t('challenge.progress', {
+                      code: challengeTag(challengeRun.challenge),
+                      current: Math.max(1, game.drawn),
+                      total: challengeRun.challenge.rounds
+                    })}
+                  </span>
+                  <button onClick={() => setChallengeRun(null)} className="font-bold text-slate-500 hover:underline">
+                    {t('challenge.stop')}
+                  </button>
+                </div>
+              )}
             </div>
-            <div className="text-2xl font-mono tracking-wider">
-              x: {Math.round(hoverPos.x)}
-              <span className="mx-2 text-slate-600">|</span>
-              y: {Math.round(hoverPos.y)}
+
+            {/* Mouse Observer */}
+            <div className="bg-slate-800 text-slate-100 rounded-xl p-4 shadow-md">
+              <div className="flex justify-between items-center mb-1">
+                <span className="text-xs font-mono text-slate-400">MOUSE_POS</span>
+                <div className="w-2 h-2 rounded-full bg-green-400 animate-pulse"></div>
+              </div>
+              <div className="text-2xl font-mono tracking-wider">
+                x: {snapTo(hoverPos.x, precisionOf(config))}
+                <span className="mx-2 text-slate-600">|</span>
+                y: {snapTo(hoverPos.y, precisionOf(config))}
+              </div>
             </div>
-          </div>
 
-          {/* Score & Feedback */}
-          <div className="bg-white rounded-xl p-4 shadow-sm border border-slate-200 flex-grow flex flex-col justify-center text-center">
-            <div className="text-sm text-slate-400 font-bold mb-1">本局得分 SCORE</div>
-            <div className="text-3xl font-black text-slate-700 mb-2">{score}</div>
+            {/* Score & Feedback */}
+            <div className="bg-white rounded-xl p-4 shadow-sm border border-slate-200 flex-grow flex flex-col justify-center text-center">
+              <div className="text-sm text-slate-400 font-bold mb-1">{t('score.title')}</div>
+              <div className="text-3xl font-black text-slate-700 mb-2">{stats.points}</div>
             
-            {/* Progress Bar for Current Level */}
-            <div className="w-full bg-slate-100 rounded-full h-2.5 mb-4 overflow-hidden">
-               <div 
-                 className={`h-2.5 rounded-full bg-${config.themeColor}-500 transition-all duration-500`} 
-                 style={{ width: `${Math.min((progress[mode] / UNLOCK_THRESHOLD) * 100, 100)}%` }}
-               ></div>
+              {/* Progress Bar for Current Level */}
+              <div className="w-full bg-slate-100 rounded-full h-2.5 mb-4 overflow-hidden">
+                 <div 
+                   className={`h-2.5 rounded-full bg-${config.themeColor}-500 transition-all duration-500`} 
+                   style={{ width: `${Math.min(((progress[mode] || 0) / unlockThreshold) * 100, 100)}%` }}
+                 ></div>
+              </div>
+              <div className="text-xs text-slate-400 mb-4">
+                {unlocksAnother
+                  ? t('progress.builtIn', { count: progress[mode] || 0, threshold: unlockThreshold })
+                  : isCustomLevel(mode) ? t('progress.custom', { count: progress[mode] || 0 })
+                  : t('progress.open', { count: progress[mode] || 0 })}
+              </div>
+
+              <div className={`flex items-center justify-center gap-2 text-lg font-bold ${lastResult?.success ? 'text-green-600' : lastResult ? 'text-rose-500' : 'text-slate-600'}`}>
+                {/* Shape and outline say hit or miss too, not just the colour */}
+                {lastResult && (
+                  <span
+                    aria-hidden
+                    className={`flex-none w-7 h-7 flex items-center justify-center text-sm ${lastResult.success ? 'rounded-full bg-green-600 text-white' : 'rounded-md border-2 border-dashed border-rose-500'}`}
+                  >
+                    {lastResult.success ? '✔' : '✖'}
+                  </span>
+                )}
+                {tm(feedback)}
+              </div>
+              {roundScore && roundScore.points > 0 && (
+                <div className="mt-1 text-sm font-bold text-slate-500">
+                  {t(roundScore.success ? 'score.round' : 'score.nearMiss', {
+                    points: roundScore.points,
+                    precision: Math.round(roundScore.precision * 100),
+                    speed: roundScore.speedBonus
+                  })}
+                </div>
+              )}
+              {diagnosis && (
+                <div className="mt-2 text-sm text-amber-600 bg-amber-50 rounded-lg px-3 py-2">
+                  💡 {tm(diagnosis.hint)}
+                </div>
+              )}
+
+              {!isRace && stats.attempts > 0 && (
+                <button
+                  onClick={() => { setTickedAt(Date.now()); setSummaryOpen(true); }}
+                  className="mt-4 self-center text-sm font-bold text-slate-400 hover:text-slate-600 hover:underline"
+                >
+                  {t('summary.end')}
+                </button>
+              )}
             </div>
-            <div className="text-xs text-slate-400 mb-4">
-              当前模式累计完成: {progress[mode]} / {UNLOCK_THRESHOLD} (解锁下一级)
+
+          </div>
+
+          {/* Right: Canvas */}
+          <div className="lg:col-span-2 order-1 lg:order-2">
+            <CoordinateCanvas
+              config={config}
+              target={round.target}
+              showTarget={overlay.showTarget ?? false}
+              marker={projectMarker}
+              lastResult={lastResult}
+              path={round.path}
+              shape={overlay.shape ?? null}
+              direction={overlay.direction ?? null}
+              onUndo={exerciseTypeOf(round.type).answersNeeded ? engine.undo : undefined}
+              misses={misses}
+              missOverlay={missOverlay}
+              cue={diagnosis?.cue ?? null}
+              onResize={setCanvasWidth}
+              onHover={handleHover}
+              onClick={engine.click}
+            />
+            <div className="mt-2 text-center text-xs text-slate-400">
+              {mode === DifficultyLevel.Hell
+                ? t('canvas.hintHell')
+                : t(exerciseCardOf(round.type).hint)}
             </div>
 
-            <div className={`text-lg font-bold ${lastResult?.success ? 'text-green-600' : lastResult ? 'text-rose-500' : 'text-slate-600'}`}>
-              {feedback}
+            {/* Past misses overlay toggle */}
+            <div className="mt-2 flex justify-center items-center gap-1 text-xs">
+              <span className="text-slate-400 mr-1">{t('overlay.label', { count: misses.length })}</span>
+              {OVERLAY_LABELS.map(([style, label]) => (
+                <button
+                  key={style}
+                  onClick={() => updateProfile(p => ({ ...p, settings: { ...p.settings, missOverlay: style } }))}
+                  className={`px-2 py-0.5 rounded-md border ${missOverlay === style ? 'bg-slate-700 border-slate-700 text-white' : 'bg-white border-slate-200 text-slate-500 hover:bg-slate-50'}`}
+                >
+                  {t(label)}
+                </button>
+              ))}
             </div>
           </div>
 
-        </div>
+        </main>
 
-        {/* Right: Canvas */}
-        <div className="lg:col-span-2 order-1 lg:order-2">
-          <CoordinateCanvas
-            config={config}
-            target={target}
-            lastResult={lastResult}
-            onHover={setHoverPos}
-            onClick={handleCanvasClick}
+        {(pickerOpen || !profile) && (
+          <ProfilePicker
+            profiles={store.profiles}
+            activeProfileId={store.activeProfileId}
+            notice={storeNotice && tm(storeNotice)}
+            onSelect={handleSelectProfile}
+            onCreate={handleCreateProfile}
+            onDelete={handleDeleteProfile}
+            onClose={profile ? () => setPickerOpen(false) : undefined}
           />
-          <div className="mt-2 text-center text-xs text-slate-400">
-            {mode === DifficultyLevel.Hell ? "Scratch 舞台大小: 480x360" : "点击网格交叉点寻找宝藏"}
-          </div>
-        </div>
+        )}
+
+        {summaryOpen && (
+          <SessionSummary
+            stats={stats}
+            elapsedMs={elapsedMs}
+            points={game.points}
+            challenge={challengeRun ? challengeTag(challengeRun.challenge) : null}
+            onLeaderboard={isRace && sessionStatus === 'finished' && latestEntry
+              ? () => { setSummaryOpen(false); setLeaderboardOpen(true); }
+              : undefined}
+            onAgain={() => { setSummaryOpen(false); startSession(); }}
+            onClose={() => setSummaryOpen(false)}
+          />
+        )}
+
+        {leaderboardOpen && (
+          <Leaderboard
+            entries={store.leaderboards[mode] ?? []}
+            levelName={text(config.name)}
+            sessionType={sessionType}
+            latest={latestEntry}
+            onClose={() => setLeaderboardOpen(false)}
+          />
+        )}
+
+        {projectOpen && (
+          <ProjectImport
+            fence={GAME_MODES[DifficultyLevel.Hell]}
+            onPlay={handlePlayProject}
+            onClose={() => setProjectOpen(false)}
+          />
+        )}
+
+        {challengeOpen && (
+          <ChallengePanel
+            levels={levels}
+            initialLevel={mode}
+            onPlay={playChallenge}
+            onClose={() => setChallengeOpen(false)}
+          />
+        )}
+
+        {worksheetOpen && (
+          <WorksheetBuilder
+            levels={levels}
+            initialLevel={mode}
+            onClose={() => setWorksheetOpen(false)}
+          />
+        )}
+
+        {trophiesOpen && profile && (
+          <TrophyCase
+            earned={profile.achievements}
+            studentName={profile.name}
+            onClose={() => setTrophiesOpen(false)}
+          />
+        )}
+
+        {classroomOpen && (
+          <ClassroomPanel
+            session={classroom}
+            error={classroomError}
+            onJoin={joinClassroom}
+            onLeave={leaveClassroom}
+            onTeach={address => { setClassroomOpen(false); setDashboardAddress(address); }}
+            onClose={() => setClassroomOpen(false)}
+          />
+        )}
+
+        {dashboardAddress && (
+          <TeacherDashboard
+            address={dashboardAddress}
+            resumeCode={teacherCode}
+            levels={levels}
+            onHosted={setTeacherCode}
+            onClose={() => setDashboardAddress(null)}
+          />
+        )}
+
+        {settingsOpen && (
+          <SettingsPanel
+            preferences={preferences}
+            systemReducedMotion={systemReducedMotion}
+            onChange={setPreferences}
+            onClose={() => setSettingsOpen(false)}
+          />
+        )}
+
+        {battleshipOpen && (
+          <BattleshipGame
+            levels={levels}
+            initialLevel={mode}
+            playerName={profile?.name ?? ''}
+            onClose={() => setBattleshipOpen(false)}
+          />
+        )}
+
+        {historyOpen && (
+          <HistoryPanel
+            attempts={attempts}
+            levels={levels}
+            onClear={() => updateProfile(p => ({ ...p, attempts: [] }))}
+            onClose={() => setHistoryOpen(false)}
+          />
+        )}
+
+        {editorOpen && (
+          <LevelEditor
+            levels={customLevels}
+            allLevels={levels}
+            canvasWidth={canvasWidth}
+            onSave={level => upsertCustomLevels([level])}
+            onDelete={handleDeleteLevel}
+            onImport={upsertCustomLevels}
+            onPlay={id => { setMode(id); setEditorOpen(false); }}
+            onClose={() => setEditorOpen(false)}
+          />
+        )}
 
-      </main>
-    </div>
+        <Toasts toasts={toasts} onDismiss={dismissToast} />
+      </div>
+    </ThemeProvider>
+    </I18nProvider>
   );
 };
 
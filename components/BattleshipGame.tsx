@@ -0,0 +1,342 @@
+import React, { useState } from 'react';
+import { FleetOverlay, GameConfig, Point } from '../types';
+import { Message } from '../i18n';
+import { useI18n } from '../i18n/I18nContext';
+import CoordinateCanvas from './CoordinateCanvas';
+import CoordinateInput from './CoordinateInput';
+import {
+  Board,
+  FLEET,
+  Orientation,
+  ShotResult,
+  checkPlacement,
+  checkShot,
+  emptyBoard,
+  fire,
+  fleetFits,
+  fleetSunk,
+  isSunk,
+  randomFleet,
+  shipCells,
+  shotMarks,
+  snapToTarget
+} from '../utils/battleship';
+
+interface BattleshipGameProps {
+  levels: Record<string, GameConfig>;
+  initialLevel: string; // Level id to start from, usually the one being played
+  playerName: string; // Whoever is signed in plays first
+  onClose: () => void;
+}
+
+type Player = 0 | 1;
+
+interface Shot {
+  point: Point;
+  result: ShotResult;
+}
+
+// Setup, then each player hides a fleet, then shots take turns; every change of player goes through a handoff
+// screen so nobody sees the other board
+type Phase =
+  | { kind: 'setup' }
+  | { kind: 'place'; player: Player }
+  | { kind: 'handoff'; player: Player; next: 'place' | 'fire' }
+  | { kind: 'fire'; player: Player; shot: Shot | null }
+  | { kind: 'won'; player: Player };
+
+const RESULT_LABELS: Record<ShotResult, 'battleship.result.miss' | 'battleship.result.hit' | 'battleship.result.sunk'> = {
+  miss: 'battleship.result.miss',
+  hit: 'battleship.result.hit',
+  sunk: 'battleship.result.sunk'
+};
+
+const other = (player: Player): Player => (player === 0 ? 1 : 0);
+
+// Two players on one device: hide ships on the grid, then find the other fleet by calling out coordinates
+const BattleshipGame: React.FC<BattleshipGameProps> = ({ levels, initialLevel, playerName, onClose }) => {
+  const { t, tm, text } = useI18n();
+  const playable = Object.keys(levels).filter(id => fleetFits(levels[id]));
+  const [levelId, setLevelId] = useState(playable.includes(initialLevel) ? initialLevel : playable[0]);
+  const [names, setNames] = useState<[string, string]>([playerName, '']);
+  const [phase, setPhase] = useState<Phase>({ kind: 'setup' });
+  const [boards, setBoards] = useState<[Board, Board]>(() => [emptyBoard(), emptyBoard()]);
+  const [incoming, setIncoming] = useState<[Shot | null, Shot | null]>([null, null]); // Last shot at each player's board
+  const [orientation, setOrientation] = useState<Orientation>('horizontal');
+  const [hover, setHover] = useState<Point | null>(null);
+  const [errors, setErrors] = useState<Message[]>([]);
+  const [turn, setTurn] = useState(0); // Bumped every shot so the typed coordinates clear
+
+  const config = levels[levelId];
+  const nameOf = (player: Player) => names[player].trim() || t('battleship.playerName', { n: player + 1 });
+  const setBoard = (player: Player, board: Board) =>
+    setBoards(b => (player === 0 ? [board, b[1]] : [b[0], board]));
+
+  const start = () => {
+    setBoards([emptyBoard(), emptyBoard()]);
+    setIncoming([null, null]);
+    setErrors([]);
+    setPhase({ kind: 'handoff', player: 0, next: 'place' });
+  };
+
+  // Placing: the next ship starts at the clicked point
+  const placing = phase.kind === 'place' ? boards[phase.player] : null;
+  const nextLength = placing && placing.ships.length < FLEET.length ? FLEET[placing.ships.length] : null;
+  const cellsAt = (p: Point) => shipCells(snapToTarget(p, config), nextLength ?? 0, orientation, config.targetStep);
+
+  const handlePlace = (click: Point) => {
+    if (phase.kind !== 'place' || !placing || nextLength === null) return;
+    const cells = cellsAt(click);
+    const problems = checkPlacement(cells, placing, config);
+    setErrors(problems);
+    if (problems.length === 0) setBoard(phase.player, { ...placing, ships: [...placing.ships, { cells }] });
+  };
+
+  const undoShip = phase.kind === 'place' && placing && placing.ships.length > 0
+    ? () => setBoard(phase.player, { ...placing, ships: placing.ships.slice(0, -1) })
+    : undefined;
+
+  // fleetFits leaves room for the fleet, but a crowded level can still defeat the random tries
+  const placeRandomly = () => {
+    if (phase.kind !== 'place') return;
+    try {
+      setBoard(phase.player, randomFleet(config));
+      setErrors([]);
+    } catch {
+      setErrors([{ key: 'battleship.error.noRoom' }]);
+    }
+  };
+
+  const finishPlacing = () => {
+    if (phase.kind !== 'place') return;
+    setErrors([]);
+    // The second fleet is in: the first player fires first
+    setPhase(phase.player === 0 ? { kind: 'handoff', player: 1, next: 'place' } : { kind: 'handoff', player: 0, next: 'fire' });
+  };
+
+  // Firing: typed coordinates only, so the shot has to be read and said, not pointed at
+  const handleShot = (point: Point) => {
+    if (phase.kind !== 'fire' || phase.shot) return;
+    const target = other(phase.player);
+    const problems = checkShot(point, boards[target], config);
+    setErrors(problems);
+    if (problems.length > 0) return;
+    const { board, result } = fire(boards[target], point);
+    setBoard(target, board);
+    setIncoming(s => (target === 0 ? [{ point, result }, s[1]] : [s[0], { point, result }]));
+    setPhase(fleetSunk(board) ? { kind: 'won', player: phase.player } : { ...phase, shot: { point, result } });
+  };
+
+  const passTurn = () => {
+    if (phase.kind !== 'fire') return;
+    setTurn(n => n + 1);
+    setErrors([]);
+    setPhase({ kind: 'handoff', player: other(phase.player), next: 'fire' });
+  };
+
+  // What the canvas shows: your own fleet while placing, the other board (sunk ships only) while firing,
+  // and the loser's whole fleet at the end
+  const fleetOverlay = (): FleetOverlay | null => {
+    if (phase.kind === 'place') {
+      const board = boards[phase.player];
+      const preview = hover && nextLength !== null ? cellsAt(hover) : null;
+      return {
+        ships: board.ships.map(s => s.cells),
+        preview: preview && { cells: preview, valid: checkPlacement(preview, board, config).length === 0 },
+        hits: [],
+        misses: []
+      };
+    }
+    if (phase.kind === 'fire' || phase.kind === 'won') {
+      const board = boards[other(phase.player)];
+      const shown = phase.kind === 'won' ? board.ships : board.ships.filter(s => isSunk(s, board.shots));
+      return { ships: shown.map(s => s.cells), preview: null, ...shotMarks(board) };
+    }
+    return null;
+  };
+
+  const afloat = (board: Board) => board.ships.filter(s => !isSunk(s, board.shots)).length;
+  const describeShot = (shot: Shot) => `(${shot.point.x}, ${shot.point.y}) ${t(RESULT_LABELS[shot.result])}`;
+
+  const renderSide = () => {
+    switch (phase.kind) {
+      case 'place':
+        return (
+          <>
+            <h3 className="text-lg font-bold text-slate-700">{t('battleship.place', { name: nameOf(phase.player) })}</h3>
+            <p className="text-sm text-slate-500">{t('battleship.placeHint', { step: config.targetStep })}</p>
+            <div className="text-sm font-bold text-slate-600">
+              {nextLength !== null ? t('battleship.nextShip', { length: nextLength }) : t('battleship.fleetReady')}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={() => setOrientation(o => (o === 'horizontal' ? 'vertical' : 'horizontal'))}
+                disabled={nextLength === null}
+                className="px-3 py-1.5 rounded-lg text-sm font-bold border-2 border-slate-200 text-slate-500 hover:bg-slate-50 disabled:opacity-50"
+              >
+                {t('battleship.rotate', { direction: t(orientation === 'horizontal' ? 'battleship.horizontal' : 'battleship.vertical') })}
+              </button>
+              <button
+                onClick={undoShip}
+                disabled={!undoShip}
+                className="px-3 py-1.5 rounded-lg text-sm font-bold border-2 border-slate-200 text-slate-500 hover:bg-slate-50 disabled:opacity-50"
+              >
+                {t('battleship.undo')}
+              </button>
+              <button
+                onClick={placeRandomly}
+                className="px-3 py-1.5 rounded-lg text-sm font-bold border-2 border-slate-200 text-slate-500 hover:bg-slate-50"
+              >
+                {t('battleship.random')}
+              </button>
+            </div>
+            <button
+              onClick={finishPlacing}
+              disabled={nextLength !== null}
+              className="self-end px-4 py-1.5 rounded-lg font-bold text-white bg-indigo-500 hover:bg-indigo-600 disabled:opacity-50"
+            >
+              {t('battleship.done')}
+            </button>
+          </>
+        );
+      case 'fire': {
+        const target = boards[other(phase.player)];
+        return (
+          <>
+            <h3 className="text-lg font-bold text-slate-700">{t('battleship.fire', { name: nameOf(phase.player) })}</h3>
+            <p className="text-sm text-slate-500">{t('battleship.fireHint')}</p>
+            <CoordinateInput key={turn} themeColor={config.themeColor} disabled={phase.shot !== null} onSubmit={handleShot} />
+            {phase.shot && (
+              <div className={`text-center text-xl font-bold ${phase.shot.result === 'miss' ? 'text-rose-500' : 'text-green-600'}`}>
+                {t('battleship.shot')} {describeShot(phase.shot)}
+              </div>
+            )}
+            <div className="text-xs text-slate-400">
+              <div>{t('battleship.enemyLeft', { count: afloat(target), total: FLEET.length })}</div>
+              <div>{t('battleship.afloat', { count: afloat(boards[phase.player]), total: FLEET.length })}</div>
+            </div>
+            {phase.shot && (
+              <button
+                onClick={passTurn}
+                className="self-end px-4 py-1.5 rounded-lg font-bold text-white bg-indigo-500 hover:bg-indigo-600"
+              >
+                {t('battleship.pass', { name: nameOf(other(phase.player)) })}
+              </button>
+            )}
+          </>
+        );
+      }
+      case 'won': {
+        const board = boards[other(phase.player)];
+        return (
+          <>
+            <div className="text-5xl text-center">🏆</div>
+            <h3 className="text-2xl text-center text-slate-800 fun-font">{t('battleship.won', { name: nameOf(phase.player) })}</h3>
+            <p className="text-sm text-center text-slate-500">
+              {t('battleship.wonStats', { shots: board.shots.length, hits: shotMarks(board).hits.length })}
+            </p>
+            <button
+              onClick={() => setPhase({ kind: 'setup' })}
+              className="self-center px-4 py-1.5 rounded-lg font-bold text-white bg-indigo-500 hover:bg-indigo-600"
+            >
+              {t('battleship.again')}
+            </button>
+          </>
+        );
+      }
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 flex items-center justify-center p-4 z-50" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-xl w-full max-w-4xl max-h-full overflow-y-auto p-6"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl text-slate-800 fun-font">{t('battleship.title')}</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 text-2xl leading-none">×</button>
+        </div>
+
+        {phase.kind === 'setup' ? (
+          <div className="flex flex-col gap-4">
+            <p className="text-sm text-slate-500">{t('battleship.intro')}</p>
+            <div className="grid grid-cols-3 gap-3">
+              {([0, 1] as const).map(player => (
+                <label key={player} className="flex flex-col text-xs font-bold text-slate-500 gap-1">
+                  {t('battleship.playerName', { n: player + 1 })}
+                  <input
+                    value={names[player]}
+                    onChange={e => setNames(n => (player === 0 ? [e.target.value, n[1]] : [n[0], e.target.value]))}
+                    placeholder={t('battleship.playerName', { n: player + 1 })}
+                    maxLength={20}
+                    className="rounded-md border-2 border-slate-200 px-2 py-1 text-sm text-slate-700 focus:outline-none focus:border-indigo-500"
+                  />
+                </label>
+              ))}
+              <label className="flex flex-col text-xs font-bold text-slate-500 gap-1">
+                {t('battleship.level')}
+                <select
+                  value={levelId}
+                  onChange={e => setLevelId(e.target.value)}
+                  className="rounded-md border-2 border-slate-200 px-2 py-1 text-sm text-slate-700"
+                >
+                  {playable.map(id => <option key={id} value={id}>{text(levels[id].name)}</option>)}
+                </select>
+              </label>
+            </div>
+            <button
+              onClick={start}
+              disabled={!config}
+              className="self-end px-4 py-1.5 rounded-lg font-bold text-white bg-indigo-500 hover:bg-indigo-600 disabled:opacity-50"
+            >
+              {t('battleship.start')}
+            </button>
+          </div>
+        ) : phase.kind === 'handoff' ? (
+          // Nothing of either board is on screen while the device changes hands
+          <div className="flex flex-col items-center gap-4 py-12 text-center">
+            <div className="text-5xl">🙈</div>
+            <h3 className="text-2xl text-slate-800 fun-font">{t('battleship.handoff', { name: nameOf(phase.player) })}</h3>
+            <p className="max-w-md text-sm text-slate-500">{t('battleship.noPeeking', { name: nameOf(phase.player) })}</p>
+            {phase.next === 'fire' && incoming[phase.player] && (
+              <div className="rounded-lg bg-slate-50 px-4 py-2 font-bold text-slate-700">
+                {t('battleship.incoming', { name: nameOf(other(phase.player)) })} {describeShot(incoming[phase.player] as Shot)}
+              </div>
+            )}
+            <button
+              onClick={() => setPhase(phase.next === 'place' ? { kind: 'place', player: phase.player } : { kind: 'fire', player: phase.player, shot: null })}
+              className="px-4 py-1.5 rounded-lg font-bold text-white bg-indigo-500 hover:bg-indigo-600"
+            >
+              {t('battleship.ready', { name: nameOf(phase.player) })}
+            </button>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="flex flex-col gap-3">
+              {renderSide()}
+              {errors.length > 0 && (
+                <div className="text-sm text-rose-500">{t('battleship.invalid', { error: errors.map(tm).join(' / ') })}</div>
+              )}
+            </div>
+            <div className="lg:col-span-2">
+              <CoordinateCanvas
+                config={config}
+                target={{ x: 0, y: 0 }}
+                lastResult={null}
+                fleet={fleetOverlay()}
+                onHover={setHover}
+                onClick={handlePlace}
+                onUndo={undoShip}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BattleshipGame;
@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { GameConfig } from '../types';
+import { useI18n } from '../i18n/I18nContext';
+import { randomSeedText } from '../utils/random';
+import {
+  CHALLENGE_ROUND_OPTIONS,
+  Challenge,
+  ChallengeError,
+  DEFAULT_CHALLENGE_ROUNDS,
+  buildChallengeUrl,
+  challengeCode,
+  cleanSeed,
+  readChallengeCode
+} from '../utils/challenge';
+
+interface ChallengePanelProps {
+  levels: Record<string, GameConfig>;
+  initialLevel: string; // Level id to start from, usually the one being played
+  onPlay: (challenge: Challenge) => void;
+  onClose: () => void;
+}
+
+// Teachers make a code for the class; students type it in (or open the link) and all get the same rounds
+const ChallengePanel: React.FC<ChallengePanelProps> = ({ levels, initialLevel, onPlay, onClose }) => {
+  const { t, tm, text } = useI18n();
+  const [levelId, setLevelId] = useState(initialLevel in levels ? initialLevel : Object.keys(levels)[0]);
+  const [rounds, setRounds] = useState(DEFAULT_CHALLENGE_ROUNDS);
+  const [seed, setSeed] = useState(() => cleanSeed(randomSeedText()));
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
+  const [entered, setEntered] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const created: Challenge = { level: levels[levelId], seed, rounds };
+  const code = seed ? challengeCode(created) : '';
+
+  const handleShare = async () => {
+    const url = buildChallengeUrl(created);
+    setShareUrl(url);
+    try {
+      await navigator.clipboard.writeText(url);
+    } catch {
+      // Clipboard can be blocked; the link is still shown for manual copying
+    }
+  };
+
+  const handleJoin = () => {
+    try {
+      onPlay(readChallengeCode(entered));
+    } catch (err) {
+      setError(err instanceof ChallengeError ? err.messages.map(tm).join(' / ') : String(err));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 flex items-center justify-center p-4 z-50" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-xl w-full max-w-lg max-h-full overflow-y-auto p-6"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl text-slate-800 fun-font">{t('challenge.title')}</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 text-2xl leading-none">×</button>
+        </div>
+
+        {/* Enter A Code */}
+        <h3 className="mb-2 text-sm font-bold text-slate-400">{t('challenge.join')}</h3>
+        <div className="flex gap-2">
+          <input
+            value={entered}
+            onChange={e => { setEntered(e.target.value); setError(null); }}
+            onKeyDown={e => { if (e.key === 'Enter') handleJoin(); }}
+            placeholder="H10-K3X9P2"
+            className="min-w-0 flex-1 rounded-md border-2 border-slate-200 px-2 py-1 text-sm text-slate-700 font-mono focus:outline-none focus:border-violet-500"
+          />
+          <button
+            onClick={handleJoin}
+            disabled={entered.trim() === ''}
+            className="px-4 py-1.5 rounded-lg font-bold text-white bg-violet-500 hover:bg-violet-600 disabled:opacity-50"
+          >
+            {t('challenge.play')}
+          </button>
+        </div>
+        {error && <div className="mt-2 text-sm text-rose-500">{t('challenge.failed', { error })}</div>}
+
+        {/* Make A Code */}
+        <h3 className="mt-6 mb-2 text-sm font-bold text-slate-400">{t('challenge.create')}</h3>
+        <div className="grid grid-cols-3 gap-3">
+          <label className="flex flex-col text-xs font-bold text-slate-500 gap-1">
+            {t('challenge.level')}
+            <select
+              value={levelId}
+              onChange={e => { setLevelId(e.target.value); setShareUrl(null); }}
+              className="rounded-md border-2 border-slate-200 px-2 py-1 text-sm text-slate-700"
+            >
+              {Object.keys(levels).map(id => (
+                <option key={id} value={id}>{text(levels[id].name)}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="flex flex-col text-xs font-bold text-slate-500 gap-1">
+            {t('challenge.rounds')}
+            <select
+              value={rounds}
+              onChange={e => { setRounds(Number(e.target.value)); setShareUrl(null); }}
+              className="rounded-md border-2 border-slate-200 px-2 py-1 text-sm text-slate-700"
+            >
+              {CHALLENGE_ROUND_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </label>
+
+          <label className="flex flex-col text-xs font-bold text-slate-500 gap-1">
+            {t('challenge.seed')}
+            <div className="flex gap-1">
+              <input
+                value={seed}
+                onChange={e => { setSeed(cleanSeed(e.target.value)); setShareUrl(null); }}
+                className="min-w-0 flex-1 rounded-md border-2 border-slate-200 px-2 py-1 text-sm text-slate-700 font-mono focus:outline-none focus:border-violet-500"
+              />
+              <button
+                onClick={() => { setSeed(cleanSeed(randomSeedText())); setShareUrl(null); }}
+                title={t('challenge.newSeed')}
+                className="px-2 rounded-md border-2 border-slate-200 hover:bg-slate-50"
+              >
+                🎲
+              </button>
+            </div>
+          </label>
+        </div>
+
+        <div className="mt-4 rounded-lg bg-slate-50 p-3 text-center">
+          <div className="text-xs font-bold text-slate-400">{t('challenge.code')}</div>
+          {/* Custom levels travel inside the code, which makes it long; the link is easier to share then */}
+          <div className={`mt-1 font-mono font-black text-slate-700 break-all select-all ${code.length > 20 ? 'text-xs' : 'text-2xl'}`}>
+            {code || '—'}
+          </div>
+        </div>
+
+        <div className="mt-4 flex justify-end gap-2">
+          <button
+            onClick={handleShare}
+            disabled={!seed}
+            className="px-4 py-1.5 rounded-lg font-bold border-2 border-slate-200 text-slate-500 hover:bg-slate-50 disabled:opacity-50"
+          >
+            {t('challenge.share')}
+          </button>
+          <button
+            onClick={() => onPlay(created)}
+            disabled={!seed}
+            className="px-4 py-1.5 rounded-lg font-bold text-white bg-violet-500 hover:bg-violet-600 disabled:opacity-50"
+          >
+            {t('challenge.play')}
+          </button>
+        </div>
+
+        {shareUrl && (
+          <div className="mt-3">
+            <div className="text-xs text-slate-400 mb-1">{t('challenge.shareLink')}</div>
+            <input
+              readOnly
+              value={shareUrl}
+              onFocus={e => e.target.select()}
+              className="w-full rounded-md border-2 border-slate-200 px-2 py-1 text-xs font-mono text-slate-600"
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ChallengePanel;
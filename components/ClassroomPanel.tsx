@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { Message } from '../i18n';
+import { useI18n } from '../i18n/I18nContext';
+import { ClassroomStatus } from '../utils/classroomClient';
+
+// The class this app is in; `joined` once the server has accepted the code
+export interface ClassroomSession {
+  address: string;
+  code: string;
+  status: ClassroomStatus;
+  joined: boolean;
+}
+
+interface ClassroomPanelProps {
+  session: ClassroomSession | null;
+  error: Message | null;
+  onJoin: (address: string, code: string) => void;
+  onLeave: () => void;
+  onTeach: (address: string) => void;
+  onClose: () => void;
+}
+
+// The app is usually opened from the teacher's computer, which runs the classroom server too
+const defaultAddress = () => window.location.hostname || 'localhost';
+
+// Students join with the code on the board; the teacher opens the dashboard from here
+const ClassroomPanel: React.FC<ClassroomPanelProps> = ({ session, error, onJoin, onLeave, onTeach, onClose }) => {
+  const { t, tm } = useI18n();
+  const [address, setAddress] = useState(() => session?.address ?? defaultAddress());
+  const [code, setCode] = useState(session?.code ?? '');
+
+  const statusText = !session ? null
+    : session.joined ? t('classroom.status.joined', { code: session.code })
+    : session.status === 'retrying' ? t('classroom.status.retrying')
+    : t('classroom.status.connecting');
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 flex items-center justify-center p-4 z-50" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-xl w-full max-w-lg max-h-full overflow-y-auto p-6"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl text-slate-800 fun-font">{t('classroom.title')}</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 text-2xl leading-none">×</button>
+        </div>
+
+        {/* Join A Class */}
+        <h3 className="mb-2 text-sm font-bold text-slate-400">{t('classroom.join')}</h3>
+        {session ? (
+          <div className="flex items-center justify-between gap-2 rounded-lg bg-slate-50 px-3 py-2">
+            <span className={`text-sm font-bold ${session.joined ? 'text-emerald-600' : 'text-slate-500'}`}>{statusText}</span>
+            <button
+              onClick={onLeave}
+              className="px-3 py-1 rounded-lg text-sm font-bold border-2 border-slate-200 text-slate-500 hover:bg-slate-50"
+            >
+              {t('classroom.leave')}
+            </button>
+          </div>
+        ) : (
+          <div className="grid grid-cols-3 gap-3">
+            <label className="col-span-2 flex flex-col text-xs font-bold text-slate-500 gap-1">
+              {t('classroom.address')}
+              <input
+                value={address}
+                onChange={e => setAddress(e.target.value)}
+                className="rounded-md border-2 border-slate-200 px-2 py-1 text-sm text-slate-700 font-mono focus:outline-none focus:border-violet-500"
+              />
+            </label>
+            <label className="flex flex-col text-xs font-bold text-slate-500 gap-1">
+              {t('classroom.code')}
+              <input
+                value={code}
+                onChange={e => setCode(e.target.value)}
+                onKeyDown={e => { if (e.key === 'Enter' && code.trim() && address.trim()) onJoin(address, code); }}
+                placeholder="K3XP"
+                className="rounded-md border-2 border-slate-200 px-2 py-1 text-sm text-slate-700 font-mono uppercase focus:outline-none focus:border-violet-500"
+              />
+            </label>
+            <div className="col-span-3 flex justify-end">
+              <button
+                onClick={() => onJoin(address, code)}
+                disabled={!code.trim() || !address.trim()}
+                className="px-4 py-1.5 rounded-lg font-bold text-white bg-violet-500 hover:bg-violet-600 disabled:opacity-50"
+              >
+                {t('classroom.joinButton')}
+              </button>
+            </div>
+          </div>
+        )}
+        {error && <div className="mt-2 text-sm text-rose-500">{tm(error)}</div>}
+
+        {/* Teach A Class */}
+        <h3 className="mt-6 mb-2 text-sm font-bold text-slate-400">{t('classroom.teach')}</h3>
+        <p className="text-xs text-slate-500 mb-3">{t('classroom.teachHint')}</p>
+        <div className="flex justify-end">
+          <button
+            onClick={() => onTeach(address)}
+            disabled={!address.trim()}
+            className="px-4 py-1.5 rounded-lg font-bold border-2 border-slate-200 text-slate-500 hover:bg-slate-50 disabled:opacity-50"
+          >
+            {t('classroom.teachButton')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ClassroomPanel;
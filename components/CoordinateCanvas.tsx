@@ -1,24 +1,101 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { GameConfig, Point } from '../types';
+import { AttemptRecord, DirectionOverlay, FleetOverlay, GameConfig, LabeledPoint, MissOverlayStyle, Point, ShapeOverlay, TargetMarker, VisualCue } from '../types';
+import { useI18n } from '../i18n/I18nContext';
+import { useTheme } from '../theme/ThemeContext';
+import { alpha } from '../theme';
+import { spokenPoint } from '../utils/audio';
+import {
+  GRID_PADDING,
+  MAX_ZOOM,
+  Viewport,
+  aspectRatioOf,
+  canvasPainter,
+  clampView,
+  drawGrid,
+  drawVertex,
+  fullView,
+  gridStepAt,
+  logicalOf,
+  panView,
+  pixelOf,
+  visibleRanges,
+  zoomViewAt
+} from '../utils/gridDrawing';
+
+// Touch magnifier: on-screen diameter (px) and zoom factor
+const LOUPE_SIZE = 120;
+const LOUPE_ZOOM = 2;
+// Sprite pictures are fitted into a square this big (px)
+const MARKER_SIZE = 48;
+// Zoom factor per +/− press, and per pixel of wheel scrolling
+const ZOOM_STEP = 1.5;
+const WHEEL_ZOOM_SPEED = 0.002;
+// A mouse press that moves further than this (px) pans instead of answering
+const DRAG_THRESHOLD = 5;
+
+// Scratch's motion-block blue, kept in every theme like the blocks themselves
+const SCRATCH_BLUE = '#4C97FF';
+
+// Distance between two fingers and the point halfway between them
+const pinchOf = (pointers: Map<number, Point>) => {
+  const [a, b] = [...pointers.values()];
+  return { distance: Math.hypot(b.x - a.x, b.y - a.y) || 1, mid: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 } };
+};
 
 interface CoordinateCanvasProps {
   config: GameConfig;
   target: Point;
-  lastResult: { success: boolean; clickPos: Point; timestamp: number } | null;
+  showTarget?: boolean; // Reveal the target with a marker ("name the point" rounds)
+  marker?: TargetMarker | null; // Picture and name to use for that marker
+  lastResult: { success: boolean; clickPos: Point; timestamp: number; stars?: number } | null; // stars: 1–3 on a hit
+  path?: Point[] | null; // Sprite waypoints to animate (e.g. a replayed Scratch script)
+  shape?: ShapeOverlay | null; // Vertices and outline of a shape being plotted
+  direction?: DirectionOverlay | null; // Protractor ring and arrows for direction rounds
+  fleet?: FleetOverlay | null; // Ships and shots in battleship
+  misses?: AttemptRecord[]; // Past misses for the overlay
+  missOverlay?: MissOverlayStyle;
+  cue?: VisualCue | null; // Misconception highlight for the last miss
+  onResize?: (width: number) => void; // Reports the on-screen width (used for label spacing checks)
   onHover: (pos: Point) => void;
   onClick: (pos: Point) => void;
+  onUndo?: () => void; // Backspace / Ctrl+Z, e.g. to take back the last vertex
 }
 
 const CoordinateCanvas: React.FC<CoordinateCanvasProps> = ({
   config,
   target,
+  showTarget = false,
+  marker = null,
   lastResult,
+  path = null,
+  shape = null,
+  direction = null,
+  fleet = null,
+  misses = [],
+  missOverlay = 'off',
+  cue = null,
+  onResize,
   onHover,
-  onClick
+  onClick,
+  onUndo
 }) => {
+  const { t, info } = useI18n();
+  const theme = useTheme();
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [dimensions, setDimensions] = useState({ width: 600, height: 450 });
+  const [pathProgress, setPathProgress] = useState(0); // Segments travelled so far (fractional)
+  const loupeRef = useRef<HTMLCanvasElement>(null);
+  const [touchAim, setTouchAim] = useState<Point | null>(null); // Finger position (canvas px) while press-drag aiming
+  const [keyCursor, setKeyCursor] = useState<Point | null>(null); // Logical keyboard cursor, null until a key is used
+  const [cueVisible, setCueVisible] = useState(true); // Blinks a few times when a new cue arrives
+  const [markerImage, setMarkerImage] = useState<HTMLImageElement | null>(null); // Loaded marker picture
+  const [view, setView] = useState<Viewport>(() => fullView(config)); // Zoom and pan
+  const pointersRef = useRef(new Map<number, Point>()); // Pointers currently down (canvas px), for pinching
+  const pinchRef = useRef<{ distance: number; mid: Point } | null>(null); // Set from a second finger until all fingers lift
+  const dragRef = useRef<{ start: Point; last: Point; moved: boolean } | null>(null); // Mouse press that may turn into a pan
+  const [announcement, setAnnouncement] = useState(''); // Read out by screen readers through the live region
+  const zoomRef = useRef(view.zoom); // Last zoom announced
 
   // Handle Resize
   useEffect(() => {
@@ -26,11 +103,12 @@ const CoordinateCanvas: React.FC<CoordinateCanvasProps> = ({
       if (containerRef.current) {
         const { clientWidth } = containerRef.current;
         // Maintain a 4:3 aspect ratio closer to Scratch, or square for smaller modes
-        const aspectRatio = config.id === 'INTRO' ? 1 : 4 / 3;
+        const aspectRatio = aspectRatioOf(config);
         setDimensions({
           width: clientWidth,
           height: clientWidth / aspectRatio
         });
+        onResize?.(clientWidth);
       }
     };
 
@@ -38,46 +116,107 @@ const CoordinateCanvas: React.FC<CoordinateCanvasProps> = ({
     updateSize(); // Initial call
 
     return () => window.removeEventListener('resize', updateSize);
-  }, [config.id]);
+  }, [config.id, onResize]);
 
-  // Coordinate Mapping Helpers
-  // Logical Coordinate -> Canvas Pixel
-  const toPixel = useCallback((p: Point): Point => {
-    const { xRange, yRange } = config;
-    const { width, height } = dimensions;
-    
-    // Add small padding (margin) so labels don't get cut off
-    const padding = 40; 
-    const drawW = width - padding * 2;
-    const drawH = height - padding * 2;
+  // A new level starts zoomed out
+  useEffect(() => setView(fullView(config)), [config]);
 
-    const xSpan = xRange[1] - xRange[0];
-    const ySpan = yRange[1] - yRange[0];
+  // Animate the path one segment at a time
+  useEffect(() => {
+    setPathProgress(0);
+    if (!path || path.length < 2) return;
+
+    const total = path.length - 1;
+    // Without motion the whole path shows at once
+    if (theme.reducedMotion) {
+      setPathProgress(total);
+      return;
+    }
+    // Keep the whole replay inside the 1.5s pause before the next round
+    const segmentMs = Math.min(400, 1200 / total);
+    let frame = 0;
+    const start = performance.now();
+    const tick = (now: number) => {
+      const progress = Math.min((now - start) / segmentMs, total);
+      setPathProgress(progress);
+      if (progress < total) frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+
+    return () => cancelAnimationFrame(frame);
+  }, [path, theme.reducedMotion]);
 
-    const px = padding + ((p.x - xRange[0]) / xSpan) * drawW;
-    // Canvas Y is inverted (0 is top)
-    const py = height - padding - ((p.y - yRange[0]) / ySpan) * drawH;
+  // Flash a new cue three times, then leave it on
+  useEffect(() => {
+    setCueVisible(true);
+    if (!cue || theme.reducedMotion) return;
 
-    return { x: px, y: py };
-  }, [config, dimensions]);
+    let ticks = 0;
+    const timer = setInterval(() => {
+      ticks += 1;
+      setCueVisible(v => !v);
+      if (ticks >= 6) clearInterval(timer);
+    }, 250);
 
-  // Canvas Pixel -> Logical Coordinate
-  const toLogical = useCallback((p: Point): Point => {
-    const { xRange, yRange } = config;
-    const { width, height } = dimensions;
-    const padding = 40;
-    const drawW = width - padding * 2;
-    const drawH = height - padding * 2;
+    return () => clearInterval(timer);
+  }, [cue, theme.reducedMotion]);
+
+  // Screen readers hear where the keyboard cursor is, how each answer went and how far the grid is zoomed
+  useEffect(() => {
+    if (keyCursor) setAnnouncement(spokenPoint(keyCursor, t));
+  }, [keyCursor, t]);
+
+  useEffect(() => {
+    if (!lastResult) return;
+    const point = spokenPoint(lastResult.clickPos, t);
+    setAnnouncement(t(lastResult.success ? 'canvas.announceHit' : 'canvas.announceMiss', { point }));
+  }, [lastResult, t]);
+
+  useEffect(() => {
+    if (view.zoom === zoomRef.current) return;
+    zoomRef.current = view.zoom;
+    setAnnouncement(t('canvas.announceZoom', { zoom: Math.round(view.zoom * 10) / 10 }));
+  }, [view.zoom, t]);
+
+  // Load the marker picture; the cat stands in until it's ready or if it fails
+  const markerSrc = marker?.image ?? null;
+  useEffect(() => {
+    setMarkerImage(null);
+    if (!markerSrc) return;
 
-    const xSpan = xRange[1] - xRange[0];
-    const ySpan = yRange[1] - yRange[0];
+    const img = new Image();
+    img.onload = () => setMarkerImage(img);
+    img.src = markerSrc;
 
-    const lx = ((p.x - padding) / drawW) * xSpan + xRange[0];
-    const ly = ((height - padding - p.y) / drawH) * ySpan + yRange[0];
+    return () => { img.onload = null; };
+  }, [markerSrc]);
 
-    return { x: Math.round(lx), y: Math.round(ly) };
-  }, [config, dimensions]);
+  // Coordinate Mapping Helpers
+  // Logical Coordinate -> Canvas Pixel
+  const toPixel = useCallback((p: Point): Point => pixelOf(p, config, dimensions, view), [config, dimensions, view]);
+
+  // Canvas Pixel -> Logical Coordinate
+  const toLogical = useCallback((p: Point): Point => logicalOf(p, config, dimensions, view), [config, dimensions, view]);
+
+  // Wheel zooms about the pointer; it needs a non-passive listener to keep the page from scrolling
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const handleWheel = (e: WheelEvent) => {
+      const factor = Math.exp(-e.deltaY * WHEEL_ZOOM_SPEED);
+      // Zooming out of the whole grid does nothing, so let the page scroll instead
+      if (view.zoom <= 1 && factor <= 1) return;
+      e.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      setView(zoomViewAt(config, dimensions, view, factor, { x: e.clientX - rect.left, y: e.clientY - rect.top }));
+    };
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, [config, dimensions, view]);
 
+  // Buttons and keys zoom about the middle of the canvas
+  const zoomBy = (factor: number) =>
+    setView(v => zoomViewAt(config, dimensions, v, factor, { x: dimensions.width / 2, y: dimensions.height / 2 }));
 
   // Drawing Logic
   useEffect(() => {
@@ -97,190 +236,643 @@ const CoordinateCanvas: React.FC<CoordinateCanvasProps> = ({
 
     // --- RENDER START ---
 
-    // 1. Clear Background
-    ctx.fillStyle = '#f8fafc'; // slate-50
-    ctx.fillRect(0, 0, dimensions.width, dimensions.height);
-
-    // 2. Draw Grid
-    const { xRange, yRange, gridStep, majorGridStep, labelStep } = config;
-
+    // 1–3. Background, grid, labels and axes, shared with printed worksheets
+    const painter = canvasPainter(ctx);
+    const c = theme.color;
+    drawGrid(painter, config, dimensions, info.fontFamily, view, theme);
+    const { xRange, yRange } = visibleRanges(config, view);
     ctx.textAlign = 'center';
     ctx.textBaseline = 'middle';
-    ctx.font = '12px "Noto Sans SC"';
-
-    // Draw Vertical Lines (X)
-    for (let x = xRange[0]; x <= xRange[1]; x += gridStep) {
-      // Fix float precision issues (e.g. 0.3000000004)
-      const cleanX = Math.round(x * 100) / 100;
-      if (cleanX < xRange[0] || cleanX > xRange[1]) continue;
-
-      const p1 = toPixel({ x: cleanX, y: yRange[0] });
-      const p2 = toPixel({ x: cleanX, y: yRange[1] });
 
+    // Zoomed in, whatever lies outside the window stays out of the label margin
+    ctx.save();
+    if (view.zoom > 1) {
       ctx.beginPath();
-      const isAxis = cleanX === 0;
-      const isMajor = majorGridStep ? cleanX % majorGridStep === 0 : false;
-
-      if (isAxis) {
-        ctx.lineWidth = 2.5;
-        ctx.strokeStyle = '#334155'; // Dark Slate
-      } else if (isMajor) {
-        ctx.lineWidth = 1.5;
-        ctx.strokeStyle = '#94a3b8'; // Slate 400
-      } else {
-        ctx.lineWidth = 0.5;
-        ctx.strokeStyle = '#cbd5e1'; // Slate 300
+      ctx.rect(GRID_PADDING, GRID_PADDING, dimensions.width - GRID_PADDING * 2, dimensions.height - GRID_PADDING * 2);
+      ctx.clip();
+    }
+
+    // 4. Past Misses Overlay
+    if (missOverlay === 'heatmap') {
+      // Overlapping soft blobs add up, so clusters of mistakes glow brighter
+      for (const miss of misses) {
+        const p = toPixel(miss.clickPos);
+        const radius = 28;
+        const gradient = ctx.createRadialGradient(p.x, p.y, 0, p.x, p.y, radius);
+        gradient.addColorStop(0, alpha(c('red', 500), 0.35));
+        gradient.addColorStop(1, alpha(c('red', 500), 0));
+        ctx.fillStyle = gradient;
+        ctx.fillRect(p.x - radius, p.y - radius, radius * 2, radius * 2);
       }
-      
-      ctx.moveTo(p1.x, p1.y);
-      ctx.lineTo(p2.x, p2.y);
-      ctx.stroke();
+    } else if (missOverlay === 'scatter') {
+      for (const miss of misses) {
+        const t = toPixel(miss.target);
+        const p = toPixel(miss.clickPos);
+
+        // Line from where it should have been to where they went
+        ctx.strokeStyle = alpha(c('red', 500), 0.5);
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        ctx.moveTo(t.x, t.y);
+        ctx.lineTo(p.x, p.y);
+        ctx.stroke();
 
-      // Labels (skip 0 to avoid collision with origin)
-      if (cleanX % labelStep === 0 && cleanX !== 0) {
-        const textPos = toPixel({ x: cleanX, y: 0 });
-        // If Y range doesn't include 0 (not possible in current modes but good for robustness), clamp logic needed.
-        // For current modes, axis is always visible or at edge.
-        // Move text slightly away from axis
-        let textY = textPos.y + 15;
-        
-        // Special case for Intro mode where Y=0 is at bottom
-        if (config.originPos === 'bottom-left') {
-            textY = dimensions.height - 20;
-        }
+        ctx.strokeStyle = c('green', 600);
+        ctx.beginPath();
+        ctx.arc(t.x, t.y, 4, 0, Math.PI * 2);
+        ctx.stroke();
 
-        ctx.fillStyle = '#64748b';
-        ctx.fillText(cleanX.toString(), textPos.x, textY);
+        ctx.fillStyle = c('red', 500);
+        ctx.beginPath();
+        ctx.arc(p.x, p.y, 3, 0, Math.PI * 2);
+        ctx.fill();
       }
     }
 
-    // Draw Horizontal Lines (Y)
-    for (let y = yRange[0]; y <= yRange[1]; y += gridStep) {
-      const cleanY = Math.round(y * 100) / 100;
-      if (cleanY < yRange[0] || cleanY > yRange[1]) continue;
+    // 5. Misconception Cue
+    if (cue && cueVisible) {
+      const cueColor = c('amber', 500);
+
+      // Shade the half of the plane the sign points to, with a big sign on it
+      const drawSignBand = (axis: 'x' | 'y', sign: 1 | -1) => {
+        const [min, max] = axis === 'x' ? xRange : yRange;
+        const edge = sign > 0 ? max : min;
+        const a = axis === 'x' ? toPixel({ x: 0, y: yRange[1] }) : toPixel({ x: xRange[0], y: 0 });
+        const b = axis === 'x' ? toPixel({ x: edge, y: yRange[0] }) : toPixel({ x: xRange[1], y: edge });
+        ctx.fillStyle = alpha(cueColor, 0.15);
+        ctx.fillRect(Math.min(a.x, b.x), Math.min(a.y, b.y), Math.abs(b.x - a.x), Math.abs(b.y - a.y));
+
+        const mid = axis === 'x' ? toPixel({ x: edge / 2, y: 0 }) : toPixel({ x: 0, y: edge / 2 });
+        ctx.fillStyle = cueColor;
+        ctx.font = 'bold 48px sans-serif';
+        ctx.fillText(`${axis} ${sign > 0 ? '+' : '−'}`, mid.x, mid.y);
+      };
+
+      if (cue.signX) drawSignBand('x', cue.signX);
+      if (cue.signY) drawSignBand('y', cue.signY);
+
+      ctx.strokeStyle = cueColor;
+      ctx.lineWidth = 4;
+      ctx.font = `bold 14px ${info.fontFamily}`;
+      ctx.fillStyle = cueColor;
+      if (cue.column !== undefined) {
+        const top = toPixel({ x: cue.column, y: yRange[1] });
+        const bottom = toPixel({ x: cue.column, y: yRange[0] });
+        ctx.beginPath();
+        ctx.moveTo(top.x, top.y);
+        ctx.lineTo(bottom.x, bottom.y);
+        ctx.stroke();
+        ctx.fillText(`x = ${cue.column}`, top.x, top.y - 14);
+      }
+      if (cue.row !== undefined) {
+        const left = toPixel({ x: xRange[0], y: cue.row });
+        const right = toPixel({ x: xRange[1], y: cue.row });
+        ctx.beginPath();
+        ctx.moveTo(left.x, left.y);
+        ctx.lineTo(right.x, right.y);
+        ctx.stroke();
+        ctx.textAlign = 'left';
+        ctx.fillText(`y = ${cue.row}`, right.x + 4, right.y - 10);
+        ctx.textAlign = 'center';
+      }
+    }
 
-      const p1 = toPixel({ x: xRange[0], y: cleanY });
-      const p2 = toPixel({ x: xRange[1], y: cleanY });
+    // 6. Draw Target Marker (only when the student has to read it)
+    if (showTarget && !lastResult?.success && markerImage) {
+      // Fit the sprite's costume into the marker square, centred on the target
+      const p = toPixel(target);
+      const scale = MARKER_SIZE / Math.max(markerImage.width, markerImage.height, 1);
+      const w = markerImage.width * scale;
+      const h = markerImage.height * scale;
+      ctx.drawImage(markerImage, p.x - w / 2, p.y - h / 2, w, h);
+      ctx.beginPath();
+      ctx.arc(p.x, p.y, 4, 0, Math.PI * 2);
+      ctx.fillStyle = c('amber', 500);
+      ctx.fill();
+    } else if (showTarget && !lastResult?.success) {
+      const p = toPixel(target);
+      ctx.beginPath();
+      ctx.arc(p.x, p.y, 9, 0, Math.PI * 2);
+      ctx.fillStyle = c('amber', 500); // Like the Scratch cat
+      ctx.fill();
+      ctx.lineWidth = 3;
+      ctx.strokeStyle = theme.white;
+      ctx.stroke();
+      ctx.font = '22px serif';
+      ctx.fillText("🐱", p.x, p.y - 22);
+    }
+    if (showTarget && !lastResult?.success && marker) {
+      // Sprite name under the marker
+      const p = toPixel(target);
+      ctx.font = `bold 13px ${info.fontFamily}`;
+      ctx.fillStyle = c('slate', 800);
+      ctx.fillText(marker.label, p.x, p.y + MARKER_SIZE / 2 + 10);
+    }
+
+    // 7. Draw Animated Path
+    if (path && path.length > 0) {
+      const done = Math.floor(pathProgress);
+      const pixels = path.map(toPixel);
+
+      // Where the sprite is right now, part way along the current segment
+      let head = pixels[Math.min(done, pixels.length - 1)];
+      if (done < pixels.length - 1) {
+        const from = pixels[done];
+        const to = pixels[done + 1];
+        const t = pathProgress - done;
+        head = { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t };
+      }
 
+      ctx.strokeStyle = SCRATCH_BLUE;
+      ctx.lineWidth = 3;
+      ctx.setLineDash([6, 4]);
       ctx.beginPath();
-      const isAxis = cleanY === 0;
-      const isMajor = majorGridStep ? cleanY % majorGridStep === 0 : false;
-
-      if (isAxis) {
-        ctx.lineWidth = 2.5;
-        ctx.strokeStyle = '#334155';
-      } else if (isMajor) {
-        ctx.lineWidth = 1.5;
-        ctx.strokeStyle = '#94a3b8';
-      } else {
-        ctx.lineWidth = 0.5;
-        ctx.strokeStyle = '#cbd5e1';
+      ctx.moveTo(pixels[0].x, pixels[0].y);
+      for (let i = 1; i <= done && i < pixels.length; i++) {
+        ctx.lineTo(pixels[i].x, pixels[i].y);
+      }
+      ctx.lineTo(head.x, head.y);
+      ctx.stroke();
+      ctx.setLineDash([]);
+
+      // Waypoints already reached
+      ctx.fillStyle = SCRATCH_BLUE;
+      for (let i = 0; i <= done && i < pixels.length; i++) {
+        ctx.beginPath();
+        ctx.arc(pixels[i].x, pixels[i].y, 4, 0, Math.PI * 2);
+        ctx.fill();
       }
 
-      ctx.moveTo(p1.x, p1.y);
-      ctx.lineTo(p2.x, p2.y);
+      ctx.font = '26px serif';
+      ctx.fillText("🐱", head.x, head.y);
+    }
+
+    // Result markers tell hits from misses by shape and line as well as colour:
+    // a filled dot with a tick in a solid ring, or a cross in a dashed ring
+    const drawResultRing = (p: Point, success: boolean, radius: number) => {
+      ctx.strokeStyle = success ? c('green', 600) : c('red', 500);
+      ctx.lineWidth = 2;
+      if (!success) ctx.setLineDash([4, 3]);
+      ctx.beginPath();
+      ctx.arc(p.x, p.y, radius, 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.setLineDash([]);
+    };
+    const drawHitMark = (p: Point) => {
+      ctx.fillStyle = c('green', 500);
+      ctx.beginPath();
+      ctx.arc(p.x, p.y, 6, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.strokeStyle = theme.white;
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.moveTo(p.x - 3, p.y);
+      ctx.lineTo(p.x - 1, p.y + 2.5);
+      ctx.lineTo(p.x + 3.5, p.y - 2.5);
       ctx.stroke();
+      drawResultRing(p, true, 10);
+    };
+    const drawMissMark = (p: Point) => {
+      ctx.strokeStyle = c('red', 500);
+      ctx.lineWidth = 3;
+      ctx.beginPath();
+      const size = 6;
+      ctx.moveTo(p.x - size, p.y - size);
+      ctx.lineTo(p.x + size, p.y + size);
+      ctx.moveTo(p.x + size, p.y - size);
+      ctx.lineTo(p.x - size, p.y + size);
+      ctx.stroke();
+      drawResultRing(p, false, 11);
+    };
 
-       // Labels (skip 0)
-       if (cleanY % labelStep === 0 && cleanY !== 0) {
-        const textPos = toPixel({ x: 0, y: cleanY });
-        let textX = textPos.x - 20;
+    // 8. Draw Shape Being Plotted
+    if (shape) {
+      ctx.strokeStyle = c('indigo', 500);
+      ctx.lineWidth = 3;
+      ctx.beginPath();
+      shape.segments.forEach(([from, to]) => {
+        const a = toPixel(from);
+        const b = toPixel(to);
+        ctx.moveTo(a.x, a.y);
+        ctx.lineTo(b.x, b.y);
+      });
+      ctx.stroke();
 
-        if (config.originPos === 'bottom-left') {
-            textX = 20;
+      // Where the wrong vertices should have gone
+      ctx.setLineDash([4, 3]);
+      ctx.strokeStyle = c('green', 600);
+      ctx.lineWidth = 2;
+      (shape.solution ?? []).forEach(v => {
+        const p = toPixel(v);
+        ctx.beginPath();
+        ctx.arc(p.x, p.y, 10, 0, Math.PI * 2);
+        ctx.stroke();
+      });
+      ctx.setLineDash([]);
+
+      const vertex = (v: LabeledPoint, fill: string) => drawVertex(painter, toPixel(v), v.label, fill, info.fontFamily, theme);
+      shape.given.forEach(v => vertex(v, c('slate', 500)));
+      shape.placed.forEach((v, i) => {
+        const result = shape.results?.[i];
+        vertex(v, result === undefined ? c('indigo', 500) : result ? c('green', 500) : c('red', 500));
+        // Graded vertices get the same solid or dashed ring as the result markers
+        if (result !== undefined) drawResultRing(toPixel(v), result, 11);
+      });
+    }
+
+    // 9. Draw Direction Ring: Scratch's convention, 0 at the top and 90 to the right
+    if (direction) {
+      const center = toPixel({ x: 0, y: 0 });
+      // Point on a circle of `r` logical units, as pixels
+      const onRing = (dir: number, r: number) => {
+        const rad = (dir * Math.PI) / 180;
+        return toPixel({ x: r * Math.sin(rad), y: r * Math.cos(rad) });
+      };
+      const r = direction.radius;
+      const edge = { x: onRing(90, r).x - center.x, y: center.y - onRing(0, r).y };
+
+      ctx.fillStyle = alpha(c('cyan', 500), 0.06);
+      ctx.strokeStyle = c('cyan', 600);
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.ellipse(center.x, center.y, edge.x, edge.y, 0, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.stroke();
+
+      // A tick every 15°, longer ones with a label every 45°
+      ctx.font = `bold 13px ${info.fontFamily}`;
+      for (let dir = -165; dir <= 180; dir += 15) {
+        const major = dir % 45 === 0;
+        const inner = onRing(dir, r * (major ? 0.88 : 0.94));
+        const outer = onRing(dir, r);
+        ctx.lineWidth = major ? 2 : 1;
+        ctx.beginPath();
+        ctx.moveTo(inner.x, inner.y);
+        ctx.lineTo(outer.x, outer.y);
+        ctx.stroke();
+        if (major) {
+          const p = onRing(dir, r * 1.12);
+          ctx.fillStyle = c('cyan', 700);
+          ctx.fillText(dir.toString(), p.x, p.y);
         }
+      }
 
-        ctx.fillStyle = '#64748b';
-        ctx.fillText(cleanY.toString(), textX, textPos.y);
+      const drawArrow = (dir: number, color: string, dashed = false) => {
+        const tip = onRing(dir, r * 0.85);
+        const angle = Math.atan2(tip.y - center.y, tip.x - center.x);
+        ctx.strokeStyle = color;
+        ctx.fillStyle = color;
+        ctx.lineWidth = 4;
+        if (dashed) ctx.setLineDash([8, 5]);
+        ctx.beginPath();
+        ctx.moveTo(center.x, center.y);
+        ctx.lineTo(tip.x, tip.y);
+        ctx.stroke();
+        ctx.setLineDash([]);
+        ctx.beginPath();
+        ctx.moveTo(tip.x, tip.y);
+        ctx.lineTo(tip.x - 14 * Math.cos(angle - 0.4), tip.y - 14 * Math.sin(angle - 0.4));
+        ctx.lineTo(tip.x - 14 * Math.cos(angle + 0.4), tip.y - 14 * Math.sin(angle + 0.4));
+        ctx.fill();
+      };
+
+      if (direction.expected !== null) drawArrow(direction.expected, c('green', 600), true);
+      if (direction.shown !== null) drawArrow(direction.shown, SCRATCH_BLUE);
+      if (direction.answer !== null) drawArrow(direction.answer, c('indigo', 500));
+      else if (direction.aim !== null) drawArrow(direction.aim, alpha(c('violet', 600), 0.5)); // Faded
+
+      // The sprite sits in the middle, like on the Scratch stage
+      ctx.font = '30px serif';
+      ctx.fillText("🐱", center.x, center.y);
+    }
+
+    // 10. Draw Battleship Fleet: each ship as a thick bar through its points, then the shots on top
+    if (fleet) {
+      const drawShip = (cells: Point[], color: string, dashed = false) => {
+        const pixels = cells.map(c => toPixel(c));
+        ctx.strokeStyle = color;
+        ctx.lineWidth = 14;
+        ctx.lineCap = 'round';
+        if (dashed) ctx.setLineDash([6, 6]);
+        ctx.beginPath();
+        ctx.moveTo(pixels[0].x, pixels[0].y);
+        pixels.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+        // A one-point segment still gets its round caps
+        if (pixels.length === 1) ctx.lineTo(pixels[0].x + 0.01, pixels[0].y);
+        ctx.stroke();
+        ctx.setLineDash([]);
+        ctx.lineCap = 'butt';
+      };
+
+      fleet.ships.forEach(cells => drawShip(cells, alpha(c('slate', 600), 0.6)));
+      if (fleet.preview) {
+        const { cells, valid } = fleet.preview;
+        drawShip(cells, valid ? alpha(c('indigo', 500), 0.5) : alpha(c('red', 500), 0.4), !valid);
       }
+      fleet.misses.forEach(p => drawMissMark(toPixel(p)));
+      fleet.hits.forEach(p => drawHitMark(toPixel(p)));
     }
 
-    // Origin Label (0,0)
-    const originPx = toPixel({x:0, y:0});
-    ctx.fillStyle = '#334155';
-    ctx.font = 'bold 12px sans-serif';
-    if (config.originPos === 'bottom-left') {
-        ctx.fillText("0", 15, dimensions.height - 15);
-    } else {
-        ctx.fillText("0", originPx.x - 10, originPx.y + 15);
+    // 11. Draw Keyboard Cursor / Touch Aim
+    const drawCrosshair = (p: Point, color: string) => {
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.arc(p.x, p.y, 10, 0, Math.PI * 2);
+      ctx.moveTo(p.x - 16, p.y);
+      ctx.lineTo(p.x - 4, p.y);
+      ctx.moveTo(p.x + 4, p.y);
+      ctx.lineTo(p.x + 16, p.y);
+      ctx.moveTo(p.x, p.y - 16);
+      ctx.lineTo(p.x, p.y - 4);
+      ctx.moveTo(p.x, p.y + 4);
+      ctx.lineTo(p.x, p.y + 16);
+      ctx.stroke();
+    };
+
+    if (keyCursor) {
+      drawCrosshair(toPixel(keyCursor), c('violet', 600));
+    }
+    if (touchAim) {
+      // Snap the drawn crosshair to the point that will actually be submitted
+      drawCrosshair(toPixel(toLogical(touchAim)), c('violet', 600));
     }
 
-    // 3. Draw Axis Arrows
-    // X Arrow
-    const xEnd = toPixel({ x: xRange[1], y: 0 });
-    ctx.beginPath();
-    ctx.moveTo(xEnd.x, xEnd.y);
-    ctx.lineTo(xEnd.x - 8, xEnd.y - 4);
-    ctx.lineTo(xEnd.x - 8, xEnd.y + 4);
-    ctx.fillStyle = '#334155';
-    ctx.fill();
-    ctx.fillText("X", xEnd.x - 15, xEnd.y - 15);
-
-    // Y Arrow
-    const yEnd = toPixel({ x: 0, y: yRange[1] });
-    ctx.beginPath();
-    ctx.moveTo(yEnd.x, yEnd.y);
-    ctx.lineTo(yEnd.x - 4, yEnd.y + 8);
-    ctx.lineTo(yEnd.x + 4, yEnd.y + 8);
-    ctx.fill();
-    ctx.fillText("Y", yEnd.x + 15, yEnd.y + 15);
-
-
-    // 4. Draw Last Result Marker
+    // 12. Draw Last Result Marker
     if (lastResult) {
       const p = toPixel(lastResult.clickPos);
       
       if (lastResult.success) {
-        ctx.font = '40px serif';
-        ctx.fillText("⭐", p.x, p.y);
+        // Star rating in a small arc over the point: earned stars filled, the rest as outlines
+        const stars = lastResult.stars ?? 1;
+        drawHitMark(p);
+        ctx.font = '28px serif';
+        for (let i = 0; i < 3; i++) {
+          const offset = i - 1;
+          const sx = p.x + offset * 30;
+          const sy = p.y - 28 + Math.abs(offset) * 8;
+          if (i < stars) {
+            ctx.fillText("⭐", sx, sy);
+          } else {
+            ctx.fillStyle = c('slate', 300);
+            ctx.fillText("☆", sx, sy);
+          }
+        }
       } else {
-        // Draw X
-        ctx.strokeStyle = '#ef4444';
-        ctx.lineWidth = 3;
-        ctx.beginPath();
-        const size = 8;
-        ctx.moveTo(p.x - size, p.y - size);
-        ctx.lineTo(p.x + size, p.y + size);
-        ctx.moveTo(p.x + size, p.y - size);
-        ctx.lineTo(p.x - size, p.y + size);
-        ctx.stroke();
+        drawMissMark(p);
       }
     }
 
-  }, [config, dimensions, lastResult, toPixel]);
+    ctx.restore();
+
+    // 13. Magnifier loupe under the finger, copied from the finished frame
+    const loupe = loupeRef.current;
+    const loupeCtx = loupe?.getContext('2d');
+    if (touchAim && loupe && loupeCtx) {
+      const size = LOUPE_SIZE * dpr;
+      const source = (LOUPE_SIZE / LOUPE_ZOOM) * dpr;
+      loupe.width = size;
+      loupe.height = size;
+      loupeCtx.drawImage(
+        canvas,
+        touchAim.x * dpr - source / 2,
+        touchAim.y * dpr - source / 2,
+        source,
+        source,
+        0,
+        0,
+        size,
+        size
+      );
+    }
+
+  }, [config, dimensions, view, target, showTarget, marker, markerImage, lastResult, path, pathProgress, shape, direction, fleet, misses, missOverlay, cue, cueVisible, keyCursor, touchAim, info, theme, toPixel, toLogical]);
 
   // Event Handlers
-  const handleMouseMove = (e: React.MouseEvent) => {
-    if (!canvasRef.current) return;
+  // Mouse, pen and touch all arrive as pointer events and end up as the same logical Point
+  const toCanvasPx = (e: React.PointerEvent): Point | null => {
+    if (!canvasRef.current) return null;
     const rect = canvasRef.current.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
-    
-    // Convert to Logical
-    const logical = toLogical({ x, y });
-    onHover(logical);
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
   };
 
-  const handleClick = (e: React.MouseEvent) => {
-    if (!canvasRef.current) return;
-    const rect = canvasRef.current.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
-    
-    const logical = toLogical({ x, y });
+  const isInside = (p: Point) =>
+    p.x >= 0 && p.y >= 0 && p.x <= dimensions.width && p.y <= dimensions.height;
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    const px = toCanvasPx(e);
+    if (!px) return;
+    pointersRef.current.set(e.pointerId, px);
+
+    // A second finger turns aiming into pinch-zooming
+    if (e.pointerType === 'touch' && pointersRef.current.size === 2) {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      setTouchAim(null);
+      pinchRef.current = pinchOf(pointersRef.current);
+      return;
+    }
+
+    if (!e.isPrimary) return;
+    setKeyCursor(null);
+
+    // Touch aims with press-drag-release; the loupe shows what's under the finger
+    if (e.pointerType === 'touch') {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      setTouchAim(px);
+      onHover(toLogical(px));
+    } else if (e.button === 0) {
+      dragRef.current = { start: px, last: px, moved: false };
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const px = toCanvasPx(e);
+    if (!px) return;
+    if (pointersRef.current.has(e.pointerId)) pointersRef.current.set(e.pointerId, px);
+
+    // Pinch: the spread zooms, moving both fingers pans
+    const pinch = pinchRef.current;
+    if (pinch && pointersRef.current.size === 2) {
+      const next = pinchOf(pointersRef.current);
+      pinchRef.current = next;
+      setView(v => zoomViewAt(config, dimensions, panView(config, dimensions, v, next.mid.x - pinch.mid.x, next.mid.y - pinch.mid.y), next.distance / pinch.distance, next.mid));
+      return;
+    }
+
+    if (!e.isPrimary) return;
+
+    // Mouse and pen drag the grid around once zoomed in
+    const drag = dragRef.current;
+    if (drag && view.zoom > 1) {
+      if (!drag.moved && Math.hypot(px.x - drag.start.x, px.y - drag.start.y) > DRAG_THRESHOLD) {
+        drag.moved = true;
+        e.currentTarget.setPointerCapture(e.pointerId);
+      }
+      if (drag.moved) {
+        const dx = px.x - drag.last.x;
+        const dy = px.y - drag.last.y;
+        drag.last = px;
+        setView(v => panView(config, dimensions, v, dx, dy));
+        return;
+      }
+    }
+
+    if (e.pointerType === 'touch') {
+      // Touch has no hover; only track while the finger is down
+      if (!touchAim) return;
+      setTouchAim(px);
+    }
+    onHover(toLogical(px));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    pointersRef.current.delete(e.pointerId);
+    // Fingers lifting after a pinch never answer
+    if (pinchRef.current) {
+      if (pointersRef.current.size === 0) pinchRef.current = null;
+      return;
+    }
+
+    if (!e.isPrimary) return;
+    const px = toCanvasPx(e);
+    if (!px) return;
+
+    // A drag pans, it doesn't answer
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (drag?.moved) return;
+
+    if (e.pointerType === 'touch') {
+      if (!touchAim) return;
+      setTouchAim(null);
+      // Dragging off the canvas is the way to back out of a touch
+      if (!isInside(px)) return;
+    } else if (e.button !== 0) {
+      return;
+    }
+
     // IMPORTANT: For checking correctness, we pass the EXACT logical point (even decimals)
     // The visualizer might round it for display, but calculations are precise
-    onClick(logical);
+    onClick(toLogical(px));
+  };
+
+  const handlePointerCancel = (e: React.PointerEvent) => {
+    pointersRef.current.delete(e.pointerId);
+    if (pointersRef.current.size === 0) pinchRef.current = null;
+    dragRef.current = null;
+    setTouchAim(null);
   };
 
+  // Keyboard cursor: arrows move along the drawn grid lines, Shift+arrows by majorGridStep, Enter/Space submits
+  const clampToRange = (p: Point): Point => ({
+    x: Math.min(config.xRange[1], Math.max(config.xRange[0], p.x)),
+    y: Math.min(config.yRange[1], Math.max(config.yRange[0], p.y))
+  });
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Keys pressed on the zoom buttons are theirs
+    if (e.target !== e.currentTarget) return;
+    const moves: Record<string, Point> = {
+      ArrowLeft: { x: -1, y: 0 },
+      ArrowRight: { x: 1, y: 0 },
+      ArrowUp: { x: 0, y: 1 },
+      ArrowDown: { x: 0, y: -1 }
+    };
+    // Start from the origin (or the nearest edge when the range doesn't include it)
+    const current = keyCursor ?? clampToRange({ x: 0, y: 0 });
+
+    if (moves[e.key]) {
+      e.preventDefault();
+      const step = e.shiftKey ? (config.majorGridStep ?? config.labelStep) : gridStepAt(config, dimensions, view);
+      const next = clampToRange({
+        x: current.x + moves[e.key].x * step,
+        y: current.y + moves[e.key].y * step
+      });
+      setKeyCursor(next);
+      onHover(next);
+      // Keep the cursor on screen when zoomed in
+      const visible = visibleRanges(config, view);
+      if (next.x < visible.xRange[0] || next.x > visible.xRange[1] || next.y < visible.yRange[0] || next.y > visible.yRange[1]) {
+        setView(clampView(config, { zoom: view.zoom, center: next }));
+      }
+    } else if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault();
+      if (!keyCursor) {
+        // First press just shows the cursor so nothing is submitted by accident
+        setKeyCursor(current);
+        onHover(current);
+        return;
+      }
+      onClick(keyCursor);
+    } else if (e.key === '+' || e.key === '=') {
+      zoomBy(ZOOM_STEP);
+    } else if (e.key === '-') {
+      zoomBy(1 / ZOOM_STEP);
+    } else if (e.key === '0') {
+      setView(fullView(config));
+    } else if (e.key === 'Escape') {
+      setKeyCursor(null);
+    } else if (onUndo && (e.key === 'Backspace' || ((e.ctrlKey || e.metaKey) && e.key === 'z'))) {
+      e.preventDefault();
+      onUndo();
+    }
+  };
+
+  // Keep the loupe above the finger, flipping below it near the top edge
+  const loupeStyle: React.CSSProperties | undefined = touchAim
+    ? {
+        width: LOUPE_SIZE,
+        height: LOUPE_SIZE,
+        left: Math.min(Math.max(touchAim.x - LOUPE_SIZE / 2, 0), dimensions.width - LOUPE_SIZE),
+        top: touchAim.y - LOUPE_SIZE - 40 >= 0 ? touchAim.y - LOUPE_SIZE - 40 : touchAim.y + 40
+      }
+    : undefined;
+
   return (
-    <div ref={containerRef} className="w-full relative shadow-inner rounded-xl overflow-hidden border-2 border-slate-200 bg-white cursor-crosshair touch-none">
+    <div
+      ref={containerRef}
+      tabIndex={0}
+      role="application"
+      aria-label={t('canvas.ariaLabel')}
+      onKeyDown={handleKeyDown}
+      onBlur={() => setKeyCursor(null)}
+      className="w-full relative shadow-inner rounded-xl overflow-hidden border-2 border-slate-200 bg-white cursor-crosshair touch-none focus:outline-none focus-visible:ring-4 focus-visible:ring-violet-300"
+    >
       <canvas
         ref={canvasRef}
-        onMouseMove={handleMouseMove}
-        onClick={handleClick}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerCancel}
         className="block"
       />
+      {/* Zoom Controls */}
+      <div className="absolute top-2 right-2 flex gap-1">
+        {([
+          ['+', 'canvas.zoomIn', () => zoomBy(ZOOM_STEP), view.zoom >= MAX_ZOOM],
+          ['−', 'canvas.zoomOut', () => zoomBy(1 / ZOOM_STEP), view.zoom <= 1],
+          ['⤢', 'canvas.zoomReset', () => setView(fullView(config)), view.zoom <= 1]
+        ] as const).map(([label, key, action, disabled]) => (
+          <button
+            key={key}
+            onClick={action}
+            disabled={disabled}
+            title={t(key)}
+            aria-label={t(key)}
+            className="w-8 h-8 rounded-lg bg-white/90 border-2 border-slate-200 text-slate-500 font-bold hover:bg-slate-50 disabled:opacity-40"
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <div className="sr-only" role="status" aria-live="polite">{announcement}</div>
+      {touchAim && (
+        <canvas
+          ref={loupeRef}
+          style={loupeStyle}
+          className="absolute pointer-events-none rounded-full border-4 border-white shadow-lg"
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { Point } from '../types';
+import { useI18n } from '../i18n/I18nContext';
+
+interface CoordinateInputProps {
+  themeColor: string;
+  disabled?: boolean;
+  onSubmit: (pos: Point) => void;
+}
+
+// Accepts plain numbers plus the unicode minus sign kids sometimes paste in
+export const parseCoord = (raw: string): number | null => {
+  const cleaned = raw.trim().replace('−', '-');
+  if (cleaned === '' || cleaned === '-') return null;
+  const value = Number(cleaned);
+  return Number.isFinite(value) ? value : null;
+};
+
+const CoordinateInput: React.FC<CoordinateInputProps> = ({
+  themeColor,
+  disabled = false,
+  onSubmit
+}) => {
+  const { t } = useI18n();
+  const [xText, setXText] = useState('');
+  const [yText, setYText] = useState('');
+
+  const x = parseCoord(xText);
+  const y = parseCoord(yText);
+  const canSubmit = !disabled && x !== null && y !== null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+    onSubmit({ x: x as number, y: y as number });
+  };
+
+  const inputClasses = `w-20 text-center text-2xl font-black rounded-lg border-2 border-slate-200 py-1 focus:outline-none focus:border-${themeColor}-500`;
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col items-center gap-3">
+      <div className={`flex items-center gap-1 text-4xl font-black text-${themeColor}-600 fun-font`}>
+        <span>(</span>
+        <input
+          type="text"
+          aria-label="x"
+          placeholder="x"
+          value={xText}
+          onChange={e => setXText(e.target.value)}
+          disabled={disabled}
+          className={inputClasses}
+          autoFocus
+        />
+        <span>,</span>
+        <input
+          type="text"
+          aria-label="y"
+          placeholder="y"
+          value={yText}
+          onChange={e => setYText(e.target.value)}
+          disabled={disabled}
+          className={inputClasses}
+        />
+        <span>)</span>
+      </div>
+      <button
+        type="submit"
+        disabled={!canSubmit}
+        className={`px-6 py-1.5 rounded-lg font-bold text-white bg-${themeColor}-500 hover:bg-${themeColor}-600 disabled:bg-slate-300 disabled:cursor-not-allowed transition-colors`}
+      >
+        {t('input.submit')}
+      </button>
+    </form>
+  );
+};
+
+export default CoordinateInput;
@@ -0,0 +1,51 @@
+import React, { useState } from 'react';
+import { useI18n } from '../i18n/I18nContext';
+import { parseCoord } from './CoordinateInput';
+
+interface DirectionInputProps {
+  themeColor: string;
+  disabled?: boolean;
+  onSubmit: (direction: number) => void;
+}
+
+// A `point in direction ( )` block with the number left blank for the student to fill in
+const DirectionInput: React.FC<DirectionInputProps> = ({ themeColor, disabled = false, onSubmit }) => {
+  const { t } = useI18n();
+  const [raw, setRaw] = useState('');
+
+  const direction = parseCoord(raw);
+  const canSubmit = !disabled && direction !== null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+    onSubmit(direction as number);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col items-center gap-3">
+      <div className="flex items-center gap-2 px-3 py-2 rounded-md bg-[#4C97FF] text-white font-bold font-mono text-sm border border-[#3373CC] select-none">
+        <span>{t('direction.block')}</span>
+        <input
+          type="text"
+          inputMode="numeric"
+          aria-label={t('direction.inputLabel')}
+          value={raw}
+          onChange={e => setRaw(e.target.value)}
+          disabled={disabled}
+          className="w-16 text-center text-lg font-black text-slate-700 rounded-full border-2 border-white py-0.5 focus:outline-none"
+          autoFocus
+        />
+      </div>
+      <button
+        type="submit"
+        disabled={!canSubmit}
+        className={`px-6 py-1.5 rounded-lg font-bold text-white bg-${themeColor}-500 hover:bg-${themeColor}-600 disabled:bg-slate-300 disabled:cursor-not-allowed transition-colors`}
+      >
+        {t('input.submit')}
+      </button>
+    </form>
+  );
+};
+
+export default DirectionInput;
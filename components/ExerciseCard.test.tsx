@@ -0,0 +1,45 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { describe, expect, it } from 'vitest';
+import { DifficultyLevel, QuestionType } from '../types';
+import { GAME_MODES } from '../constants';
+import { createTranslator } from '../i18n';
+import { I18nProvider, createI18nValue } from '../i18n/I18nContext';
+import { createGameEngine } from '../engine';
+import { seededRandom } from '../utils/random';
+import ExerciseCard from './ExerciseCard';
+import { exerciseCardOf } from './exerciseCards';
+
+const t = createTranslator('en');
+
+// A first round of every question type a built-in level asks
+const rounds = Object.values(GAME_MODES).flatMap(level => level.questionTypes.map(type => {
+  const config = { ...level, questionTypes: [type] };
+  return { type, config, round: createGameEngine({ config, random: seededRandom(3) }).getState().round };
+}));
+
+describe('ExerciseCard', () => {
+  it('has a card for every question type', () => {
+    expect(new Set(rounds.map(r => r.type))).toEqual(new Set(Object.values(QuestionType)));
+  });
+
+  it.each(rounds.map(r => [`${r.config.id} ${r.type}`, r] as const))('shows and reads out %s', (_name, { config, round }) => {
+    const html = renderToStaticMarkup(
+      <I18nProvider value={createI18nValue('en', () => {})}>
+        <ExerciseCard round={round} config={config} solved={false} onSubmit={() => {}} onUndo={() => {}} />
+      </I18nProvider>
+    );
+    expect(html).not.toBe('');
+    const spoken = exerciseCardOf(round.type).spoken(round, t);
+    expect(spoken).not.toMatch(/-\d|\{/); // Signs said as words, every parameter filled in
+  });
+
+  it('shows a find-point target as written and reads its signs out', () => {
+    const hell = GAME_MODES[DifficultyLevel.Hell];
+    const found = rounds.find(r => r.type === QuestionType.FindPoint && r.config.id === hell.id)!;
+    const round = { ...found.round, target: { x: -30, y: 20 } };
+    expect(exerciseCardOf(round.type).spoken(round, t)).toBe('Find the point x minus 30, y 20');
+    expect(renderToStaticMarkup(<ExerciseCard round={round} config={hell} solved={false} onSubmit={() => {}} onUndo={() => {}} />))
+      .toContain('(-30, 20)');
+  });
+});
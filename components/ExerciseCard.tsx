@@ -0,0 +1,11 @@
+import React from 'react';
+import { CardProps, exerciseCardOf } from './exerciseCards';
+import './builtinCards'; // Registers the built-in question types' cards
+
+// The target card's question for whatever type of round is up
+const ExerciseCard: React.FC<CardProps> = props => {
+  const { Card } = exerciseCardOf(props.round.type);
+  return <Card {...props} />;
+};
+
+export default ExerciseCard;
@@ -0,0 +1,166 @@
+import React, { useMemo, useState } from 'react';
+import { AttemptRecord, GameConfig } from '../types';
+import { MessageKey } from '../i18n';
+import {
+  AccuracyStat,
+  REGIONS,
+  Region,
+  accuracy,
+  accuracyByDay,
+  accuracyByMode,
+  accuracyByRegion,
+  dayKey
+} from '../utils/attemptHistory';
+import { useI18n } from '../i18n/I18nContext';
+
+interface HistoryPanelProps {
+  attempts: AttemptRecord[];
+  levels: Record<string, GameConfig>;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const REGION_LABELS: Record<Region, MessageKey> = {
+  I: 'region.I',
+  II: 'region.II',
+  III: 'region.III',
+  IV: 'region.IV',
+  axis: 'region.axis'
+};
+
+// How many of the most recent practice days the trend table shows
+const TREND_DAYS = 7;
+
+const percent = (stat?: AccuracyStat) => (stat && stat.attempts > 0 ? `${Math.round(accuracy(stat) * 100)}%` : '–');
+
+// Red → amber → green so weak spots stand out at a glance
+const cellColor = (stat?: AccuracyStat) => {
+  if (!stat || stat.attempts === 0) return 'bg-slate-50 text-slate-300';
+  const acc = accuracy(stat);
+  if (acc >= 0.8) return 'bg-green-100 text-green-700';
+  if (acc >= 0.5) return 'bg-amber-100 text-amber-700';
+  return 'bg-rose-100 text-rose-700';
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ attempts, levels, onClear, onClose }) => {
+  const { t, text } = useI18n();
+  const [modeFilter, setModeFilter] = useState<string>('all');
+
+  const filtered = useMemo(
+    () => (modeFilter === 'all' ? attempts : attempts.filter(a => a.mode === modeFilter)),
+    [attempts, modeFilter]
+  );
+
+  const byMode = useMemo(() => accuracyByMode(attempts), [attempts]);
+  const byRegion = useMemo(() => accuracyByRegion(filtered), [filtered]);
+
+  // Day × region grid for the last few days that had any practice
+  const trend = useMemo(() => {
+    const byDay = accuracyByDay(filtered);
+    const days = Object.keys(byDay).sort().slice(-TREND_DAYS).reverse();
+    return days.map(day => ({
+      day,
+      total: byDay[day],
+      regions: accuracyByRegion(filtered.filter(a => dayKey(a.timestamp) === day))
+    }));
+  }, [filtered]);
+
+  const avgTime = (mode: string) => {
+    const list = attempts.filter(a => a.mode === mode);
+    if (list.length === 0) return '–';
+    return `${(list.reduce((sum, a) => sum + a.timeMs, 0) / list.length / 1000).toFixed(1)}s`;
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 flex items-center justify-center p-4 z-50" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-xl w-full max-w-3xl max-h-full overflow-y-auto p-6"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl text-slate-800 fun-font">{t('history.title')}</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 text-2xl leading-none">×</button>
+        </div>
+
+        {attempts.length === 0 && <div className="text-sm text-slate-400">{t('history.empty')}</div>}
+
+        {/* Per Mode */}
+        <h3 className="mb-2 text-sm font-bold text-slate-400">{t('history.byMode')}</h3>
+        <table className="w-full text-sm mb-6">
+          <thead>
+            <tr className="text-left text-slate-400 text-xs">
+              <th className="py-1">{t('history.mode')}</th>
+              <th>{t('history.attempts')}</th>
+              <th>{t('history.accuracy')}</th>
+              <th>{t('history.avgTime')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {Object.keys(byMode).map(mode => (
+              <tr key={mode} className="border-t border-slate-100">
+                <td className="py-1 font-bold text-slate-700">{levels[mode] ? text(levels[mode].name) : mode}</td>
+                <td className="font-mono">{byMode[mode].attempts}</td>
+                <td className={`font-mono font-bold ${cellColor(byMode[mode])} rounded px-1`}>{percent(byMode[mode])}</td>
+                <td className="font-mono">{avgTime(mode)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {/* Per Quadrant, Over Time */}
+        <div className="flex justify-between items-center mb-2">
+          <h3 className="text-sm font-bold text-slate-400">{t('history.byRegion')}</h3>
+          <select
+            value={modeFilter}
+            onChange={e => setModeFilter(e.target.value)}
+            className="rounded-md border-2 border-slate-200 px-2 py-0.5 text-sm text-slate-600"
+          >
+            <option value="all">{t('history.allModes')}</option>
+            {Object.keys(byMode).map(mode => (
+              <option key={mode} value={mode}>{levels[mode] ? text(levels[mode].name) : mode}</option>
+            ))}
+          </select>
+        </div>
+        <table className="w-full text-sm text-center">
+          <thead>
+            <tr className="text-slate-400 text-xs">
+              <th className="py-1 text-left">{t('history.date')}</th>
+              {REGIONS.map(r => <th key={r}>{t(REGION_LABELS[r])}</th>)}
+              <th>{t('history.total')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            <tr className="border-t border-slate-100 font-bold">
+              <td className="py-1 text-left text-slate-700">{t('history.all')}</td>
+              {REGIONS.map(r => (
+                <td key={r} className={`font-mono ${cellColor(byRegion[r])}`}>{percent(byRegion[r])}</td>
+              ))}
+              <td className="font-mono">{filtered.length}</td>
+            </tr>
+            {trend.map(({ day, total, regions }) => (
+              <tr key={day} className="border-t border-slate-100">
+                <td className="py-1 text-left font-mono text-slate-500">{day}</td>
+                {REGIONS.map(r => (
+                  <td key={r} className={`font-mono ${cellColor(regions[r])}`}>{percent(regions[r])}</td>
+                ))}
+                <td className={`font-mono ${cellColor(total)}`}>{percent(total)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="mt-6 flex justify-end">
+          <button
+            disabled={attempts.length === 0}
+            onClick={() => window.confirm(t('history.clearConfirm')) && onClear()}
+            className="px-4 py-1.5 rounded-lg font-bold border-2 border-rose-200 text-rose-500 hover:bg-rose-50 disabled:opacity-50"
+          >
+            {t('history.clear')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,26 @@
+import React from 'react';
+import { Locale } from '../types';
+import { LOCALES } from '../i18n';
+import { useI18n } from '../i18n/I18nContext';
+
+const LanguageSwitcher: React.FC = () => {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <label className="flex items-center gap-1 text-sm text-slate-500">
+      <span aria-hidden>🌐</span>
+      <span className="sr-only">{t('app.language')}</span>
+      <select
+        value={locale}
+        onChange={e => setLocale(e.target.value as Locale)}
+        className="rounded-full border border-slate-200 bg-white px-2 py-1 text-sm font-bold text-slate-600 shadow-sm"
+      >
+        {(Object.keys(LOCALES) as Locale[]).map(l => (
+          <option key={l} value={l}>{LOCALES[l].label}</option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default LanguageSwitcher;
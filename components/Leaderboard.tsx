@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { LeaderboardEntry, SessionType } from '../types';
+import { useI18n } from '../i18n/I18nContext';
+import { LEADERBOARD_SIZE, entryAccuracy, formatDuration, rankEntries } from '../utils/sessions';
+import { SESSION_LABELS } from './SessionBar';
+
+interface LeaderboardProps {
+  entries: LeaderboardEntry[]; // Everything recorded for this level
+  levelName: string;
+  sessionType: SessionType; // Tab to open on
+  latest?: LeaderboardEntry | null; // The run that just finished, summarised and highlighted
+  onClose: () => void;
+}
+
+const RACE_TYPES = [SessionType.Timed, SessionType.FirstTo, SessionType.SuddenDeath];
+
+const isSameRun = (a: LeaderboardEntry, b?: LeaderboardEntry | null) =>
+  !!b && a.profileId === b.profileId && a.timestamp === b.timestamp;
+
+const percent = (entry: LeaderboardEntry) => `${Math.round(entryAccuracy(entry) * 100)}%`;
+
+const Leaderboard: React.FC<LeaderboardProps> = ({ entries, levelName, sessionType, latest, onClose }) => {
+  const { t, info } = useI18n();
+  const [tab, setTab] = useState(RACE_TYPES.includes(sessionType) ? sessionType : SessionType.Timed);
+
+  const ranked = rankEntries(entries, tab);
+  const latestRank = ranked.findIndex(e => isSameRun(e, latest)) + 1;
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 flex items-center justify-center p-4 z-50" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-xl w-full max-w-2xl max-h-full overflow-y-auto p-6"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl text-slate-800 fun-font">{t('leaderboard.title')} · {levelName}</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 text-2xl leading-none">×</button>
+        </div>
+
+        {/* Result Of The Run That Just Ended */}
+        {latest && (
+          <div className="mb-4 rounded-xl bg-amber-50 px-4 py-3 text-sm text-amber-800">
+            <div>
+              {t('leaderboard.result', {
+                hits: latest.hits,
+                accuracy: percent(latest),
+                time: formatDuration(latest.timeMs),
+                streak: latest.bestStreak
+              })}
+            </div>
+            <div className="mt-1 font-bold">
+              {latestRank > 0
+                ? t('leaderboard.placed', { rank: latestRank })
+                : t('leaderboard.unplaced', { size: LEADERBOARD_SIZE })}
+            </div>
+          </div>
+        )}
+
+        <div className="flex gap-2 mb-3">
+          {RACE_TYPES.map(type => (
+            <button
+              key={type}
+              onClick={() => setTab(type)}
+              className={`px-3 py-1 rounded-md text-sm font-bold border ${type === tab ? 'bg-slate-700 border-slate-700 text-white' : 'bg-white border-slate-200 text-slate-500 hover:bg-slate-50'}`}
+            >
+              {t(SESSION_LABELS[type])}
+            </button>
+          ))}
+        </div>
+
+        {ranked.length === 0 ? (
+          <div className="text-sm text-slate-400">{t('leaderboard.empty')}</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-slate-400 text-xs">
+                <th className="py-1">{t('leaderboard.rank')}</th>
+                <th>{t('leaderboard.student')}</th>
+                <th>{t('leaderboard.hits')}</th>
+                <th>{t('leaderboard.time')}</th>
+                <th>{t('leaderboard.accuracy')}</th>
+                <th>{t('leaderboard.bestStreak')}</th>
+                <th>{t('leaderboard.date')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {ranked.map((entry, i) => (
+                <tr
+                  key={`${entry.profileId}-${entry.timestamp}`}
+                  className={`border-t border-slate-100 ${isSameRun(entry, latest) ? 'bg-amber-100 font-bold' : ''}`}
+                >
+                  <td className="py-1 font-mono text-slate-500">{i < 3 ? ['🥇', '🥈', '🥉'][i] : i + 1}</td>
+                  <td className="text-slate-700">{entry.avatar} {entry.name}</td>
+                  <td className="font-mono">{entry.hits}</td>
+                  <td className="font-mono">{formatDuration(entry.timeMs)}</td>
+                  <td className="font-mono">{percent(entry)}</td>
+                  <td className="font-mono">{entry.bestStreak}</td>
+                  <td className="font-mono text-slate-400">{new Date(entry.timestamp).toLocaleDateString(info.htmlLang)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Leaderboard;
@@ -0,0 +1,342 @@
+import React, { useRef, useState } from 'react';
+import { GameConfig, QuestionType, TargetPolicy, UnlockCondition } from '../types';
+import { UNLOCK_THRESHOLD } from '../constants';
+import { MessageKey, MessageParams } from '../i18n';
+import { useI18n } from '../i18n/I18nContext';
+import {
+  LevelError,
+  THEME_COLORS,
+  buildShareUrl,
+  createCustomLevel,
+  exportLevelsJson,
+  importLevelsJson,
+  validateLevel
+} from '../utils/customLevels';
+import { ACCURACY_WINDOW } from '../utils/unlocks';
+
+interface LevelEditorProps {
+  levels: GameConfig[]; // Saved custom levels
+  allLevels: Record<string, GameConfig>; // Built-in and custom, to pick which one opens this level
+  canvasWidth: number;
+  onSave: (level: GameConfig) => void;
+  onDelete: (id: string) => void;
+  onImport: (levels: GameConfig[]) => void;
+  onPlay: (id: string) => void;
+  onClose: () => void;
+}
+
+const QUESTION_TYPE_LABELS: Record<QuestionType, MessageKey> = {
+  [QuestionType.FindPoint]: 'editor.typeFindPoint',
+  [QuestionType.NamePoint]: 'editor.typeNamePoint',
+  [QuestionType.PredictScript]: 'editor.typePredictScript',
+  [QuestionType.PlotShape]: 'editor.typePlotShape',
+  [QuestionType.PointDirection]: 'editor.typePointDirection',
+  [QuestionType.ReadDirection]: 'editor.typeReadDirection',
+  [QuestionType.Transform]: 'editor.typeTransform'
+};
+
+// The editor offers one level to unlock after, with any mix of these measured in it
+interface UnlockFields {
+  after: string; // Level id, '' when the level is open from the start
+  hits?: number;
+  accuracy?: number; // Percent
+  precision?: number; // Percent
+  streak?: number;
+}
+
+const findCondition = <K extends UnlockCondition['kind']>(conditions: UnlockCondition[], kind: K) =>
+  conditions.find((c): c is Extract<UnlockCondition, { kind: K }> => c.kind === kind);
+
+const unlockFields = (conditions: UnlockCondition[] = []): UnlockFields => {
+  const accuracy = findCondition(conditions, 'accuracy');
+  const precision = findCondition(conditions, 'precision');
+  return {
+    after: conditions[0]?.level ?? '',
+    hits: findCondition(conditions, 'hits')?.count,
+    accuracy: accuracy && Math.round(accuracy.min * 100),
+    precision: precision && Math.round(precision.min * 100),
+    streak: findCondition(conditions, 'streak')?.count
+  };
+};
+
+// Blank fields are left out; nothing left means open from the start
+const unlockConditions = ({ after, hits, accuracy, precision, streak }: UnlockFields): UnlockCondition[] | undefined => {
+  if (!after) return undefined;
+  const given = (v?: number): v is number => v !== undefined && !Number.isNaN(v);
+  const conditions: UnlockCondition[] = [];
+  if (given(hits)) conditions.push({ kind: 'hits', level: after, count: hits });
+  if (given(accuracy)) conditions.push({ kind: 'accuracy', level: after, min: accuracy / 100, over: ACCURACY_WINDOW });
+  if (given(precision)) conditions.push({ kind: 'precision', level: after, min: precision / 100 });
+  if (given(streak)) conditions.push({ kind: 'streak', level: after, count: streak });
+  return conditions.length > 0 ? conditions : undefined;
+};
+
+const downloadJson = (filename: string, text: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type: 'application/json' }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+const LevelEditor: React.FC<LevelEditorProps> = ({
+  levels,
+  allLevels,
+  canvasWidth,
+  onSave,
+  onDelete,
+  onImport,
+  onPlay,
+  onClose
+}) => {
+  const { t, tm, text } = useI18n();
+  const newLevel = () => createCustomLevel(t('editor.defaultName'), t('editor.defaultDescription'), Object.keys(allLevels));
+  const [draft, setDraft] = useState<GameConfig>(newLevel);
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const errors = validateLevel(draft, canvasWidth);
+
+  const update = (patch: Partial<GameConfig>) => setDraft(d => ({ ...d, ...patch }));
+
+  const unlock = unlockFields(draft.unlock);
+  const updateUnlock = (patch: Partial<UnlockFields>) => update({ unlock: unlockConditions({ ...unlock, ...patch }) });
+
+  const toggleQuestionType = (type: QuestionType) => {
+    const types = draft.questionTypes.includes(type)
+      ? draft.questionTypes.filter(t => t !== type)
+      : [...draft.questionTypes, type];
+    update({ questionTypes: types });
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-importing the same file
+    if (!file) return;
+    try {
+      onImport(importLevelsJson(await file.text(), Object.keys(allLevels)));
+      setImportError(null);
+    } catch (err) {
+      setImportError(err instanceof LevelError ? err.messages.map(tm).join(' / ') : String(err));
+    }
+  };
+
+  const handleShare = async (level: GameConfig) => {
+    const url = buildShareUrl(level);
+    setShareUrl(url);
+    try {
+      await navigator.clipboard.writeText(url);
+    } catch {
+      // Clipboard can be blocked; the link is still shown for manual copying
+    }
+  };
+
+  const numberField = (label: MessageKey, value: number | undefined, onChange: (v: number) => void, params?: MessageParams) => (
+    <label className="flex flex-col text-xs font-bold text-slate-500 gap-1">
+      {t(label, params)}
+      <input
+        type="number"
+        value={value === undefined || Number.isNaN(value) ? '' : value}
+        onChange={e => onChange(e.target.value === '' ? NaN : Number(e.target.value))}
+        className="rounded-md border-2 border-slate-200 px-2 py-1 text-sm text-slate-700 font-mono focus:outline-none focus:border-violet-500"
+      />
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 flex items-center justify-center p-4 z-50" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-xl w-full max-w-3xl max-h-full overflow-y-auto p-6"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl text-slate-800 fun-font">{t('editor.title')}</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 text-2xl leading-none">×</button>
+        </div>
+
+        {/* Editor Form */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <label className="col-span-2 flex flex-col text-xs font-bold text-slate-500 gap-1">
+            {t('editor.name')}
+            <input
+              value={draft.name}
+              onChange={e => update({ name: e.target.value })}
+              className="rounded-md border-2 border-slate-200 px-2 py-1 text-sm text-slate-700 focus:outline-none focus:border-violet-500"
+            />
+          </label>
+          <label className="col-span-2 flex flex-col text-xs font-bold text-slate-500 gap-1">
+            {t('editor.description')}
+            <input
+              value={draft.description}
+              onChange={e => update({ description: e.target.value })}
+              className="rounded-md border-2 border-slate-200 px-2 py-1 text-sm text-slate-700 focus:outline-none focus:border-violet-500"
+            />
+          </label>
+
+          {numberField('editor.xMin', draft.xRange[0], v => update({ xRange: [v, draft.xRange[1]] }))}
+          {numberField('editor.xMax', draft.xRange[1], v => update({ xRange: [draft.xRange[0], v] }))}
+          {numberField('editor.yMin', draft.yRange[0], v => update({ yRange: [v, draft.yRange[1]] }))}
+          {numberField('editor.yMax', draft.yRange[1], v => update({ yRange: [draft.yRange[0], v] }))}
+
+          {numberField('editor.gridStep', draft.gridStep, v => update({ gridStep: v }))}
+          {numberField('editor.majorGridStep', draft.majorGridStep, v => update({ majorGridStep: Number.isNaN(v) ? undefined : v }))}
+          {numberField('editor.labelStep', draft.labelStep, v => update({ labelStep: v }))}
+          {numberField('editor.targetStep', draft.targetStep, v => update({ targetStep: v }))}
+          {numberField('editor.tolerance', draft.tolerance, v => update({ tolerance: v }))}
+          {numberField('editor.precision', draft.precision, v => update({ precision: Number.isNaN(v) ? undefined : v }))}
+
+          <label className="flex flex-col text-xs font-bold text-slate-500 gap-1">
+            {t('editor.originPos')}
+            <select
+              value={draft.originPos}
+              onChange={e => update({ originPos: e.target.value as GameConfig['originPos'] })}
+              className="rounded-md border-2 border-slate-200 px-2 py-1 text-sm text-slate-700"
+            >
+              <option value="center">{t('editor.originCenter')}</option>
+              <option value="bottom-left">{t('editor.originBottomLeft')}</option>
+            </select>
+          </label>
+
+          <label className="flex flex-col text-xs font-bold text-slate-500 gap-1">
+            {t('editor.targetPolicy')}
+            <select
+              value={draft.targetPolicy}
+              onChange={e => update({ targetPolicy: e.target.value as TargetPolicy })}
+              className="rounded-md border-2 border-slate-200 px-2 py-1 text-sm text-slate-700"
+            >
+              <option value="adaptive">{t('editor.policyAdaptive')}</option>
+              <option value="uniform">{t('editor.policyUniform')}</option>
+            </select>
+          </label>
+
+          <label className="flex flex-col text-xs font-bold text-slate-500 gap-1">
+            {t('editor.theme')}
+            <select
+              value={draft.themeColor}
+              onChange={e => update({ themeColor: e.target.value })}
+              className="rounded-md border-2 border-slate-200 px-2 py-1 text-sm text-slate-700"
+            >
+              {THEME_COLORS.map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+          </label>
+
+          <label className="col-span-2 md:col-span-4 flex flex-col text-xs font-bold text-slate-500 gap-1">
+            {t('editor.unlockAfter')}
+            <select
+              value={unlock.after}
+              // Picking a level starts from the built-in rule: enough hits there
+              onChange={e => updateUnlock({ after: e.target.value, hits: unlock.hits ?? UNLOCK_THRESHOLD })}
+              className="rounded-md border-2 border-slate-200 px-2 py-1 text-sm text-slate-700"
+            >
+              <option value="">{t('editor.unlockNone')}</option>
+              {Object.keys(allLevels).filter(id => id !== draft.id).map(id => (
+                <option key={id} value={id}>{text(allLevels[id].name)}</option>
+              ))}
+            </select>
+          </label>
+          {unlock.after && (
+            <>
+              {numberField('editor.unlockHits', unlock.hits, v => updateUnlock({ hits: v }))}
+              {numberField('editor.unlockAccuracy', unlock.accuracy, v => updateUnlock({ accuracy: v }), { over: ACCURACY_WINDOW })}
+              {numberField('editor.unlockPrecision', unlock.precision, v => updateUnlock({ precision: v }))}
+              {numberField('editor.unlockStreak', unlock.streak, v => updateUnlock({ streak: v }))}
+            </>
+          )}
+
+          <div className="col-span-2 md:col-span-4 flex flex-wrap gap-4 text-sm text-slate-600">
+            {Object.values(QuestionType).map(type => (
+              <label key={type} className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={draft.questionTypes.includes(type)}
+                  onChange={() => toggleQuestionType(type)}
+                />
+                {t(QUESTION_TYPE_LABELS[type])}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {/* Validation */}
+        {errors.length > 0 ? (
+          <ul className="mt-4 text-sm text-rose-500 list-disc list-inside">
+            {errors.map(err => <li key={tm(err)}>{tm(err)}</li>)}
+          </ul>
+        ) : (
+          <div className="mt-4 text-sm text-green-600">{t('editor.valid')}</div>
+        )}
+
+        <div className="mt-4 flex flex-wrap gap-2">
+          <button
+            disabled={errors.length > 0}
+            onClick={() => onSave(draft)}
+            className="px-4 py-1.5 rounded-lg font-bold text-white bg-violet-500 hover:bg-violet-600 disabled:bg-slate-300 disabled:cursor-not-allowed"
+          >
+            {t('editor.save')}
+          </button>
+          <button
+            onClick={() => setDraft(newLevel())}
+            className="px-4 py-1.5 rounded-lg font-bold border-2 border-slate-200 text-slate-500 hover:bg-slate-50"
+          >
+            {t('editor.new')}
+          </button>
+          <button
+            onClick={() => fileRef.current?.click()}
+            className="px-4 py-1.5 rounded-lg font-bold border-2 border-slate-200 text-slate-500 hover:bg-slate-50"
+          >
+            {t('editor.import')}
+          </button>
+          <button
+            disabled={levels.length === 0}
+            onClick={() => downloadJson('coordinate-levels.json', exportLevelsJson(levels))}
+            className="px-4 py-1.5 rounded-lg font-bold border-2 border-slate-200 text-slate-500 hover:bg-slate-50 disabled:opacity-50"
+          >
+            {t('editor.exportAll')}
+          </button>
+          <input ref={fileRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImportFile} />
+        </div>
+        {importError && <div className="mt-2 text-sm text-rose-500">{t('editor.importFailed', { error: importError })}</div>}
+
+        {shareUrl && (
+          <div className="mt-3">
+            <div className="text-xs text-slate-400 mb-1">{t('editor.shareLink')}</div>
+            <input
+              readOnly
+              value={shareUrl}
+              onFocus={e => e.target.select()}
+              className="w-full rounded-md border-2 border-slate-200 px-2 py-1 text-xs font-mono text-slate-600"
+            />
+          </div>
+        )}
+
+        {/* Saved Levels */}
+        <h3 className="mt-6 mb-2 text-sm font-bold text-slate-400">{t('editor.saved')}</h3>
+        {levels.length === 0 && <div className="text-sm text-slate-400">{t('editor.none')}</div>}
+        <ul className="flex flex-col gap-2">
+          {levels.map(level => (
+            <li key={level.id} className="flex flex-wrap items-center gap-2 border border-slate-200 rounded-lg px-3 py-2">
+              <span className="font-bold text-slate-700 flex-grow">{level.name}</span>
+              <span className="text-xs font-mono text-slate-400">
+                x[{level.xRange.join(', ')}] y[{level.yRange.join(', ')}]
+              </span>
+              <button onClick={() => onPlay(level.id)} className="text-sm font-bold text-violet-600 hover:underline">{t('editor.play')}</button>
+              <button onClick={() => setDraft(level)} className="text-sm font-bold text-slate-500 hover:underline">{t('editor.edit')}</button>
+              <button onClick={() => handleShare(level)} className="text-sm font-bold text-slate-500 hover:underline">{t('editor.share')}</button>
+              <button
+                onClick={() => downloadJson(`${level.id}.json`, exportLevelsJson([level]))}
+                className="text-sm font-bold text-slate-500 hover:underline"
+              >
+                {t('editor.export')}
+              </button>
+              <button onClick={() => onDelete(level.id)} className="text-sm font-bold text-rose-500 hover:underline">{t('editor.delete')}</button>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default LevelEditor;
@@ -0,0 +1,30 @@
+import React from 'react';
+import { MotionBlock, formatMotionBlock } from '../utils/scratchMotion';
+import { useI18n } from '../i18n/I18nContext';
+
+interface MotionScriptProps {
+  blocks: MotionBlock[];
+}
+
+// Renders a script as stacked Scratch-blue motion blocks under a green-flag hat
+const MotionScript: React.FC<MotionScriptProps> = ({ blocks }) => {
+  const { t, tm } = useI18n();
+
+  return (
+    <div className="flex flex-col items-start font-mono text-sm select-none">
+      <div className="px-3 py-1.5 rounded-t-2xl rounded-br-lg bg-[#FFBF00] text-white font-bold border border-[#CC9900]">
+        {t('script.whenFlagClicked')}
+      </div>
+      {blocks.map((block, i) => (
+        <div
+          key={i}
+          className="px-3 py-1.5 rounded-md bg-[#4C97FF] text-white font-bold border border-[#3373CC] -mt-px"
+        >
+          {tm(formatMotionBlock(block))}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default MotionScript;
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { StudentProfile } from '../types';
+import { AVATARS } from '../utils/profileStore';
+import { useI18n } from '../i18n/I18nContext';
+import LanguageSwitcher from './LanguageSwitcher';
+
+interface ProfilePickerProps {
+  profiles: StudentProfile[];
+  activeProfileId: string | null;
+  notice?: string | null; // e.g. "saved data was reset"
+  onSelect: (id: string) => void;
+  onCreate: (name: string, avatar: string) => void;
+  onDelete: (id: string) => void;
+  onClose?: () => void; // Omitted at startup, when someone has to be picked first
+}
+
+const ProfilePicker: React.FC<ProfilePickerProps> = ({
+  profiles,
+  activeProfileId,
+  notice,
+  onSelect,
+  onCreate,
+  onDelete,
+  onClose
+}) => {
+  const { t } = useI18n();
+  const [name, setName] = useState('');
+  const [avatar, setAvatar] = useState(AVATARS[profiles.length % AVATARS.length]);
+
+  const trimmed = name.trim();
+  const nameTaken = profiles.some(p => p.name === trimmed);
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!trimmed || nameTaken) return;
+    onCreate(trimmed, avatar);
+    setName('');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 flex items-center justify-center p-4 z-50" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-xl w-full max-w-xl max-h-full overflow-y-auto p-6"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl text-slate-800 fun-font">{t('profile.title')}</h2>
+          <div className="flex items-center gap-3">
+            <LanguageSwitcher />
+            {onClose && (
+              <button onClick={onClose} className="text-slate-400 hover:text-slate-600 text-2xl leading-none">×</button>
+            )}
+          </div>
+        </div>
+
+        {notice && (
+          <div className="mb-4 text-sm text-amber-700 bg-amber-50 rounded-lg px-3 py-2">⚠️ {notice}</div>
+        )}
+
+        {/* Existing Profiles */}
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 mb-6">
+          {profiles.map(p => (
+            <div
+              key={p.id}
+              className={`relative group rounded-xl border-2 ${p.id === activeProfileId ? 'border-violet-500 bg-violet-50' : 'border-slate-200 hover:border-slate-300'}`}
+            >
+              <button onClick={() => onSelect(p.id)} className="w-full flex flex-col items-center py-3">
+                <span className="text-4xl">{p.avatar}</span>
+                <span className="mt-1 font-bold text-slate-700 truncate max-w-full px-2">{p.name}</span>
+              </button>
+              <button
+                onClick={() => window.confirm(t('profile.deleteConfirm', { name: p.name })) && onDelete(p.id)}
+                className="absolute top-1 right-2 text-slate-300 hover:text-rose-500 opacity-0 group-hover:opacity-100 focus:opacity-100"
+                title={t('profile.delete')}
+              >
+                ×
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {/* New Profile */}
+        <form onSubmit={handleCreate} className="border-t border-slate-100 pt-4">
+          <div className="text-sm font-bold text-slate-400 mb-2">{t('profile.new')}</div>
+          <div className="flex flex-wrap gap-1 mb-2">
+            {AVATARS.map(a => (
+              <button
+                key={a}
+                type="button"
+                onClick={() => setAvatar(a)}
+                className={`text-2xl rounded-lg px-1 ${a === avatar ? 'bg-violet-100 ring-2 ring-violet-400' : 'hover:bg-slate-100'}`}
+              >
+                {a}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <input
+              value={name}
+              onChange={e => setName(e.target.value)}
+              placeholder={t('profile.namePlaceholder')}
+              maxLength={20}
+              className="flex-grow rounded-md border-2 border-slate-200 px-2 py-1 text-slate-700 focus:outline-none focus:border-violet-500"
+            />
+            <button
+              type="submit"
+              disabled={!trimmed || nameTaken}
+              className="px-4 py-1.5 rounded-lg font-bold text-white bg-violet-500 hover:bg-violet-600 disabled:bg-slate-300 disabled:cursor-not-allowed"
+            >
+              {t('profile.join')}
+            </button>
+          </div>
+          {nameTaken && <div className="mt-1 text-xs text-rose-500">{t('profile.nameTaken')}</div>}
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ProfilePicker;
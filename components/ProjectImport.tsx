@@ -0,0 +1,113 @@
+import React, { useRef, useState } from 'react';
+import { GameConfig } from '../types';
+import { useI18n } from '../i18n/I18nContext';
+import { ProjectError, ScratchProject, readScratchProject } from '../utils/sb3';
+
+interface ProjectImportProps {
+  fence: GameConfig; // Level the questions will be played in; positions outside it are left out
+  onPlay: (project: ScratchProject) => void;
+  onClose: () => void;
+}
+
+// Loads a student's .sb3 and lists what's on its stage before turning it into questions
+const ProjectImport: React.FC<ProjectImportProps> = ({ fence, onPlay, onClose }) => {
+  const { t, tm } = useI18n();
+  const [project, setProject] = useState<ScratchProject | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow loading the same file again
+    if (!file) return;
+    setLoading(true);
+    setProject(null);
+    setError(null);
+    try {
+      setProject(await readScratchProject(file.name, new Uint8Array(await file.arrayBuffer()), fence));
+    } catch (err) {
+      console.error("Failed to read Scratch project", err);
+      setError(err instanceof ProjectError ? err.messages.map(tm).join(' / ') : String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const gotoCount = project?.targets.filter(p => p.block !== null).length ?? 0;
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 flex items-center justify-center p-4 z-50" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-xl w-full max-w-2xl max-h-full overflow-y-auto p-6"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl text-slate-800 fun-font">{t('project.title')}</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 text-2xl leading-none">×</button>
+        </div>
+
+        <p className="text-sm text-slate-500 mb-3">{t('project.intro')}</p>
+        <button
+          onClick={() => fileRef.current?.click()}
+          disabled={loading}
+          className="px-4 py-1.5 rounded-lg font-bold border-2 border-slate-200 text-slate-500 hover:bg-slate-50 disabled:opacity-50"
+        >
+          {loading ? t('project.loading') : t('project.choose')}
+        </button>
+        <input ref={fileRef} type="file" accept=".sb3" className="hidden" onChange={handleFile} />
+        {error && <div className="mt-2 text-sm text-rose-500">{t('project.failed', { error })}</div>}
+
+        {project && (
+          <>
+            <h3 className="mt-6 mb-2 text-sm font-bold text-slate-400">
+              {t('project.sprites', { name: project.name, count: project.sprites.length })}
+            </h3>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-400 text-xs">
+                  <th className="py-1">{t('project.costume')}</th>
+                  <th>{t('project.sprite')}</th>
+                  <th>x</th>
+                  <th>y</th>
+                  <th>{t('project.direction')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {project.sprites.map((sprite, i) => (
+                  <tr key={`${sprite.name}-${i}`} className="border-t border-slate-100">
+                    <td className="py-1">
+                      {sprite.costume
+                        ? <img src={sprite.costume} alt="" className="w-8 h-8 object-contain" />
+                        : <span className="text-xl">🐱</span>}
+                    </td>
+                    <td className="font-bold text-slate-700">{sprite.name}</td>
+                    <td className="font-mono">{Math.round(sprite.x)}</td>
+                    <td className="font-mono">{Math.round(sprite.y)}</td>
+                    <td className="font-mono">{Math.round(sprite.direction)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div className="mt-4 text-sm text-slate-500">
+              {t('project.questions', { total: project.targets.length, blocks: gotoCount })}
+              {project.skipped > 0 && <span className="ml-1 text-amber-600">{t('project.skipped', { count: project.skipped })}</span>}
+            </div>
+
+            <div className="mt-6 flex justify-end">
+              <button
+                onClick={() => onPlay(project)}
+                className="px-4 py-1.5 rounded-lg font-bold text-white bg-violet-500 hover:bg-violet-600"
+              >
+                {t('project.play')}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProjectImport;
@@ -0,0 +1,108 @@
+import React from 'react';
+import { SessionType } from '../types';
+import { MessageKey } from '../i18n';
+import { useI18n } from '../i18n/I18nContext';
+import { SESSION_RULES, SessionStats, formatDuration, timeLeft } from '../utils/sessions';
+import { SessionStatus } from '../engine';
+
+interface SessionBarProps {
+  sessionType: SessionType;
+  isRace: boolean; // Clock and start button; challenge codes are raced even in practice
+  status: SessionStatus;
+  stats: SessionStats;
+  elapsedMs: number;
+  themeColor: string;
+  onChangeType: (type: SessionType) => void;
+  onStart: () => void;
+}
+
+export const SESSION_LABELS: Record<SessionType, MessageKey> = {
+  [SessionType.Practice]: 'session.practice',
+  [SessionType.Timed]: 'session.timed',
+  [SessionType.FirstTo]: 'session.firstTo',
+  [SessionType.SuddenDeath]: 'session.suddenDeath'
+};
+
+const SESSION_HINTS: Record<SessionType, MessageKey> = {
+  [SessionType.Practice]: 'session.practiceHint',
+  [SessionType.Timed]: 'session.timedHint',
+  [SessionType.FirstTo]: 'session.firstToHint',
+  [SessionType.SuddenDeath]: 'session.suddenDeathHint'
+};
+
+// Shown once the streak is worth celebrating
+const COMBO_MIN = 3;
+
+const SessionBar: React.FC<SessionBarProps> = ({
+  sessionType,
+  isRace,
+  status,
+  stats,
+  elapsedMs,
+  themeColor,
+  onChangeType,
+  onStart
+}) => {
+  const { t } = useI18n();
+  const remaining = timeLeft(sessionType, elapsedMs);
+  const targetHits = SESSION_RULES[sessionType].targetHits;
+
+  return (
+    <div className="bg-white rounded-xl p-3 shadow-sm border border-slate-200">
+      {/* Session Type Picker */}
+      <div className="grid grid-cols-2 gap-1">
+        {Object.values(SessionType).map(type => (
+          <button
+            key={type}
+            onClick={() => onChangeType(type)}
+            title={t(SESSION_HINTS[type])}
+            className={`px-2 py-1 rounded-md text-xs font-bold border ${type === sessionType ? `bg-${themeColor}-100 border-${themeColor}-500 text-${themeColor}-700` : 'bg-white border-slate-200 text-slate-500 hover:bg-slate-50'}`}
+          >
+            {t(SESSION_LABELS[type])}
+          </button>
+        ))}
+      </div>
+
+      {isRace && (
+        <>
+          {/* Live Stats */}
+          <div className="mt-3 grid grid-cols-3 gap-2 text-center">
+            <div>
+              <div className="text-[10px] font-bold text-slate-400">
+                {remaining !== null ? t('session.timeLeft') : t('session.elapsed')}
+              </div>
+              <div className={`text-xl font-mono font-black ${remaining !== null && remaining <= 10_000 && status === 'running' ? 'text-rose-500' : 'text-slate-700'}`}>
+                {formatDuration(remaining ?? elapsedMs)}
+              </div>
+            </div>
+            <div>
+              <div className="text-[10px] font-bold text-slate-400">{t('session.hits')}</div>
+              <div className="text-xl font-mono font-black text-slate-700">
+                {stats.hits}{targetHits !== undefined && <span className="text-sm text-slate-400">/{targetHits}</span>}
+              </div>
+            </div>
+            <div>
+              <div className="text-[10px] font-bold text-slate-400">{t('session.streak')}</div>
+              <div className="text-xl font-mono font-black text-slate-700">{stats.streak}</div>
+            </div>
+          </div>
+
+          <div className="h-6 mt-1 text-center text-sm font-black text-orange-500" aria-live="polite">
+            {stats.streak >= COMBO_MIN && t('session.combo', { count: stats.streak })}
+          </div>
+
+          {status !== 'running' && (
+            <button
+              onClick={onStart}
+              className={`w-full mt-1 py-2 rounded-lg font-bold text-white bg-${themeColor}-500 hover:bg-${themeColor}-600`}
+            >
+              {status === 'ready' ? t('session.start') : t('session.restart')}
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SessionBar;
@@ -0,0 +1,127 @@
+import React from 'react';
+import { LabeledPoint } from '../types';
+import { MessageKey } from '../i18n';
+import { useI18n } from '../i18n/I18nContext';
+import { SessionStats, formatDuration } from '../utils/sessions';
+import { ExportStyle, exportScratchProject } from '../utils/sb3Export';
+
+interface SessionSummaryProps {
+  stats: SessionStats;
+  elapsedMs: number;
+  points: LabeledPoint[]; // Placed this session; offered as a Scratch project
+  challenge: string | null; // Tag of the challenge code just played, if any
+  onLeaderboard?: () => void; // Only offered once a race has been filed
+  onAgain: () => void;
+  onClose: () => void;
+}
+
+const downloadSb3 = (filename: string, bytes: Uint8Array) => {
+  const url = URL.createObjectURL(new Blob([bytes], { type: 'application/x.scratch.sb3' }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+const EXPORT_STYLES: [ExportStyle, MessageKey][] = [
+  ['sprites', 'summary.exportSprites'],
+  ['walk', 'summary.exportWalk']
+];
+
+const SessionSummary: React.FC<SessionSummaryProps> = ({ stats, elapsedMs, points, challenge, onLeaderboard, onAgain, onClose }) => {
+  const { t } = useI18n();
+  const avgPrecision = stats.attempts === 0 ? 0 : stats.precisionSum / stats.attempts;
+
+  const tiles: [string, string | number][] = [
+    [t('summary.points'), stats.points],
+    [t('summary.rounds'), stats.attempts],
+    [t('summary.hits'), stats.hits],
+    [t('summary.precision'), `${Math.round(avgPrecision * 100)}%`],
+    [t('summary.bestStreak'), stats.bestStreak],
+    [t('summary.time'), formatDuration(elapsedMs)]
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 flex items-center justify-center p-4 z-50" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-xl w-full max-w-md max-h-full overflow-y-auto p-6"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl text-slate-800 fun-font">{t('summary.title')}</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 text-2xl leading-none">×</button>
+        </div>
+
+        {challenge && (
+          <div className="mb-3 rounded-lg bg-violet-50 px-3 py-2 text-sm text-violet-700">
+            {t('summary.challenge', { code: challenge })}
+          </div>
+        )}
+
+        <div className="grid grid-cols-3 gap-2 text-center">
+          {tiles.map(([label, value]) => (
+            <div key={label} className="rounded-lg bg-slate-50 py-2">
+              <div className="text-[10px] font-bold text-slate-400">{label}</div>
+              <div className="text-xl font-mono font-black text-slate-700">{value}</div>
+            </div>
+          ))}
+        </div>
+
+        {/* Star Distribution, best first */}
+        <h3 className="mt-4 mb-2 text-sm font-bold text-slate-400">{t('summary.stars')}</h3>
+        <ul className="flex flex-col gap-1 text-sm">
+          {[3, 2, 1].map(stars => (
+            <li key={stars} className="flex items-center gap-2">
+              <span className="w-16">{'⭐'.repeat(stars)}</span>
+              <span className="font-mono text-slate-600">× {stats.starCounts[stars]}</span>
+            </li>
+          ))}
+        </ul>
+
+        {/* Take The Points To Scratch */}
+        {points.length > 0 && (
+          <>
+            <h3 className="mt-4 mb-2 text-sm font-bold text-slate-400">{t('summary.export', { count: points.length })}</h3>
+            <div className="flex flex-wrap gap-2">
+              {EXPORT_STYLES.map(([style, label]) => (
+                <button
+                  key={style}
+                  onClick={() => downloadSb3(`coordinates-${style}.sb3`, exportScratchProject(points, style))}
+                  className="px-3 py-1 rounded-lg text-sm font-bold border-2 border-[#4C97FF] text-[#4C97FF] hover:bg-blue-50"
+                >
+                  {t(label)}
+                </button>
+              ))}
+            </div>
+          </>
+        )}
+
+        <div className="mt-6 flex flex-wrap justify-end gap-2">
+          {onLeaderboard && (
+            <button
+              onClick={onLeaderboard}
+              className="px-4 py-1.5 rounded-lg font-bold border-2 border-slate-200 text-slate-500 hover:bg-slate-50"
+            >
+              {t('summary.leaderboard')}
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="px-4 py-1.5 rounded-lg font-bold border-2 border-slate-200 text-slate-500 hover:bg-slate-50"
+          >
+            {t('summary.continue')}
+          </button>
+          <button
+            onClick={onAgain}
+            className="px-4 py-1.5 rounded-lg font-bold text-white bg-violet-500 hover:bg-violet-600"
+          >
+            {t('summary.again')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionSummary;
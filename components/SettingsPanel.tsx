@@ -0,0 +1,149 @@
+import React from 'react';
+import { Preferences, ThemeName } from '../types';
+import { useI18n } from '../i18n/I18nContext';
+import { THEME_NAMES, createTheme } from '../theme';
+import { canSpeak, playEarcon, speak, spokenPoint } from '../utils/audio';
+
+interface SettingsPanelProps {
+  preferences: Preferences;
+  systemReducedMotion: boolean; // The computer already asks for less motion
+  onChange: (change: Partial<Preferences>) => void;
+  onClose: () => void;
+}
+
+const THEME_LABELS: Record<ThemeName, 'settings.theme.light' | 'settings.theme.dark' | 'settings.theme.contrast'> = {
+  light: 'settings.theme.light',
+  dark: 'settings.theme.dark',
+  contrast: 'settings.theme.contrast'
+};
+
+// Sound switches, each with a short explanation
+const SOUND_OPTIONS: ['speech' | 'sonification' | 'earcons', 'settings.speech' | 'settings.sonification' | 'settings.earcons', 'settings.speechHint' | 'settings.sonificationHint' | 'settings.earconsHint'][] = [
+  ['speech', 'settings.speech', 'settings.speechHint'],
+  ['sonification', 'settings.sonification', 'settings.sonificationHint'],
+  ['earcons', 'settings.earcons', 'settings.earconsHint']
+];
+
+// A point with a negative coordinate, so the sample shows how signs are read
+const SAMPLE_POINT = { x: -120, y: 80 };
+
+// How the app looks and sounds for whoever is playing; kept with their profile
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ preferences, systemReducedMotion, onChange, onClose }) => {
+  const { t, info } = useI18n();
+  const speechAvailable = canSpeak();
+
+  const tryOut = (option: 'speech' | 'earcons') => {
+    if (option === 'speech') {
+      speak(spokenPoint(SAMPLE_POINT, t), info.htmlLang);
+    } else {
+      playEarcon('hit');
+      setTimeout(() => playEarcon('miss'), 700);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 flex items-center justify-center p-4 z-50" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-xl w-full max-w-lg max-h-full overflow-y-auto p-6"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl text-slate-800 fun-font">{t('settings.title')}</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 text-2xl leading-none">×</button>
+        </div>
+
+        {/* Appearance */}
+        <h3 className="mb-2 text-sm font-bold text-slate-400">{t('settings.appearance')}</h3>
+        <div className="grid grid-cols-3 gap-3" role="radiogroup" aria-label={t('settings.appearance')}>
+          {THEME_NAMES.map(name => {
+            // Each choice is drawn in its own colours, whatever the current theme is
+            const preview = createTheme(name, preferences.colorBlind);
+            const selected = preferences.theme === name;
+            return (
+              <button
+                key={name}
+                role="radio"
+                aria-checked={selected}
+                onClick={() => onChange({ theme: name })}
+                className={`flex flex-col items-center gap-1 rounded-lg border-2 p-2 text-sm font-bold ${selected ? 'border-violet-500 text-violet-700' : 'border-slate-200 text-slate-500 hover:bg-slate-50'}`}
+              >
+                <span
+                  className="flex w-full items-center justify-center gap-2 rounded-md border py-2 font-mono"
+                  style={{ background: preview.color('slate', 50), color: preview.color('slate', 800), borderColor: preview.color('slate', 300) }}
+                >
+                  <span style={{ color: preview.color('green', 600) }}>✔</span>
+                  (3, 5)
+                  <span style={{ color: preview.color('red', 500) }}>✖</span>
+                </span>
+                {t(THEME_LABELS[name])}
+              </button>
+            );
+          })}
+        </div>
+
+        <label className="mt-4 flex items-start gap-2 text-sm text-slate-700">
+          <input
+            type="checkbox"
+            className="mt-1"
+            checked={preferences.colorBlind}
+            onChange={e => onChange({ colorBlind: e.target.checked })}
+          />
+          <span>
+            <span className="font-bold">{t('settings.colorBlind')}</span>
+            <span className="block text-xs text-slate-500">{t('settings.colorBlindHint')}</span>
+          </span>
+        </label>
+
+        <label className="mt-3 flex items-start gap-2 text-sm text-slate-700">
+          <input
+            type="checkbox"
+            className="mt-1"
+            checked={preferences.reducedMotion || systemReducedMotion}
+            disabled={systemReducedMotion}
+            onChange={e => onChange({ reducedMotion: e.target.checked })}
+          />
+          <span>
+            <span className="font-bold">{t('settings.reducedMotion')}</span>
+            <span className="block text-xs text-slate-500">
+              {t(systemReducedMotion ? 'settings.reducedMotionSystem' : 'settings.reducedMotionHint')}
+            </span>
+          </span>
+        </label>
+
+        {/* Sound */}
+        <h3 className="mt-6 mb-2 text-sm font-bold text-slate-400">{t('settings.sound')}</h3>
+        {SOUND_OPTIONS.map(([option, label, hint]) => {
+          const unavailable = option === 'speech' && !speechAvailable;
+          return (
+            <div key={option} className="mt-3 flex items-start gap-2">
+              <label className="flex flex-1 items-start gap-2 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  className="mt-1"
+                  checked={preferences[option] && !unavailable}
+                  disabled={unavailable}
+                  onChange={e => onChange({ [option]: e.target.checked })}
+                />
+                <span>
+                  <span className="font-bold">{t(label)}</span>
+                  <span className="block text-xs text-slate-500">{t(unavailable ? 'settings.speechUnavailable' : hint)}</span>
+                </span>
+              </label>
+              {option !== 'sonification' && (
+                <button
+                  onClick={() => tryOut(option)}
+                  disabled={unavailable}
+                  className="px-3 py-1 rounded-lg text-sm font-bold border-2 border-slate-200 text-slate-500 hover:bg-slate-50 disabled:opacity-50"
+                >
+                  {t('settings.try')}
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
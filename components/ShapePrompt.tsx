@@ -0,0 +1,46 @@
+import React from 'react';
+import { useI18n } from '../i18n/I18nContext';
+import { ShapeTask, describeShapeTask } from '../utils/shapeTasks';
+
+interface ShapePromptProps {
+  task: ShapeTask;
+  placedCount: number;
+  themeColor: string;
+  canUndo: boolean;
+  onUndo: () => void;
+}
+
+const ShapePrompt: React.FC<ShapePromptProps> = ({ task, placedCount, themeColor, canUndo, onUndo }) => {
+  const { t, tm } = useI18n();
+
+  return (
+    <div className="flex flex-col items-center gap-3 text-center">
+      <div className={`text-lg font-bold text-${themeColor}-700`}>{tm(describeShapeTask(task))}</div>
+
+      {/* One chip per vertex to place; filled once it's down */}
+      <div className="flex gap-2">
+        {task.answers.map((v, i) => (
+          <span
+            key={v.label}
+            className={`w-8 h-8 flex items-center justify-center rounded-full font-black text-sm border-2 ${i < placedCount ? `bg-${themeColor}-500 border-${themeColor}-500 text-white` : 'border-slate-300 text-slate-400'}`}
+          >
+            {v.label}
+          </span>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-3 text-xs text-slate-400">
+        <span>{t('shape.progress', { placed: placedCount, total: task.answers.length })}</span>
+        <button
+          onClick={onUndo}
+          disabled={!canUndo}
+          className="px-2 py-0.5 rounded-md border border-slate-200 font-bold text-slate-500 hover:bg-slate-50 disabled:opacity-40"
+        >
+          {t('shape.undo')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ShapePrompt;
@@ -0,0 +1,250 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AttemptRecord, GameConfig } from '../types';
+import { Message } from '../i18n';
+import { useI18n } from '../i18n/I18nContext';
+import { randomSeedText } from '../utils/random';
+import { encodeLevel, isCustomLevel } from '../utils/customLevels';
+import { CHALLENGE_ROUND_OPTIONS, DEFAULT_CHALLENGE_ROUNDS, challengeCode, challengeTag, cleanSeed } from '../utils/challenge';
+import { isDirectionType, directionOf } from '../utils/directions';
+import {
+  CLASSROOM_PROTOCOL,
+  ClassroomErrorCode,
+  ClassroomPush,
+  ClassroomStudent,
+  RECENT_WINDOW,
+  classroomUrl,
+  summarizeStudent,
+  updateRoster
+} from '../utils/classroom';
+import { ClassroomConnection, ClassroomStatus, connectClassroom } from '../utils/classroomClient';
+
+interface TeacherDashboardProps {
+  address: string; // Where the classroom server runs, usually this computer
+  resumeCode: string | null; // Class hosted earlier in this visit, taken up again
+  levels: Record<string, GameConfig>;
+  onHosted: (code: string) => void;
+  onClose: () => void;
+}
+
+// Target and answer of a miss; directions in degrees, everything else as points
+const describeMiss = (a: AttemptRecord) =>
+  isDirectionType(a.questionType)
+    ? `${directionOf(a.target)}° → ${directionOf(a.clickPos)}°`
+    : `(${a.target.x}, ${a.target.y}) → (${a.clickPos.x}, ${a.clickPos.y})`;
+
+// Live view of the class: who is where, how it's going, who is stuck; and one place to send everyone the same thing
+const TeacherDashboard: React.FC<TeacherDashboardProps> = ({ address, resumeCode, levels, onHosted, onClose }) => {
+  const { t, tm, text } = useI18n();
+  const [status, setStatus] = useState<ClassroomStatus>('connecting');
+  const [code, setCode] = useState<string | null>(resumeCode);
+  const [addresses, setAddresses] = useState<string[]>([]);
+  const [students, setStudents] = useState<ClassroomStudent[]>([]);
+  const [error, setError] = useState<ClassroomErrorCode | null>(null);
+  const [levelId, setLevelId] = useState(Object.keys(levels)[0]);
+  const [rounds, setRounds] = useState(DEFAULT_CHALLENGE_ROUNDS);
+  const [seed, setSeed] = useState(() => cleanSeed(randomSeedText()));
+  const [sent, setSent] = useState<Message | null>(null);
+
+  const codeRef = useRef(resumeCode);
+  const connectionRef = useRef<ClassroomConnection | null>(null);
+
+  useEffect(() => {
+    const connection = connectClassroom(
+      classroomUrl(address),
+      () => ({ type: 'host', protocol: CLASSROOM_PROTOCOL, code: codeRef.current ?? undefined }),
+      message => {
+        if (message.type === 'hosted') {
+          codeRef.current = message.code;
+          setCode(message.code);
+          setAddresses(message.addresses);
+          onHosted(message.code);
+        }
+        if (message.type === 'error') setError(message.error);
+        setStudents(s => updateRoster(s, message));
+      },
+      setStatus
+    );
+    connectionRef.current = connection;
+    return () => connection.close();
+  }, [address, onHosted]);
+
+  const push = (message: ClassroomPush, note: Message) => {
+    connectionRef.current?.send({ type: 'push', push: message });
+    setSent(note);
+  };
+
+  const level = levels[levelId];
+  const sendLevel = () => push(
+    { kind: 'level', id: level.id, encoded: isCustomLevel(level.id) ? encodeLevel(level) : undefined },
+    { key: 'dashboard.sentLevel', params: { level: text(level.name) } }
+  );
+  const sendChallenge = () => {
+    const challenge = { level, seed, rounds };
+    push(
+      { kind: 'challenge', code: challengeCode(challenge) },
+      { key: 'dashboard.sentChallenge', params: { code: challengeTag(challenge) } }
+    );
+    setSeed(cleanSeed(randomSeedText())); // The next one shouldn't repeat these rounds
+  };
+
+  // Stuck students first, then everyone else as they joined; whoever left goes to the bottom
+  const rows = students
+    .map(student => ({ student, summary: summarizeStudent(student) }))
+    .sort((a, b) =>
+      Number(b.student.connected) - Number(a.student.connected) || Number(b.summary.stuck) - Number(a.summary.stuck)
+    );
+  const online = students.filter(s => s.connected).length;
+  const live = status === 'open' && code !== null;
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 flex items-center justify-center p-4 z-50" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-xl w-full max-w-4xl max-h-full overflow-y-auto p-6"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl text-slate-800 fun-font">{t('dashboard.title')}</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 text-2xl leading-none">×</button>
+        </div>
+
+        {/* Code On The Board */}
+        <div className="flex flex-wrap items-center gap-6 rounded-lg bg-slate-50 p-4 mb-4">
+          <div>
+            <div className="text-xs font-bold text-slate-400">{t('dashboard.code')}</div>
+            <div className={`font-mono font-black text-4xl tracking-widest ${live ? 'text-slate-700' : 'text-slate-300'}`}>{code ?? '····'}</div>
+          </div>
+          <div className="flex-1 text-sm text-slate-500">
+            {error ? <span className="text-rose-500">{t(`classroom.error.${error}`)}</span>
+              : status === 'retrying' ? <span className="text-rose-500">{t('dashboard.retrying', { address })}</span>
+              : !live ? t('dashboard.connecting', { address })
+              : (
+                <>
+                  <div className="text-xs font-bold text-slate-400">{t('dashboard.addresses')}</div>
+                  <div className="font-mono text-slate-700">{addresses.length > 0 ? addresses.join(' · ') : address}</div>
+                  <div className="mt-1 text-xs">{t('dashboard.online', { online, count: students.length })}</div>
+                </>
+              )}
+          </div>
+        </div>
+
+        {/* Students */}
+        {students.length === 0 ? (
+          <div className="text-center text-slate-400 py-8">{t('dashboard.empty')}</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-slate-400 border-b border-slate-200">
+                <th className="py-2 pr-2">{t('dashboard.student')}</th>
+                <th className="py-2 pr-2">{t('dashboard.level')}</th>
+                <th className="py-2 pr-2">{t('dashboard.accuracy', { count: RECENT_WINDOW })}</th>
+                <th className="py-2 pr-2 text-right">{t('dashboard.answers')}</th>
+                <th className="py-2">{t('dashboard.misses')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(({ student, summary }) => (
+                <tr
+                  key={student.id}
+                  className={`border-b border-slate-100 ${!student.connected ? 'opacity-50' : summary.stuck ? 'bg-rose-50' : ''}`}
+                >
+                  <td className="py-2 pr-2 font-bold text-slate-700 whitespace-nowrap">
+                    <span className="text-lg mr-1">{student.avatar}</span>
+                    {student.name}
+                    {!student.connected && <span className="ml-2 text-xs font-normal text-slate-400">{t('dashboard.offline')}</span>}
+                    {student.connected && summary.stuck && (
+                      <span className="ml-2 px-1.5 py-0.5 rounded-md text-xs text-white bg-rose-500">{t('dashboard.stuck')}</span>
+                    )}
+                  </td>
+                  <td className="py-2 pr-2 text-slate-600">{student.level ? text(student.level.name) : '—'}</td>
+                  <td className="py-2 pr-2">
+                    {summary.accuracy === null ? <span className="text-slate-300">—</span> : (
+                      <div className="flex items-center gap-2">
+                        <div className="w-20 bg-slate-100 rounded-full h-2 overflow-hidden">
+                          <div
+                            className={`h-2 rounded-full ${summary.accuracy >= 0.7 ? 'bg-emerald-500' : summary.accuracy >= 0.4 ? 'bg-amber-500' : 'bg-rose-500'}`}
+                            style={{ width: `${summary.accuracy * 100}%` }}
+                          ></div>
+                        </div>
+                        <span className="font-bold text-slate-600">{Math.round(summary.accuracy * 100)}%</span>
+                      </div>
+                    )}
+                  </td>
+                  <td className="py-2 pr-2 text-right text-slate-600">{student.attempts.length}</td>
+                  <td className="py-2 font-mono text-xs text-slate-500">
+                    {summary.misses.map((a, i) => <div key={i}>{describeMiss(a)}</div>)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {/* Send To Everyone */}
+        <h3 className="mt-6 mb-2 text-sm font-bold text-slate-400">{t('dashboard.send')}</h3>
+        <div className="grid grid-cols-3 gap-3">
+          <label className="flex flex-col text-xs font-bold text-slate-500 gap-1">
+            {t('challenge.level')}
+            <select
+              value={levelId}
+              onChange={e => setLevelId(e.target.value)}
+              className="rounded-md border-2 border-slate-200 px-2 py-1 text-sm text-slate-700"
+            >
+              {Object.keys(levels).map(id => (
+                <option key={id} value={id}>{text(levels[id].name)}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="flex flex-col text-xs font-bold text-slate-500 gap-1">
+            {t('challenge.rounds')}
+            <select
+              value={rounds}
+              onChange={e => setRounds(Number(e.target.value))}
+              className="rounded-md border-2 border-slate-200 px-2 py-1 text-sm text-slate-700"
+            >
+              {CHALLENGE_ROUND_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </label>
+
+          <label className="flex flex-col text-xs font-bold text-slate-500 gap-1">
+            {t('challenge.seed')}
+            <div className="flex gap-1">
+              <input
+                value={seed}
+                onChange={e => setSeed(cleanSeed(e.target.value))}
+                className="min-w-0 flex-1 rounded-md border-2 border-slate-200 px-2 py-1 text-sm text-slate-700 font-mono focus:outline-none focus:border-violet-500"
+              />
+              <button
+                onClick={() => setSeed(cleanSeed(randomSeedText()))}
+                title={t('challenge.newSeed')}
+                className="px-2 rounded-md border-2 border-slate-200 hover:bg-slate-50"
+              >
+                🎲
+              </button>
+            </div>
+          </label>
+        </div>
+
+        <div className="mt-4 flex items-center justify-end gap-2">
+          {sent && <span className="mr-auto text-sm text-emerald-600">✓ {tm(sent)}</span>}
+          <button
+            onClick={sendLevel}
+            disabled={!live}
+            className="px-4 py-1.5 rounded-lg font-bold border-2 border-slate-200 text-slate-500 hover:bg-slate-50 disabled:opacity-50"
+          >
+            {t('dashboard.sendLevel')}
+          </button>
+          <button
+            onClick={sendChallenge}
+            disabled={!live || !seed}
+            className="px-4 py-1.5 rounded-lg font-bold text-white bg-violet-500 hover:bg-violet-600 disabled:opacity-50"
+          >
+            {t('dashboard.sendChallenge')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TeacherDashboard;
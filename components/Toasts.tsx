@@ -0,0 +1,56 @@
+import React, { useEffect, useState } from 'react';
+import { Message } from '../i18n';
+import { useI18n } from '../i18n/I18nContext';
+
+export interface Toast {
+  key: string; // What it announces, e.g. `level:ADVANCED`; the same thing is never shown twice at once
+  icon: string;
+  title: Message;
+  detail: string; // Message key or plain text, like level names
+}
+
+interface ToastsProps {
+  toasts: Toast[];
+  onDismiss: (key: string) => void;
+}
+
+// How long each toast stays up (ms)
+const TOAST_MS = 4500;
+
+const ToastItem: React.FC<{ toast: Toast; onDismiss: (key: string) => void }> = ({ toast, onDismiss }) => {
+  const { tm, text } = useI18n();
+  const [shown, setShown] = useState(false); // Flipped after the first paint so the entrance animates
+
+  useEffect(() => {
+    const frame = requestAnimationFrame(() => setShown(true));
+    const timer = setTimeout(() => onDismiss(toast.key), TOAST_MS);
+    return () => {
+      cancelAnimationFrame(frame);
+      clearTimeout(timer);
+    };
+  }, [toast.key, onDismiss]);
+
+  return (
+    <button
+      onClick={() => onDismiss(toast.key)}
+      className={`flex items-center gap-3 w-72 rounded-xl bg-white border-2 border-amber-300 shadow-lg px-4 py-3 text-left transition-all duration-500 ${
+        shown ? 'opacity-100 translate-y-0 scale-100' : 'opacity-0 translate-y-6 scale-90'
+      }`}
+    >
+      <span className="text-3xl">{toast.icon}</span>
+      <span className="flex flex-col">
+        <span className="text-xs font-bold text-amber-600">{tm(toast.title)}</span>
+        <span className="font-bold text-slate-700">{text(toast.detail)}</span>
+      </span>
+    </button>
+  );
+};
+
+// Newest at the bottom, in the corner away from the canvas controls
+const Toasts: React.FC<ToastsProps> = ({ toasts, onDismiss }) => (
+  <div className="fixed bottom-4 right-4 z-50 flex flex-col items-end gap-2" aria-live="polite">
+    {toasts.map(toast => <ToastItem key={toast.key} toast={toast} onDismiss={onDismiss} />)}
+  </div>
+);
+
+export default Toasts;
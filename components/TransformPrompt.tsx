@@ -0,0 +1,30 @@
+import React from 'react';
+import { useI18n } from '../i18n/I18nContext';
+import { TransformTask, describeTransform } from '../utils/transforms';
+
+interface TransformPromptProps {
+  task: TransformTask;
+  themeColor: string;
+}
+
+// The starting point, then each change as a numbered step
+const TransformPrompt: React.FC<TransformPromptProps> = ({ task, themeColor }) => {
+  const { t, tm } = useI18n();
+  const { label, x, y } = task.start;
+
+  return (
+    <div className="flex flex-col items-center gap-2 text-center">
+      <div className={`text-lg font-bold text-${themeColor}-700`}>{t('transform.from', { label, x, y })}</div>
+      <ol className="flex flex-col gap-1 text-left">
+        {task.steps.map((step, i) => (
+          <li key={i} className="flex items-center gap-2 text-sm font-bold text-slate-600">
+            <span className={`w-6 h-6 flex items-center justify-center rounded-full text-xs text-white bg-${themeColor}-500`}>{i + 1}</span>
+            {tm(describeTransform(step))}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default TransformPrompt;
@@ -0,0 +1,57 @@
+import React from 'react';
+import { useI18n } from '../i18n/I18nContext';
+import { ACHIEVEMENTS } from '../utils/achievements';
+
+interface TrophyCaseProps {
+  earned: Record<string, number>; // Achievement id -> when it was earned
+  studentName: string;
+  onClose: () => void;
+}
+
+// Every achievement, earned ones in colour with the date, the rest greyed out with how to get them
+const TrophyCase: React.FC<TrophyCaseProps> = ({ earned, studentName, onClose }) => {
+  const { t, info } = useI18n();
+  const count = ACHIEVEMENTS.filter(a => a.id in earned).length;
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 flex items-center justify-center p-4 z-50" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-xl w-full max-w-2xl max-h-full overflow-y-auto p-6"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-2">
+          <h2 className="text-2xl text-slate-800 fun-font">{t('trophies.title')} · {studentName}</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 text-2xl leading-none">×</button>
+        </div>
+        <p className="text-sm text-slate-500 mb-4">{t('trophies.count', { count, total: ACHIEVEMENTS.length })}</p>
+
+        <ul className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {ACHIEVEMENTS.map(a => {
+            const at = earned[a.id];
+            return (
+              <li
+                key={a.id}
+                className={`flex items-center gap-3 rounded-xl border-2 px-4 py-3 ${
+                  at !== undefined ? 'border-amber-300 bg-amber-50' : 'border-slate-200 bg-slate-50'
+                }`}
+              >
+                <span className={`text-3xl ${at !== undefined ? '' : 'grayscale opacity-40'}`}>{a.icon}</span>
+                <span className="flex flex-col">
+                  <span className={`font-bold ${at !== undefined ? 'text-slate-700' : 'text-slate-400'}`}>{t(a.name)}</span>
+                  <span className="text-xs text-slate-500">{t(a.description)}</span>
+                  {at !== undefined && (
+                    <span className="text-xs font-bold text-amber-600">
+                      {t('trophies.earnedOn', { date: new Date(at).toLocaleDateString(info.htmlLang) })}
+                    </span>
+                  )}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default TrophyCase;
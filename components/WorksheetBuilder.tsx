@@ -0,0 +1,162 @@
+import React, { useMemo, useState } from 'react';
+import { GameConfig } from '../types';
+import { MessageKey } from '../i18n';
+import { useI18n } from '../i18n/I18nContext';
+import { escapeXml } from '../utils/gridDrawing';
+import { randomSeedText } from '../utils/random';
+import { MAX_WORKSHEET_POINTS, WorksheetKind, createWorksheet, renderWorksheet } from '../utils/worksheet';
+
+interface WorksheetBuilderProps {
+  levels: Record<string, GameConfig>;
+  initialLevel: string; // Level id to start from, usually the one being played
+  onClose: () => void;
+}
+
+const KINDS: [WorksheetKind, MessageKey][] = [
+  ['plot', 'worksheet.kindPlot'],
+  ['name', 'worksheet.kindName'],
+  ['plotJoin', 'worksheet.kindPlotJoin']
+];
+
+const COUNTS = [4, 6, 8, 10, MAX_WORKSHEET_POINTS];
+
+const svgUrl = (svg: string) => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+
+const downloadSvg = (filename: string, svg: string) => {
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+// Both pages in a bare window, one per sheet of paper; the browser's print dialog can also save a PDF
+const printPages = (title: string, pages: string[]) => {
+  const win = window.open('', '_blank');
+  if (!win) return;
+  win.document.write(
+    `<!DOCTYPE html><html><head><title>${escapeXml(title)}</title><style>`
+    + '@page { size: A4; margin: 0; } body { margin: 0; } '
+    + '.page { width: 210mm; height: 297mm; page-break-after: always; } .page svg { display: block; }'
+    + `</style></head><body>${pages.map(svg => `<div class="page">${svg}</div>`).join('')}</body></html>`
+  );
+  win.document.close();
+  win.focus();
+  win.print();
+};
+
+// Teachers pick a level, question type and seed; the same choices always give the same sheet
+const WorksheetBuilder: React.FC<WorksheetBuilderProps> = ({ levels, initialLevel, onClose }) => {
+  const { t, text, info } = useI18n();
+  const [levelId, setLevelId] = useState(initialLevel in levels ? initialLevel : Object.keys(levels)[0]);
+  const [kind, setKind] = useState<WorksheetKind>('plot');
+  const [count, setCount] = useState(8);
+  const [seed, setSeed] = useState(() => randomSeedText());
+
+  const config = levels[levelId];
+  const levelName = text(config.name);
+  const pages = useMemo(() => {
+    const sheet = createWorksheet({ config, kind, count, seed });
+    return renderWorksheet(sheet, levelName, t, info.fontFamily);
+  }, [config, kind, count, seed, levelName, t, info]);
+
+  const filename = (part: string) => `worksheet-${config.id}-${kind}-${seed || 'blank'}-${part}.svg`;
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 flex items-center justify-center p-4 z-50" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-xl w-full max-w-3xl max-h-full overflow-y-auto p-6"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl text-slate-800 fun-font">{t('worksheet.heading')}</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 text-2xl leading-none">×</button>
+        </div>
+
+        <p className="text-sm text-slate-500 mb-4">{t('worksheet.intro')}</p>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <label className="flex flex-col text-xs font-bold text-slate-500 gap-1">
+            {t('worksheet.level')}
+            <select
+              value={levelId}
+              onChange={e => setLevelId(e.target.value)}
+              className="rounded-md border-2 border-slate-200 px-2 py-1 text-sm text-slate-700"
+            >
+              {Object.keys(levels).map(id => (
+                <option key={id} value={id}>{text(levels[id].name)}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="flex flex-col text-xs font-bold text-slate-500 gap-1">
+            {t('worksheet.kind')}
+            <select
+              value={kind}
+              onChange={e => setKind(e.target.value as WorksheetKind)}
+              className="rounded-md border-2 border-slate-200 px-2 py-1 text-sm text-slate-700"
+            >
+              {KINDS.map(([value, key]) => <option key={value} value={value}>{t(key)}</option>)}
+            </select>
+          </label>
+
+          <label className="flex flex-col text-xs font-bold text-slate-500 gap-1">
+            {t('worksheet.count')}
+            <select
+              value={count}
+              onChange={e => setCount(Number(e.target.value))}
+              className="rounded-md border-2 border-slate-200 px-2 py-1 text-sm text-slate-700"
+            >
+              {COUNTS.map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </label>
+
+          <label className="flex flex-col text-xs font-bold text-slate-500 gap-1">
+            {t('worksheet.seed')}
+            <div className="flex gap-1">
+              <input
+                value={seed}
+                onChange={e => setSeed(e.target.value)}
+                className="min-w-0 flex-1 rounded-md border-2 border-slate-200 px-2 py-1 text-sm text-slate-700 font-mono focus:outline-none focus:border-violet-500"
+              />
+              <button
+                onClick={() => setSeed(randomSeedText())}
+                title={t('worksheet.newSeed')}
+                className="px-2 rounded-md border-2 border-slate-200 hover:bg-slate-50"
+              >
+                🎲
+              </button>
+            </div>
+          </label>
+        </div>
+
+        <div className="mt-6 grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {([['worksheet.sheet', pages.questions, 'questions'], ['worksheet.answerKey', pages.answers, 'answers']] as const).map(([key, svg, part]) => (
+            <div key={part} className="flex flex-col gap-2">
+              <div className="text-sm font-bold text-slate-400">{t(key)}</div>
+              <img src={svgUrl(svg)} alt={t(key)} className="w-full border border-slate-200 rounded-lg shadow-sm" />
+              <button
+                onClick={() => downloadSvg(filename(part), svg)}
+                className="px-3 py-1 rounded-lg text-sm font-bold border-2 border-slate-200 text-slate-500 hover:bg-slate-50"
+              >
+                {t('worksheet.download')}
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="mt-6 flex justify-end">
+          <button
+            onClick={() => printPages(levelName, [pages.questions, pages.answers])}
+            className="px-4 py-1.5 rounded-lg font-bold text-white bg-violet-500 hover:bg-violet-600"
+          >
+            {t('worksheet.print')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WorksheetBuilder;
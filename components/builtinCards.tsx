@@ -0,0 +1,168 @@
+import React from 'react';
+import { LabeledPoint, Point } from '../types';
+import { Translate } from '../i18n';
+import { useI18n } from '../i18n/I18nContext';
+import { FIND_POINT, NAME_POINT, PLOT_SHAPE, POINT_DIRECTION, PREDICT_SCRIPT, READ_DIRECTION, Round, TRANSFORM } from '../engine';
+import { spokenMessage, spokenNumber, spokenPoint, spokenSentences } from '../utils/audio';
+import { describeShapeTask } from '../utils/shapeTasks';
+import { describeTransform } from '../utils/transforms';
+import { formatMotionBlock } from '../utils/scratchMotion';
+import { directionPoint, ringRadius } from '../utils/directions';
+import { PositionBlock, ProjectSprite } from '../utils/sb3';
+import { registerExerciseCard } from './exerciseCards';
+import CoordinateInput from './CoordinateInput';
+import DirectionInput from './DirectionInput';
+import MotionScript from './MotionScript';
+import ShapePrompt from './ShapePrompt';
+import TransformPrompt from './TransformPrompt';
+
+// Cards for the question types the engine ships with, registered as soon as this is imported
+
+const CardTitle: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <span className="text-slate-400 font-bold text-sm uppercase tracking-wider mb-2">{children}</span>
+);
+
+// An imported project's go to / glide question, in the sprite's name
+const projectBlockTitle = (block: PositionBlock, sprite: ProjectSprite, t: Translate) =>
+  t(block.op === 'glide' ? 'project.whereGlide' : 'project.whereGoto', { sprite: sprite.name });
+
+const namePointTitle = (round: Round<Point>, t: Translate) =>
+  round.project ? t('project.whereIs', { sprite: round.project.sprite.name }) : t('card.namePoint');
+
+// The coordinates in big print, or the project's block that leads there
+registerExerciseCard(FIND_POINT, {
+  Card: ({ round, config }) => {
+    const { t } = useI18n();
+    const { project } = round;
+    return project?.block ? (
+      <>
+        <CardTitle>{projectBlockTitle(project.block, project.sprite, t)}</CardTitle>
+        <MotionScript blocks={[project.block]} />
+      </>
+    ) : (
+      <>
+        <CardTitle>{t('card.findPoint')}</CardTitle>
+        <div className={`text-5xl font-black text-${config.themeColor}-600 fun-font`}>
+          ({round.target.x}, {round.target.y})
+        </div>
+      </>
+    );
+  },
+  spoken: (round, t) => {
+    const { project } = round;
+    return project?.block
+      ? spokenSentences([projectBlockTitle(project.block, project.sprite, t), spokenMessage(formatMotionBlock(project.block), t)], t)
+      : t('speech.findPoint', { point: spokenPoint(round.target, t) });
+  },
+  hint: 'canvas.hintFind'
+});
+
+registerExerciseCard(NAME_POINT, {
+  Card: ({ round, config, solved, onSubmit }) => {
+    const { t } = useI18n();
+    return (
+      <>
+        <CardTitle>{namePointTitle(round, t)}</CardTitle>
+        <CoordinateInput key={round.number} themeColor={config.themeColor} disabled={solved} onSubmit={onSubmit} />
+      </>
+    );
+  },
+  spoken: namePointTitle,
+  hint: 'canvas.hintName'
+});
+
+registerExerciseCard(PLOT_SHAPE, {
+  Card: ({ round, config, onUndo }) => {
+    const { t } = useI18n();
+    return (
+      <>
+        <CardTitle>{t('card.plotShape')}</CardTitle>
+        <ShapePrompt
+          task={round.task}
+          placedCount={round.answers.length}
+          themeColor={config.themeColor}
+          canUndo={round.answers.length > 0 && !round.over}
+          onUndo={onUndo}
+        />
+      </>
+    );
+  },
+  spoken: (round, t) => {
+    const vertex = (p: LabeledPoint) => t('speech.vertex', { label: p.label, point: spokenPoint(p, t) });
+    return spokenSentences([t('card.plotShape'), spokenMessage(describeShapeTask(round.task, vertex), t)], t);
+  },
+  hint: 'canvas.hintShape'
+});
+
+registerExerciseCard(POINT_DIRECTION, {
+  Card: ({ round }) => {
+    const { t } = useI18n();
+    const { direction, tier } = round.task;
+    return (
+      <>
+        <CardTitle>{t('card.pointDirection')}</CardTitle>
+        <MotionScript blocks={[{ op: 'pointInDirection', direction }]} />
+        <span className="mt-3 text-xs text-slate-400">{t('direction.tier', { step: tier.step, tolerance: tier.tolerance })}</span>
+      </>
+    );
+  },
+  spoken: (round, t) => t('speech.pointDirection', { direction: spokenNumber(round.task.direction, t) }),
+  hint: 'canvas.hintPointDirection'
+});
+
+// The typed direction goes in as a point on the ring, like a click would
+registerExerciseCard(READ_DIRECTION, {
+  Card: ({ round, config, onSubmit }) => {
+    const { t } = useI18n();
+    const { tier } = round.task;
+    return (
+      <>
+        <CardTitle>{t('card.readDirection')}</CardTitle>
+        <DirectionInput
+          key={round.number}
+          themeColor={config.themeColor}
+          disabled={round.over}
+          onSubmit={typed => onSubmit(directionPoint(typed, ringRadius(config)))}
+        />
+        <span className="mt-3 text-xs text-slate-400">{t('direction.tier', { step: tier.step, tolerance: tier.tolerance })}</span>
+      </>
+    );
+  },
+  spoken: (_round, t) => t('card.readDirection'),
+  hint: 'canvas.hintReadDirection'
+});
+
+registerExerciseCard(TRANSFORM, {
+  Card: ({ round, config }) => {
+    const { t } = useI18n();
+    return (
+      <>
+        <CardTitle>{t('card.transform')}</CardTitle>
+        <TransformPrompt task={round.task} themeColor={config.themeColor} />
+      </>
+    );
+  },
+  spoken: (round, t) => {
+    const { label, x, y } = round.task.start;
+    return spokenSentences([
+      t('card.transform'),
+      spokenMessage({ key: 'transform.from', params: { label, x, y } }, t),
+      ...round.task.steps.map(step => spokenMessage(describeTransform(step), t))
+    ], t);
+  },
+  hint: 'canvas.hintTransform'
+});
+
+registerExerciseCard(PREDICT_SCRIPT, {
+  Card: ({ round }) => {
+    const { t } = useI18n();
+    return (
+      <>
+        <CardTitle>{t('card.predictScript')}</CardTitle>
+        <MotionScript blocks={round.task} />
+      </>
+    );
+  },
+  spoken: (round, t) => spokenSentences([t('card.predictScript'), ...round.task.map(block => spokenMessage(formatMotionBlock(block), t))], t),
+  hint: 'canvas.hintFind'
+});
@@ -0,0 +1,35 @@
+import React from 'react';
+import { GameConfig, Point, QuestionType } from '../types';
+import { MessageKey, Translate } from '../i18n';
+import { ExerciseType, Round } from '../engine';
+
+// The screen side of each question type: what it puts on the target card and how it's read out.
+// The engine stays free of React, so these are kept apart from it and looked up by question type.
+
+export interface CardProps<Task = unknown> {
+  round: Round<Task>;
+  config: GameConfig;
+  solved: boolean; // Answered right; typed answers lock until the next round
+  onSubmit: (point: Point) => void; // A typed answer, as a point like the engine takes it
+  onUndo: () => void; // Takes back the last click
+}
+
+export interface ExerciseCard<Task = unknown> {
+  Card: React.FC<CardProps<Task>>; // The question on the target card, with any answer inputs
+  spoken: (round: Round<Task>, t: Translate) => string; // The same question read out loud, signs and all
+  hint: MessageKey; // How to answer, under the canvas
+}
+
+const REGISTRY = new Map<QuestionType, ExerciseCard>();
+
+// Adds or replaces the card for the exercise type's question type
+export const registerExerciseCard = <Task>(exercise: ExerciseType<Task>, card: ExerciseCard<Task>): ExerciseCard<Task> => {
+  REGISTRY.set(exercise.type, card as ExerciseCard);
+  return card;
+};
+
+export const exerciseCardOf = (type: QuestionType): ExerciseCard => {
+  const card = REGISTRY.get(type);
+  if (!card) throw new Error(`No exercise card registered for ${type}`);
+  return card;
+};
@@ -1,12 +1,14 @@
-import { DifficultyLevel, GameConfig } from './types';
+import { DifficultyLevel, GameConfig, QuestionType } from './types';
 
+// Each built-in mode unlocks once the one before it has this many hits; Expert also wants them to be accurate.
+// Modes without `unlock` (Intro, Directions) are open from the start.
 export const UNLOCK_THRESHOLD = 20;
 
 export const GAME_MODES: Record<DifficultyLevel, GameConfig> = {
   [DifficultyLevel.Intro]: {
     id: DifficultyLevel.Intro,
-    name: "🟢 入门模式",
-    description: "数格子 (第一象限)",
+    name: "modes.intro.name",
+    description: "modes.intro.description",
     xRange: [0, 10],
     yRange: [0, 10],
     gridStep: 1,
@@ -14,12 +16,14 @@ export const GAME_MODES: Record<DifficultyLevel, GameConfig> = {
     targetStep: 1,
     tolerance: 0.4,
     themeColor: "emerald",
-    originPos: 'bottom-left'
+    originPos: 'bottom-left',
+    questionTypes: [QuestionType.FindPoint, QuestionType.NamePoint, QuestionType.PlotShape],
+    targetPolicy: 'adaptive'
   },
   [DifficultyLevel.Advanced]: {
     id: DifficultyLevel.Advanced,
-    name: "🔵 进阶模式",
-    description: "认识负数 (四象限)",
+    name: "modes.advanced.name",
+    description: "modes.advanced.description",
     xRange: [-10, 10],
     yRange: [-10, 10],
     gridStep: 1,
@@ -27,12 +31,15 @@ export const GAME_MODES: Record<DifficultyLevel, GameConfig> = {
     targetStep: 1,
     tolerance: 0.4,
     themeColor: "blue",
-    originPos: 'center'
+    originPos: 'center',
+    questionTypes: [QuestionType.FindPoint, QuestionType.NamePoint, QuestionType.PlotShape, QuestionType.Transform],
+    targetPolicy: 'adaptive',
+    unlock: [{ kind: 'hits', level: DifficultyLevel.Intro, count: UNLOCK_THRESHOLD }]
   },
   [DifficultyLevel.Challenge]: {
     id: DifficultyLevel.Challenge,
-    name: "🟠 挑战模式",
-    description: "大跨度练习 (以10计数)",
+    name: "modes.challenge.name",
+    description: "modes.challenge.description",
     xRange: [-50, 50],
     yRange: [-50, 50],
     gridStep: 5,
@@ -41,12 +48,15 @@ export const GAME_MODES: Record<DifficultyLevel, GameConfig> = {
     targetStep: 5,
     tolerance: 3.5,
     themeColor: "orange",
-    originPos: 'center'
+    originPos: 'center',
+    questionTypes: [QuestionType.FindPoint, QuestionType.NamePoint, QuestionType.PlotShape, QuestionType.Transform],
+    targetPolicy: 'adaptive',
+    unlock: [{ kind: 'hits', level: DifficultyLevel.Advanced, count: UNLOCK_THRESHOLD }]
   },
   [DifficultyLevel.Hell]: {
     id: DifficultyLevel.Hell,
-    name: "🔴 地狱模式",
-    description: "Scratch 标准舞台",
+    name: "modes.hell.name",
+    description: "modes.hell.description",
     xRange: [-240, 240],
     yRange: [-180, 180],
     gridStep: 20,
@@ -55,6 +65,28 @@ export const GAME_MODES: Record<DifficultyLevel, GameConfig> = {
     targetStep: 10,
     tolerance: 15,
     themeColor: "rose",
-    originPos: 'center'
+    originPos: 'center',
+    questionTypes: [QuestionType.FindPoint, QuestionType.NamePoint, QuestionType.PredictScript, QuestionType.Transform],
+    targetPolicy: 'adaptive',
+    unlock: [
+      { kind: 'hits', level: DifficultyLevel.Challenge, count: UNLOCK_THRESHOLD },
+      { kind: 'precision', level: DifficultyLevel.Challenge, min: 0.6 }
+    ]
+  },
+  [DifficultyLevel.Direction]: {
+    id: DifficultyLevel.Direction,
+    name: "modes.direction.name",
+    description: "modes.direction.description",
+    xRange: [-240, 240],
+    yRange: [-180, 180],
+    gridStep: 20,
+    majorGridStep: 100,
+    labelStep: 100,
+    targetStep: 10,
+    tolerance: 15, // Direction rounds use the angular tolerance of their tier instead
+    themeColor: "cyan",
+    originPos: 'center',
+    questionTypes: [QuestionType.PointDirection, QuestionType.ReadDirection],
+    targetPolicy: 'uniform'
   }
-};
\ No newline at end of file
+};
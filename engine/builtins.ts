@@ -0,0 +1,210 @@
+import { GameConfig, Point, QuestionType } from '../types';
+import { EvaluateContext, ExerciseOverlay, ExerciseType, GenerateContext, Round, isRoundOf, registerExerciseType } from './exercises';
+import { scoreAnswer, scoreWithin } from '../utils/scoring';
+import { classifyDirectionMiss, classifyMiss } from '../utils/misconceptions';
+import { pickTarget } from '../utils/targetScheduler';
+import { precisionOf, snapTo } from '../utils/gridDrawing';
+import { MotionBlock, generateMotionScript, runMotionScript } from '../utils/scratchMotion';
+import { ShapeTask, checkShape, generateShapeTask, labelPlaced, shapeSegments } from '../utils/shapeTasks';
+import { TransformTask, generateTransformTask, transformPath } from '../utils/transforms';
+import { DirectionTier, angleBetween, directionOf, directionPoint, directionTier, randomDirection, ringRadius } from '../utils/directions';
+
+// The question types the app ships with, registered as soon as the engine is imported
+
+// Euclidean distance in LOGICAL units, scored against the level's tolerance
+const gradePoint = (answer: Point, expected: Point, { config, timeMs }: EvaluateContext) => {
+  const distance = Math.sqrt((answer.x - expected.x) ** 2 + (answer.y - expected.y) ** 2);
+  const score = scoreAnswer(distance, timeMs, config);
+  return { answer, expected, distance, score, diagnosis: score.success ? null : classifyMiss(expected, answer, config) };
+};
+
+// A target the student hasn't just been asked and is still learning, from this level's history
+const scheduledTarget = ({ config, random, attempts, previous }: GenerateContext) => {
+  const target = pickTarget(config, attempts, [...attempts.map(a => a.target), ...(previous ? [previous.target] : [])], random);
+  return { task: target, target };
+};
+
+// Find a point: the coordinates are on the card, the answer is a click; a miss can be tried again
+export const FIND_POINT = registerExerciseType<Point>({
+  type: QuestionType.FindPoint,
+  input: 'click',
+  generate: scheduledTarget,
+  evaluate: (round, [answer], context) => {
+    const graded = gradePoint(answer, round.target, context);
+    const precision = precisionOf(context.config);
+    return {
+      ...graded,
+      roundOver: graded.score.success,
+      feedback: graded.score.success
+        ? { key: 'feedback.hit' }
+        : { key: 'feedback.missClick', params: { x: snapTo(answer.x, precision), y: snapTo(answer.y, precision) } },
+      placed: [answer]
+    };
+  }
+});
+
+// Name a point: it's marked on the canvas, the coordinates are typed
+export const NAME_POINT = registerExerciseType<Point>({
+  type: QuestionType.NamePoint,
+  input: 'typed',
+  generate: scheduledTarget,
+  evaluate: (round, [answer], context) => {
+    const graded = gradePoint(answer, round.target, context);
+    return {
+      ...graded,
+      roundOver: graded.score.success,
+      feedback: graded.score.success ? { key: 'feedback.hit' } : { key: 'feedback.missTyped', params: { x: answer.x, y: answer.y } }
+    };
+  },
+  overlay: () => ({ showTarget: true })
+});
+
+// Plot a shape: one click per missing vertex, graded on the worst one once they're all in.
+// The solution goes on the canvas after a miss, so the shape is done either way.
+export const PLOT_SHAPE = registerExerciseType<ShapeTask>({
+  type: QuestionType.PlotShape,
+  input: 'click',
+  generate: ({ config, random }) => {
+    const task = generateShapeTask(config, random);
+    return { task, target: task.answers[0] };
+  },
+  answersNeeded: task => task.answers.length,
+  evaluate: (round, answers, context) => {
+    const results = checkShape(round.task, answers, context.config.tolerance);
+    const worst = results.reduce((a, b) => (b.distance > a.distance ? b : a));
+    const graded = gradePoint(worst.placed, worst.expected, context);
+    return {
+      ...graded,
+      roundOver: true,
+      feedback: graded.score.success
+        ? { key: 'feedback.shapeHit' }
+        : { key: 'feedback.shapeMiss', params: { count: results.filter(r => !r.success).length } },
+      placed: labelPlaced(round.task, answers)
+    };
+  },
+  overlay: (round, { config }) => {
+    const results = round.over ? checkShape(round.task, round.answers, config.tolerance) : null;
+    return {
+      shape: {
+        segments: shapeSegments(round.task, round.answers),
+        given: round.task.given,
+        placed: labelPlaced(round.task, round.answers),
+        results: results?.map(r => r.success) ?? null,
+        solution: results?.filter(r => !r.success).map(r => r.expected) ?? null
+      }
+    };
+  },
+  nextFeedback: 'feedback.nextShape'
+});
+
+// Predict a script: the target is wherever the interpreter says the sprite stops.
+// The replay gives the answer away, so the round ends after one try.
+export const PREDICT_SCRIPT = registerExerciseType<MotionBlock[]>({
+  type: QuestionType.PredictScript,
+  input: 'click',
+  generate: ({ config, random }) => {
+    const blocks = generateMotionScript(config, random);
+    const { final } = runMotionScript(blocks, config);
+    return { task: blocks, target: { x: final.x, y: final.y } };
+  },
+  evaluate: (round, [answer], context) => {
+    const graded = gradePoint(answer, round.target, context);
+    return {
+      ...graded,
+      roundOver: true,
+      feedback: graded.score.success ? { key: 'feedback.hit' } : { key: 'feedback.missScript', params: { x: round.target.x, y: round.target.y } },
+      path: runMotionScript(round.task, context.config).trace,
+      placed: [answer]
+    };
+  },
+  nextFeedback: 'feedback.nextScript'
+});
+
+// A chain of changes: the point slides, flips and swings to where it lands, which ends the round too
+export const TRANSFORM = registerExerciseType<TransformTask>({
+  type: QuestionType.Transform,
+  input: 'click',
+  generate: ({ config, random }) => {
+    const task = generateTransformTask(config, random);
+    return { task, target: task.end };
+  },
+  evaluate: (round, [answer], context) => {
+    const graded = gradePoint(answer, round.target, context);
+    return {
+      ...graded,
+      roundOver: true,
+      feedback: graded.score.success ? { key: 'feedback.hit' } : { key: 'feedback.missTransform', params: { x: round.target.x, y: round.target.y } },
+      path: transformPath(round.task),
+      placed: [answer]
+    };
+  },
+  // The starting point, labelled like a vertex
+  overlay: round => ({ shape: { segments: [], given: [round.task.start], placed: [] } }),
+  nextFeedback: 'feedback.nextTransform'
+});
+
+// Direction rounds are judged in degrees, with the tier's tolerance either side
+export interface DirectionTask {
+  direction: number; // Scratch degrees
+  tier: DirectionTier;
+}
+
+// Multiples of 90 first, then 45, then 15 as the hits pile up
+const generateDirection = ({ config, random, previous, progress }: GenerateContext) => {
+  const tier = directionTier(progress);
+  const avoid = previous && (isRoundOf(previous, POINT_DIRECTION) || isRoundOf(previous, READ_DIRECTION)) ? previous.task.direction : undefined;
+  const direction = randomDirection(tier, avoid, random);
+  return { task: { direction, tier }, target: directionPoint(direction, ringRadius(config)) };
+};
+
+// Answers are points on the ring, clicked or typed as a direction
+const evaluateDirection: ExerciseType<DirectionTask>['evaluate'] = (round, [point], { config, timeMs }) => {
+  const { direction, tier } = round.task;
+  const answered = directionOf(point);
+  const distance = angleBetween(answered, direction);
+  const score = scoreWithin(distance, timeMs, tier.tolerance, tier.tolerance);
+  return {
+    answer: directionPoint(answered, ringRadius(config)),
+    expected: round.target,
+    distance,
+    score,
+    // The right arrow is on the ring now, so move on after a look
+    roundOver: true,
+    feedback: score.success
+      ? { key: 'feedback.directionHit', params: { direction } }
+      : { key: 'feedback.missDirection', params: { answer: answered, direction } },
+    diagnosis: score.success ? null : classifyDirectionMiss(direction, answered, tier.tolerance)
+  };
+};
+
+// The arrow to read or the one following the pointer; once answered, theirs and after a miss the right one
+const directionOverlay = (round: Round<DirectionTask>, config: GameConfig, shown: boolean, aim: Point | null): ExerciseOverlay => ({
+  direction: {
+    radius: ringRadius(config),
+    shown: shown ? round.task.direction : null,
+    aim: aim && (aim.x !== 0 || aim.y !== 0) ? directionOf(aim) : null,
+    answer: round.over ? directionOf(round.answers[0]) : null,
+    expected: round.over && !round.evaluation?.score.success ? round.task.direction : null
+  }
+});
+
+// Point in a direction: the arrow follows the pointer, and the sprite itself doesn't point anywhere
+export const POINT_DIRECTION = registerExerciseType<DirectionTask>({
+  type: QuestionType.PointDirection,
+  input: 'click',
+  generate: generateDirection,
+  accepts: p => p.x !== 0 || p.y !== 0,
+  evaluate: evaluateDirection,
+  overlay: (round, { config, hover }) => directionOverlay(round, config, false, hover),
+  nextFeedback: 'feedback.nextDirection'
+});
+
+// Read a direction: the arrow is drawn, the direction is typed
+export const READ_DIRECTION = registerExerciseType<DirectionTask>({
+  type: QuestionType.ReadDirection,
+  input: 'typed',
+  generate: generateDirection,
+  evaluate: evaluateDirection,
+  overlay: (round, { config }) => directionOverlay(round, config, true, null),
+  nextFeedback: 'feedback.nextDirection'
+});
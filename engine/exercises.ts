@@ -0,0 +1,94 @@
+import { AttemptRecord, DirectionOverlay, GameConfig, LabeledPoint, Point, QuestionType, ShapeOverlay } from '../types';
+import { Message, MessageKey } from '../i18n';
+import { Random } from '../utils/random';
+import { RoundScore } from '../utils/scoring';
+import { MissDiagnosis } from '../utils/misconceptions';
+import { ProjectTarget } from '../utils/sb3';
+
+// Every kind of question plugs in here with its own generator, evaluator and canvas overlay.
+// The engine only ever talks to a round through its exercise type, so adding a question type
+// means registering one more of these, not touching the session logic.
+
+// One question on screen
+export interface Round<Task = unknown> {
+  number: number; // Counts up across sessions, so per-round inputs can reset on it
+  type: QuestionType;
+  task: Task; // Whatever the exercise type needs to ask and grade it
+  target: Point; // The point it's about: marked on the canvas, read out loud
+  project: ProjectTarget | null; // The imported project's question it asks, if any
+  startedAt: number;
+  answers: Point[]; // Clicks towards the answer so far; a shape takes one per vertex
+  evaluation: Evaluation | null; // The last graded answer
+  path: Point[] | null; // Played back on the canvas once answered
+  over: boolean; // Answered for good; the next round is on its way
+}
+
+export interface GenerateContext {
+  config: GameConfig;
+  random: Random; // Seeded in challenges, so everyone gets the same rounds
+  attempts: AttemptRecord[]; // This level's history; empty in challenges, which ignore it
+  previous: Round | null; // The round before, to avoid asking the same again; null in challenges
+  progress: number; // Hits in this level, or the round number in a challenge
+}
+
+export interface EvaluateContext {
+  config: GameConfig;
+  timeMs: number; // Since the round came up
+}
+
+export interface OverlayContext {
+  config: GameConfig;
+  hover: Point; // Where the pointer is, for things that follow it
+}
+
+export interface Evaluation {
+  answer: Point; // Recorded as the attempt's clickPos
+  expected: Point; // Recorded as its target
+  distance: number; // In grid units, or degrees for directions
+  score: RoundScore;
+  roundOver: boolean; // A miss that isn't leaves the question up for another try
+  feedback: Message;
+  diagnosis: MissDiagnosis | null; // Only after a miss
+  path?: Point[];
+  placed?: (Point & { label?: string })[]; // Kept for the Scratch export; unlabelled points get numbered
+}
+
+// What a round adds to the canvas besides the grid, the result and the played-back path
+export interface ExerciseOverlay {
+  showTarget?: boolean; // Mark the target itself, for questions that ask to read it
+  shape?: ShapeOverlay | null;
+  direction?: DirectionOverlay | null;
+}
+
+export interface ExerciseType<Task = unknown> {
+  type: QuestionType;
+  input: 'click' | 'typed'; // Typed answers come from the target card instead of the canvas
+  generate: (context: GenerateContext) => { task: Task; target: Point };
+  evaluate: (round: Round<Task>, answers: Point[], context: EvaluateContext) => Evaluation;
+  answersNeeded?: (task: Task) => number; // Clicks that make up one answer, 1 unless given
+  accepts?: (point: Point) => boolean; // Clicks it ignores, e.g. on the sprite itself
+  overlay?: (round: Round<Task>, context: OverlayContext) => ExerciseOverlay;
+  nextFeedback?: MessageKey; // Shown when a missed round moves on; after a hit it's always 'feedback.next'
+}
+
+const REGISTRY = new Map<QuestionType, ExerciseType>();
+
+// Adds or replaces the exercise type for its question type
+export const registerExerciseType = <Task>(exercise: ExerciseType<Task>): ExerciseType<Task> => {
+  REGISTRY.set(exercise.type, exercise as ExerciseType);
+  return exercise;
+};
+
+export const exerciseTypeOf = (type: QuestionType): ExerciseType => {
+  const exercise = REGISTRY.get(type);
+  if (!exercise) throw new Error(`No exercise type registered for ${type}`);
+  return exercise;
+};
+
+// Narrows a round to the task type of the exercise that asked it
+export const isRoundOf = <Task>(round: Round, exercise: ExerciseType<Task>): round is Round<Task> =>
+  round.type === exercise.type;
+
+// Numbers points that come without a label in the order they were placed, after those already there
+export const labelPoints = (existing: LabeledPoint[], placed: (Point & { label?: string })[] = []): LabeledPoint[] =>
+  placed.reduce<LabeledPoint[]>((all, p) => [...all, { ...p, label: p.label ?? String(all.length + 1) }], existing);
@@ -0,0 +1,213 @@
+import { describe, expect, it } from 'vitest';
+import { AttemptRecord, DifficultyLevel, GameConfig, Point, QuestionType, SessionType } from '../types';
+import { GAME_MODES, UNLOCK_THRESHOLD } from '../constants';
+import { Challenge } from '../utils/challenge';
+import { seededRandom } from '../utils/random';
+import { ShapeTask } from '../utils/shapeTasks';
+import { EngineEvent, EngineOptions, createGameEngine, hitsToUnlock, isLevelOpen, levelLocks, recordAttempt } from './index';
+
+const INTRO = GAME_MODES[DifficultyLevel.Intro];
+const only = (type: QuestionType, config: GameConfig = INTRO): GameConfig => ({ ...config, questionTypes: [type] });
+
+// An engine on a hand-wound clock: `advance` moves time on, `flush` brings up the next round
+const setup = (options: Partial<EngineOptions> = {}) => {
+  let time = 1000;
+  let pending: (() => void)[] = [];
+  const events: EngineEvent[] = [];
+  const engine = createGameEngine({
+    config: only(QuestionType.FindPoint),
+    random: seededRandom(42),
+    now: () => time,
+    onEvent: event => events.push(event),
+    schedule: run => {
+      pending.push(run);
+      return () => { pending = pending.filter(r => r !== run); };
+    },
+    ...options
+  });
+  return {
+    engine,
+    events,
+    pending: () => pending.length,
+    advance: (ms: number) => { time += ms; },
+    flush: () => {
+      const runs = pending;
+      pending = [];
+      runs.forEach(run => run());
+    }
+  };
+};
+
+const away = (p: Point): Point => ({ x: p.x + 3, y: p.y + 3 });
+
+const finished = (events: EngineEvent[]) => events.filter(e => e.type === 'finished');
+
+describe('createGameEngine', () => {
+  it('starts practice right away and races after the start button', () => {
+    expect(setup().engine.getState().status).toBe('running');
+
+    const { engine } = setup({ sessionType: SessionType.FirstTo });
+    expect(engine.getState().status).toBe('ready');
+    engine.click(engine.getState().round.target);
+    expect(engine.getState().stats.attempts).toBe(0);
+
+    engine.start();
+    expect(engine.getState().status).toBe('running');
+    engine.click(engine.getState().round.target);
+    expect(engine.getState().stats.hits).toBe(1);
+  });
+
+  it('ends sudden death on the first miss', () => {
+    const { engine, events, flush } = setup({ sessionType: SessionType.SuddenDeath });
+    engine.start();
+    engine.click(engine.getState().round.target);
+    flush();
+    expect(engine.getState().status).toBe('running');
+
+    engine.click(away(engine.getState().round.target));
+    expect(engine.getState().status).toBe('finished');
+    expect(events.filter(e => e.type === 'answered').map(e => e.type === 'answered' && e.sessionOver)).toEqual([false, true]);
+    expect(finished(events)).toHaveLength(1);
+  });
+
+  it('ends first-to once the hits are in', () => {
+    const { engine, events, flush, pending } = setup({ sessionType: SessionType.FirstTo });
+    engine.start();
+    for (let hit = 1; hit < 20; hit++) {
+      engine.click(engine.getState().round.target);
+      flush();
+    }
+    expect(engine.getState().status).toBe('running');
+    engine.click(engine.getState().round.target);
+    expect(engine.getState().status).toBe('finished');
+    expect(engine.getState().stats.hits).toBe(20);
+    expect(pending()).toBe(0);
+    expect(finished(events)).toHaveLength(1);
+  });
+
+  it('ends a timed session when a tick finds the time up', () => {
+    const { engine, events, advance } = setup({ sessionType: SessionType.Timed });
+    engine.start();
+    const { startedAt } = engine.getState().clock;
+    advance(59_999);
+    engine.tick();
+    expect(engine.getState().status).toBe('running');
+
+    advance(5000);
+    engine.tick();
+    expect(engine.getState().status).toBe('finished');
+    expect(finished(events)).toEqual([expect.objectContaining({ startedAt, endedAt: startedAt + 60_000 })]);
+    engine.tick();
+    expect(finished(events)).toHaveLength(1);
+  });
+
+  it('keeps a find-point round up after a miss', () => {
+    const { engine, flush, pending } = setup();
+    const { round } = engine.getState();
+    engine.click(away(round.target));
+    const missed = engine.getState();
+    expect(missed.round.over).toBe(false);
+    expect(missed.round.answers).toEqual([]);
+    expect(missed.round.target).toEqual(round.target);
+    expect(missed.lastResult?.success).toBe(false);
+    expect(pending()).toBe(0);
+
+    engine.click(round.target);
+    expect(engine.getState().round.over).toBe(true);
+    expect(engine.getState().feedback).toEqual({ key: 'feedback.hit' });
+    flush();
+    expect(engine.getState().round.number).toBe(round.number + 1);
+    expect(engine.getState().feedback).toEqual({ key: 'feedback.next' });
+    expect(engine.getState().points.map(p => p.label)).toEqual(['1', '2']);
+  });
+
+  it('collects a shape one vertex at a time, with undo', () => {
+    const { engine, events } = setup({ config: only(QuestionType.PlotShape) });
+    const task = engine.getState().round.task as ShapeTask;
+    const [first, ...rest] = task.answers;
+    expect(rest.length).toBeGreaterThan(0); // This seed asks for a whole polygon
+
+    engine.click(away(first));
+    engine.undo();
+    expect(engine.getState().round.answers).toEqual([]);
+
+    [first, ...rest].forEach((p, i) => {
+      expect(engine.getState().round.over).toBe(false);
+      expect(engine.getState().round.answers).toHaveLength(i);
+      engine.click(p);
+    });
+    const { round, stats } = engine.getState();
+    expect(round.over).toBe(true);
+    expect(stats.attempts).toBe(1);
+    expect(engine.getState().feedback).toEqual({ key: 'feedback.shapeHit' });
+    expect(engine.getState().points.map(p => p.label)).toEqual(task.answers.map(p => p.label));
+
+    // Answered shapes stay as they are
+    engine.undo();
+    expect(engine.getState().round.answers).toHaveLength(task.answers.length);
+    expect(events.filter(e => e.type === 'answered')).toHaveLength(1);
+  });
+
+  it('asks a challenge\'s rounds the same way every time', () => {
+    const challenge: Challenge = { level: INTRO, seed: 'SEED42', rounds: 5 };
+    const play = (random: number) => {
+      const { engine, events, flush } = setup({ config: INTRO, source: { kind: 'challenge', challenge }, random: seededRandom(random) });
+      const asked: { type: QuestionType; target: Point }[] = [];
+      engine.start();
+      while (engine.getState().status === 'running') {
+        const { round } = engine.getState();
+        asked.push({ type: round.type, target: round.target });
+        const needed = round.type === QuestionType.PlotShape ? (round.task as ShapeTask).answers : [round.target];
+        if (round.type === QuestionType.NamePoint) engine.submit(round.target);
+        else needed.forEach(p => engine.click(p));
+        flush();
+      }
+      return { asked, engine, events };
+    };
+
+    const first = play(1);
+    expect(first.asked).toHaveLength(5);
+    expect(finished(first.events)).toHaveLength(1);
+    expect(play(2).asked).toEqual(first.asked);
+
+    // Playing again starts over from the challenge's first round
+    first.engine.start();
+    expect(first.engine.getState().round.target).toEqual(first.asked[0].target);
+  });
+});
+
+describe('progression', () => {
+  const hit = (mode: string, success = true): AttemptRecord => ({
+    mode,
+    questionType: QuestionType.FindPoint,
+    target: { x: 1, y: 1 },
+    clickPos: { x: 1, y: 1 },
+    distance: 0,
+    success,
+    timeMs: 1000,
+    timestamp: 0
+  });
+
+  it('counts hits towards the level they were in', () => {
+    const record = recordAttempt(recordAttempt({ attempts: [], progress: {} }, hit('INTRO')), hit('INTRO', false));
+    expect(record.attempts).toHaveLength(2);
+    expect(record.progress).toEqual({ INTRO: 1 });
+  });
+
+  it('opens a level once its conditions are met', () => {
+    const closed = levelLocks(GAME_MODES, { attempts: [], progress: { INTRO: UNLOCK_THRESHOLD - 1 } });
+    expect(isLevelOpen(closed, DifficultyLevel.Intro)).toBe(true);
+    expect(isLevelOpen(closed, DifficultyLevel.Advanced)).toBe(false);
+    expect(closed[DifficultyLevel.Advanced][0]).toMatchObject({ current: UNLOCK_THRESHOLD - 1, met: false });
+
+    const open = levelLocks(GAME_MODES, { attempts: [], progress: { INTRO: UNLOCK_THRESHOLD } });
+    expect(isLevelOpen(open, DifficultyLevel.Advanced)).toBe(true);
+    expect(isLevelOpen(open, DifficultyLevel.Challenge)).toBe(false);
+  });
+
+  it('knows how many hits open the next level', () => {
+    expect(hitsToUnlock(GAME_MODES, DifficultyLevel.Intro)).toBe(UNLOCK_THRESHOLD);
+    expect(hitsToUnlock(GAME_MODES, DifficultyLevel.Hell)).toBeNull();
+    expect(hitsToUnlock({ ...GAME_MODES, extra: { ...INTRO, id: 'extra', unlock: [{ kind: 'hits', level: 'INTRO', count: 5 }] } }, 'INTRO')).toBe(5);
+  });
+});
@@ -0,0 +1,298 @@
+import { AttemptRecord, GameConfig, LabeledPoint, Point, QuestionType, SessionType } from '../types';
+import { Message } from '../i18n';
+import { Random } from '../utils/random';
+import { RoundScore } from '../utils/scoring';
+import { MissDiagnosis } from '../utils/misconceptions';
+import { AchievementContext } from '../utils/achievements';
+import { Challenge, roundRandom } from '../utils/challenge';
+import { ScratchProject } from '../utils/sb3';
+import { SESSION_RULES, SessionStats, emptyStats, reachedGoal, recordAnswer, timeLeft } from '../utils/sessions';
+import { Evaluation, GenerateContext, Round, exerciseTypeOf, labelPoints } from './exercises';
+import { FIND_POINT, NAME_POINT } from './builtins';
+
+// The game without the screen: sessions, rounds, grading and what comes next. Nothing in here
+// touches React or the DOM, so it runs the same in the browser and in Node. The app renders
+// `getState()` and passes clicks and typed answers in; side effects (saving, sounds, the classroom)
+// hang off the events it sends out.
+
+export type { Evaluation, ExerciseOverlay, ExerciseType, GenerateContext, EvaluateContext, OverlayContext, Round } from './exercises';
+export { exerciseTypeOf, isRoundOf, registerExerciseType } from './exercises';
+export type { DirectionTask } from './builtins';
+export { FIND_POINT, NAME_POINT, PLOT_SHAPE, POINT_DIRECTION, PREDICT_SCRIPT, READ_DIRECTION, TRANSFORM } from './builtins';
+export { hitsToUnlock, isLevelOpen, levelLocks, recordAttempt } from './progression';
+
+export type SessionStatus = 'ready' | 'running' | 'finished';
+
+// Where rounds come from besides the level's own mix: an imported project's questions in order,
+// or a challenge code's seeded rounds
+export type RoundSource =
+  | { kind: 'project'; project: ScratchProject }
+  | { kind: 'challenge'; challenge: Challenge };
+
+// The last graded answer as the canvas shows it: on the target after a hit, where it landed after a miss
+export interface LastResult {
+  success: boolean;
+  clickPos: Point;
+  timestamp: number;
+  stars: number;
+}
+
+export interface EngineState {
+  config: GameConfig;
+  sessionType: SessionType;
+  source: RoundSource | null;
+  drawn: number; // Rounds taken from the source; a project wraps around, a challenge starts over with the session
+  status: SessionStatus;
+  round: Round;
+  stats: SessionStats; // Hits and streaks this session
+  clock: { startedAt: number; endedAt: number | null };
+  feedback: Message;
+  lastResult: LastResult | null;
+  roundScore: RoundScore | null; // Points for the last answer
+  diagnosis: MissDiagnosis | null; // Named mistake behind the last miss
+  points: LabeledPoint[]; // Everything placed on the grid this session, for the Scratch export
+}
+
+export type EngineEvent =
+  | { type: 'answered'; attempt: AttemptRecord; evaluation: Evaluation; sessionOver: boolean }
+  | { type: 'finished'; stats: SessionStats; startedAt: number; endedAt: number };
+
+export interface EngineOptions {
+  config: GameConfig;
+  sessionType?: SessionType;
+  source?: RoundSource | null;
+  record?: () => AchievementContext; // The student's history, read whenever a round is made
+  onEvent?: (event: EngineEvent) => void;
+  now?: () => number;
+  random?: Random; // For everything but challenges
+  schedule?: (run: () => void, ms: number) => () => void; // Returns a cancel function
+}
+
+export interface GameEngine {
+  getState: () => EngineState;
+  subscribe: (listener: () => void) => () => void;
+  reset: (change?: Partial<Pick<EngineState, 'config' | 'sessionType' | 'source'>>) => void;
+  start: () => void;
+  click: (point: Point) => void;
+  submit: (point: Point) => void;
+  undo: () => void;
+  tick: () => void;
+  setFeedback: (feedback: Message) => void;
+  stop: () => void;
+}
+
+// Challenges are always raced: start button, clock, and a summary after the last round
+export const isRaced = ({ sessionType, source }: Pick<EngineState, 'sessionType' | 'source'>) =>
+  sessionType !== SessionType.Practice || source?.kind === 'challenge';
+
+const NO_RECORD: AchievementContext = { attempts: [], progress: {} };
+
+const defaultSchedule = (run: () => void, ms: number) => {
+  const timer = setTimeout(run, ms);
+  return () => clearTimeout(timer);
+};
+
+export const createGameEngine = ({
+  config,
+  sessionType = SessionType.Practice,
+  source = null,
+  record = () => NO_RECORD,
+  onEvent = () => {},
+  now = Date.now,
+  random = Math.random,
+  schedule = defaultSchedule
+}: EngineOptions): GameEngine => {
+  const listeners = new Set<() => void>();
+  let cancelPending: (() => void) | null = null; // The next round, while a finished one is on show
+
+  const cancelNextRound = () => {
+    cancelPending?.();
+    cancelPending = null;
+  };
+
+  // The next question and how far into its source it is
+  const drawRound = (settings: Pick<EngineState, 'config' | 'source' | 'drawn'>, previous: Round | null): { round: Round; drawn: number } => {
+    const { config, source, drawn } = settings;
+    const base = { number: (previous?.number ?? 0) + 1, startedAt: now(), answers: [], evaluation: null, path: null, over: false };
+
+    // Imported projects ask their own questions in order: read where a sprite stands,
+    // or find where a go to / glide block sends it
+    if (source?.kind === 'project') {
+      const { targets } = source.project;
+      const project = targets[drawn % targets.length];
+      const type = project.block ? FIND_POINT.type : NAME_POINT.type;
+      return { round: { ...base, type, task: project.point, target: project.point, project }, drawn: drawn + 1 };
+    }
+
+    // Challenge rounds draw from their own seeded generator and ignore the student's history
+    const challenge = source?.kind === 'challenge' ? source.challenge : null;
+    const roundRandomness = challenge ? roundRandom(challenge, drawn) : random;
+    const types = config.questionTypes;
+    const type: QuestionType = types[Math.floor(roundRandomness() * types.length)];
+    const { attempts, progress } = record();
+    const context: GenerateContext = challenge
+      ? { config, random: roundRandomness, attempts: [], previous: null, progress: drawn }
+      : { config, random: roundRandomness, attempts: attempts.filter(a => a.mode === config.id), previous, progress: progress[config.id] || 0 };
+    const { task, target } = exerciseTypeOf(type).generate(context);
+    return { round: { ...base, type, task, target, project: null }, drawn: challenge ? drawn + 1 : drawn };
+  };
+
+  // A new session with its first round up
+  const freshSession = (base: Pick<EngineState, 'config' | 'sessionType' | 'source' | 'drawn'>, previous: Round | null, status: SessionStatus, feedback: Message): EngineState => {
+    // A challenge starts over from its first round every time
+    const drawn = base.source?.kind === 'challenge' ? 0 : base.drawn;
+    const { round, drawn: next } = drawRound({ ...base, drawn }, previous);
+    return {
+      ...base,
+      drawn: next,
+      status,
+      round,
+      stats: emptyStats(),
+      clock: { startedAt: now(), endedAt: null },
+      feedback,
+      lastResult: null,
+      roundScore: null,
+      diagnosis: null,
+      points: []
+    };
+  };
+
+  let state = freshSession(
+    { config, sessionType, source, drawn: 0 },
+    null,
+    isRaced({ sessionType, source }) ? 'ready' : 'running',
+    { key: 'feedback.start' }
+  );
+
+  const update = (change: Partial<EngineState>) => {
+    state = { ...state, ...change };
+    listeners.forEach(listener => listener());
+  };
+
+  // Ends the session; an answer that ended it keeps its own feedback on show
+  const finish = (endedAt: number, feedback: Message = { key: 'session.over' }) => {
+    cancelNextRound();
+    update({ status: 'finished', clock: { ...state.clock, endedAt }, feedback });
+    onEvent({ type: 'finished', stats: state.stats, startedAt: state.clock.startedAt, endedAt });
+  };
+
+  const nextRound = (feedback: Message) => {
+    cancelPending = null;
+    const { round, drawn } = drawRound(state, state.round);
+    update({ round, drawn, lastResult: null, roundScore: null, diagnosis: null, feedback });
+  };
+
+  const grade = (answers: Point[]) => {
+    const { config, round } = state;
+    const exercise = exerciseTypeOf(round.type);
+    const at = now();
+    const timeMs = at - round.startedAt;
+    const evaluation = exercise.evaluate(round, answers, { config, timeMs });
+    const { score, roundOver } = evaluation;
+
+    const attempt: AttemptRecord = {
+      mode: config.id,
+      questionType: round.type,
+      target: evaluation.expected,
+      clickPos: evaluation.answer,
+      distance: evaluation.distance,
+      success: score.success,
+      timeMs,
+      timestamp: at
+    };
+
+    const stats = recordAnswer(state.stats, score);
+    // A challenge is over once its last round is done; missed points stay on screen until they're found
+    const { source, drawn } = state;
+    const lastChallengeRound = source?.kind === 'challenge' && roundOver && drawn >= source.challenge.rounds;
+    const sessionOver = (isRaced(state) && reachedGoal(state.sessionType, stats, score.success)) || lastChallengeRound;
+
+    update({
+      // A miss that leaves the question up clears the clicks for the next try
+      round: { ...round, answers: roundOver ? answers : [], evaluation, path: evaluation.path ?? null, over: roundOver },
+      stats,
+      roundScore: score,
+      diagnosis: evaluation.diagnosis,
+      feedback: evaluation.feedback,
+      // Snap the result to the target on a hit
+      lastResult: { success: score.success, clickPos: score.success ? evaluation.expected : evaluation.answer, timestamp: at, stars: score.success ? score.stars : 0 },
+      points: labelPoints(state.points, evaluation.placed)
+    });
+    onEvent({ type: 'answered', attempt, evaluation, sessionOver });
+
+    if (sessionOver) {
+      finish(at, evaluation.feedback);
+    } else if (roundOver) {
+      // Pause on the ⭐ after a hit, longer after a miss so the answer can be looked at
+      const rule = SESSION_RULES[state.sessionType];
+      const feedback: Message = { key: score.success ? 'feedback.next' : exercise.nextFeedback ?? 'feedback.next' };
+      cancelPending = schedule(() => nextRound(feedback), score.success ? rule.hitDelayMs : rule.replayDelayMs);
+    }
+  };
+
+  const canAnswer = () => state.status === 'running' && !state.round.over;
+
+  return {
+    getState: () => state,
+
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+
+    // Starts over, e.g. for another level, session type or source; a new source is played from its start
+    reset: (change = {}) => {
+      cancelNextRound();
+      const base = { config: state.config, sessionType: state.sessionType, source: state.source, drawn: state.drawn, ...change };
+      if ('source' in change && change.source !== state.source) base.drawn = 0;
+      const waitForStart = isRaced(base);
+      state = freshSession(base, state.round, waitForStart ? 'ready' : 'running', { key: waitForStart ? 'session.ready' : 'feedback.newGame' });
+      listeners.forEach(listener => listener());
+    },
+
+    // The start button, and playing again after a session
+    start: () => {
+      cancelNextRound();
+      state = freshSession(state, state.round, 'running', { key: 'feedback.start' });
+      listeners.forEach(listener => listener());
+    },
+
+    // Canvas clicks; a shape collects them until every vertex is in
+    click: point => {
+      const { round } = state;
+      const exercise = exerciseTypeOf(round.type);
+      if (!canAnswer() || exercise.input !== 'click' || exercise.accepts?.(point) === false) return;
+      const answers = [...round.answers, point];
+      if (answers.length < (exercise.answersNeeded?.(round.task) ?? 1)) {
+        update({ round: { ...round, answers } });
+        return;
+      }
+      grade(answers);
+    },
+
+    // Answers typed on the card, as a point (directions as a point on the ring)
+    submit: point => {
+      if (!canAnswer() || exerciseTypeOf(state.round.type).input !== 'typed') return;
+      grade([point]);
+    },
+
+    undo: () => {
+      const { round } = state;
+      if (round.over || round.answers.length === 0) return;
+      update({ round: { ...round, answers: round.answers.slice(0, -1) } });
+    },
+
+    // Called by the race clock; ends a timed session once its time is up
+    tick: () => {
+      const { status, sessionType, clock } = state;
+      if (status !== 'running' || timeLeft(sessionType, now() - clock.startedAt) !== 0) return;
+      finish(clock.startedAt + (SESSION_RULES[sessionType].timeLimitMs ?? 0));
+    },
+
+    // Things outside the game that belong on the feedback line, like a broken link
+    setFeedback: feedback => update({ feedback }),
+
+    // Drops the pending next round, e.g. when the app goes away
+    stop: cancelNextRound
+  };
+};
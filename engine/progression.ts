@@ -0,0 +1,35 @@
+import { AttemptRecord, GameConfig } from '../types';
+import { AchievementContext } from '../utils/achievements';
+import { ConditionStatus, isUnlocked, unlockStatus } from '../utils/unlocks';
+
+// How a student's record moves on with each answer, and which levels it opens
+
+// Every answer goes in the history; hits also count towards their level
+export const recordAttempt = <R extends AchievementContext>(record: R, attempt: AttemptRecord): R => ({
+  ...record,
+  attempts: [...record.attempts, attempt],
+  progress: attempt.success
+    ? { ...record.progress, [attempt.mode]: (record.progress[attempt.mode] || 0) + 1 }
+    : record.progress
+});
+
+// Unlock conditions per level, measured against the student's record
+export const levelLocks = (
+  levels: Record<string, GameConfig>,
+  { progress, attempts }: AchievementContext
+): Record<string, ConditionStatus[]> => {
+  const locks: Record<string, ConditionStatus[]> = {};
+  Object.keys(levels).forEach(id => { locks[id] = unlockStatus(levels[id], progress, attempts, levels); });
+  return locks;
+};
+
+// A level opens once every condition on it is met
+export const isLevelOpen = (locks: Record<string, ConditionStatus[]>, id: string) => isUnlocked(locks[id] ?? []);
+
+// Hits in `mode` that open the nearest other level, or null when hits there open nothing
+export const hitsToUnlock = (levels: Record<string, GameConfig>, mode: string): number | null => {
+  const counts = Object.values(levels)
+    .flatMap(level => level.unlock ?? [])
+    .flatMap(c => (c.kind === 'hits' && c.level === mode ? [c.count] : []));
+  return counts.length > 0 ? Math.min(...counts) : null;
+};
@@ -0,0 +1,34 @@
+import React, { createContext, useContext } from 'react';
+import { Locale } from '../types';
+import { DEFAULT_LOCALE, LOCALES, LocaleInfo, Message, Translate, createTranslator, isMessageKey } from './index';
+
+export interface I18nValue {
+  locale: Locale;
+  info: LocaleInfo;
+  t: Translate;
+  // Renders a deferred Message
+  tm: (message: Message) => string;
+  // Level names are message keys for built-in modes and plain text for custom ones
+  text: (keyOrText: string) => string;
+  setLocale: (locale: Locale) => void;
+}
+
+export const createI18nValue = (locale: Locale, setLocale: (locale: Locale) => void): I18nValue => {
+  const t = createTranslator(locale);
+  return {
+    locale,
+    info: LOCALES[locale],
+    t,
+    tm: message => t(message.key, message.params),
+    text: keyOrText => (isMessageKey(keyOrText) ? t(keyOrText) : keyOrText),
+    setLocale
+  };
+};
+
+const I18nContext = createContext<I18nValue>(createI18nValue(DEFAULT_LOCALE, () => {}));
+
+export const I18nProvider: React.FC<{ value: I18nValue; children: React.ReactNode }> = ({ value, children }) => (
+  <I18nContext.Provider value={value}>{children}</I18nContext.Provider>
+);
+
+export const useI18n = () => useContext(I18nContext);
@@ -0,0 +1,496 @@
+import type { Catalog } from './index';
+
+const en: Catalog = {
+  'app.title': '🗺️ Coordinate Treasure Hunt',
+  'app.language': 'Language',
+  'settings.title': 'Settings',
+  'settings.appearance': 'Appearance',
+  'settings.theme.light': 'Light',
+  'settings.theme.dark': 'Dark',
+  'settings.theme.contrast': 'High contrast',
+  'settings.colorBlind': 'Colour-blind friendly colours',
+  'settings.colorBlindHint': 'Hits show in blue and misses in orange instead of green and red.',
+  'settings.reducedMotion': 'Reduce motion',
+  'settings.reducedMotionHint': 'No confetti, sliding or blinking; answer paths appear all at once.',
+  'settings.reducedMotionSystem': 'Your computer already asks for less motion, so this stays on.',
+  'settings.sound': 'Sound',
+  'settings.speech': 'Read questions out loud',
+  'settings.speechHint': 'Each new question is spoken, with minus signs said as words; 🔊 on the card repeats it.',
+  'settings.speechUnavailable': "This browser can't speak.",
+  'settings.sonification': 'Hear where the pointer is',
+  'settings.sonificationHint': 'A short tone for every point: higher up sounds higher, further right comes more from the right speaker.',
+  'settings.earcons': 'Hit and miss sounds',
+  'settings.earconsHint': 'A rising chime for a hit, two falling notes for a miss.',
+  'settings.try': 'Try',
+  'speech.point': 'x {x}, y {y}',
+  'speech.negative': 'minus {n}',
+  'speech.findPoint': 'Find the point {point}',
+  'speech.pointDirection': 'Point the sprite in direction {direction}',
+  'speech.vertex': '{label} at {point}',
+  'speech.sentences': '{first}. {next}',
+  'speech.repeat': 'Read the question again',
+
+  'modes.intro.name': '🟢 Beginner',
+  'modes.intro.short': 'Beginner',
+  'modes.intro.description': 'Count the squares (quadrant I)',
+  'modes.advanced.name': '🔵 Advanced',
+  'modes.advanced.short': 'Advanced',
+  'modes.advanced.description': 'Meet negative numbers (four quadrants)',
+  'modes.challenge.name': '🟠 Challenge',
+  'modes.challenge.short': 'Challenge',
+  'modes.challenge.description': 'Big ranges (counting in 10s)',
+  'modes.hell.name': '🔴 Expert',
+  'modes.hell.short': 'Expert',
+  'modes.hell.description': 'The standard Scratch stage',
+  'modes.direction.name': '🧭 Directions',
+  'modes.direction.short': 'Directions',
+  'modes.direction.description': 'Which way is the sprite pointing? (Scratch directions)',
+
+  'lock.requirement': 'Finish {mode} {current}/{threshold} times',
+  'lock.precision': 'Avg. precision {current}%/{required}%',
+  'lock.accuracy': '{mode} accuracy {current}%/{required}% (last {over})',
+  'lock.streak': '{mode} hits in a row {current}/{required}',
+
+  'toolbar.customLevels': '✏️ Custom levels',
+  'toolbar.history': '📊 History',
+  'toolbar.leaderboard': '🏆 Leaderboard',
+  'toolbar.scratchProject': '📂 Scratch project',
+  'toolbar.worksheets': '🖨️ Worksheets',
+  'toolbar.challenge': '🎲 Challenge code',
+  'toolbar.trophies': '🏅 Trophies',
+  'toolbar.classroom': '🏫 Classroom',
+  'toolbar.battleship': '⚓ Battleship',
+
+  'session.practice': '🎯 Practice',
+  'session.timed': '⏱️ 60 seconds',
+  'session.firstTo': '🏁 First to 20',
+  'session.suddenDeath': '💀 Sudden death',
+  'session.practiceHint': 'Take your time, no clock',
+  'session.timedHint': 'Find as many as you can in 60 seconds',
+  'session.firstToHint': 'Find 20 as fast as you can',
+  'session.suddenDeathHint': 'Keep your streak going, one miss and it ends',
+  'session.start': '▶ Start',
+  'session.restart': '🔁 Play again',
+  'session.timeLeft': 'Time left',
+  'session.elapsed': 'Time',
+  'session.hits': 'Hits',
+  'session.streak': 'Streak',
+  'session.combo': '🔥 {count} in a row!',
+  'session.ready': 'Press start when you are ready!',
+  'session.over': "That's the end of the round!",
+
+  'summary.title': '📋 Round summary',
+  'summary.end': '📋 Finish this round',
+  'summary.points': 'Points',
+  'summary.rounds': 'Answers',
+  'summary.hits': 'Correct',
+  'summary.precision': 'Avg. precision',
+  'summary.bestStreak': 'Best streak',
+  'summary.time': 'Time',
+  'summary.stars': 'Stars',
+  'summary.leaderboard': '🏆 See the leaderboard',
+  'summary.again': '🔁 Play again',
+  'summary.export': 'Take your {count} points to Scratch',
+  'summary.exportSprites': '🐱 One sprite per point',
+  'summary.exportWalk': '✏️ One sprite walks the path',
+  'summary.challenge': 'Challenge {code}: everyone with this code got the same rounds, so compare your points!',
+  'summary.continue': 'Keep practising',
+
+  'leaderboard.title': '🏆 Leaderboard',
+  'leaderboard.empty': 'No scores yet. Be the first!',
+  'leaderboard.rank': '#',
+  'leaderboard.student': 'Student',
+  'leaderboard.hits': 'Hits',
+  'leaderboard.time': 'Time',
+  'leaderboard.accuracy': 'Accuracy',
+  'leaderboard.bestStreak': 'Best streak',
+  'leaderboard.date': 'Date',
+  'leaderboard.result': 'This round: {hits} hits, {accuracy} accuracy, {time}, best streak {streak}',
+  'leaderboard.placed': '🎉 You placed #{rank}!',
+  'leaderboard.unplaced': "Not in the top {size} this time, keep going!",
+
+  'card.findPoint': 'Find this point',
+  'card.namePoint': 'Name the marked point',
+  'card.predictScript': 'Where does the sprite end up?',
+  'card.plotShape': 'Plot the shape',
+  'card.pointDirection': 'Point the sprite this way',
+  'card.readDirection': 'Which direction is the arrow?',
+  'card.transform': 'Where does the point land?',
+
+  'score.title': 'SCORE',
+  'score.round': '+{points} points (precision {precision}%, speed +{speed})',
+  'score.nearMiss': 'So close! You still get +{points} points',
+  'progress.builtIn': 'Hits in this mode: {count} / {threshold} (unlocks the next level)',
+  'progress.custom': 'Hits in this custom level: {count}',
+  'progress.open': 'Hits in this mode: {count}',
+
+  'feedback.start': 'Click the grid to find the point!',
+  'feedback.newGame': 'New game!',
+  'feedback.hit': 'Great job, you found it! 🎉',
+  'feedback.next': 'Find the next point!',
+  'feedback.missClick': 'Oops, not quite! You clicked ({x}, {y}) 😅',
+  'feedback.missTyped': "Not quite! You wrote ({x}, {y}). Look at the marker again 🤔",
+  'feedback.missScript': 'The sprite actually stopped at ({x}, {y}). Watch how it got there 👀',
+  'feedback.nextScript': 'Predict the next script!',
+  'feedback.missTransform': 'The point actually lands on ({x}, {y}). Watch how it gets there 👀',
+  'feedback.nextTransform': 'Move the next point!',
+  'feedback.shapeHit': 'Your shape is spot on! 🎉',
+  'feedback.shapeMiss': 'Vertices off: {count}. The dashed circles show where they belong 👀',
+  'feedback.nextShape': 'On to the next shape!',
+  'feedback.directionHit': "Spot on, that's direction {direction}! 🎉",
+  'feedback.missDirection': 'You answered {answer}, but the arrow is {direction}. The dashed arrow shows it 👀',
+  'feedback.nextDirection': 'On to the next direction!',
+  'feedback.badLink': "The level in this link can't be opened 😢",
+
+  'canvas.hintHell': 'Scratch stage size: 480x360',
+  'canvas.hintFind': 'Click where the grid lines cross to find the treasure',
+  'canvas.hintName': 'Read the coordinates of the marker',
+  'canvas.hintShape': 'Click each vertex in order; made a mistake? Undo it (Backspace)',
+  'canvas.hintTransform': 'Follow each change in your head, then click where the point lands',
+  'canvas.hintPointDirection': "Drag or click to aim the sprite's arrow; 0 is up, 90 is right",
+  'canvas.hintReadDirection': 'Read the blue arrow on the ring: 0 is up, 90 is right, -90 is left',
+  'canvas.ariaLabel': 'Coordinate grid: arrow keys move the cursor, Shift + arrows take big steps, Enter answers, + and - zoom, 0 shows the whole grid',
+  'canvas.zoomIn': 'Zoom in',
+  'canvas.zoomOut': 'Zoom out',
+  'canvas.zoomReset': 'Show the whole grid',
+  'canvas.announceHit': 'Hit! {point}',
+  'canvas.announceMiss': 'Missed: you chose {point}',
+  'canvas.announceZoom': 'Zoom {zoom}×',
+
+  'overlay.label': 'Misses ({count})',
+  'overlay.off': 'Off',
+  'overlay.heatmap': 'Heatmap',
+  'overlay.scatter': 'Lines',
+
+  'input.submit': 'OK',
+  'direction.block': 'point in direction',
+  'direction.inputLabel': 'Direction',
+  'direction.tier': 'Multiples of {step}°, within {tolerance}°',
+
+  'shape.plotPolygon': 'Plot {vertices} in order and join them up',
+  'shape.completeRectangle': 'Rectangle {shape} has corners {given}. Find corner {missing}',
+  'shape.undo': '↶ Undo',
+  'shape.progress': '{placed}/{total} vertices placed',
+  'transform.from': 'Start at {label}({x}, {y}), then:',
+  'transform.moveRight': 'Move {dx} right',
+  'transform.moveLeft': 'Move {dx} left',
+  'transform.moveUp': 'Move {dy} up',
+  'transform.moveDown': 'Move {dy} down',
+  'transform.moveRightUp': 'Move {dx} right and {dy} up',
+  'transform.moveRightDown': 'Move {dx} right and {dy} down',
+  'transform.moveLeftUp': 'Move {dx} left and {dy} up',
+  'transform.moveLeftDown': 'Move {dx} left and {dy} down',
+  'transform.reflectX': 'Reflect across the x-axis',
+  'transform.reflectY': 'Reflect across the y-axis',
+  'transform.rotateAnticlockwise': 'Rotate 90° anticlockwise around the origin',
+  'transform.rotateClockwise': 'Rotate 90° clockwise around the origin',
+  'transform.rotateHalf': 'Rotate 180° around the origin',
+
+  'script.whenFlagClicked': 'when 🏁 clicked',
+  'script.goto': 'go to x: {x} y: {y}',
+  'script.glide': 'glide {secs} secs to x: {x} y: {y}',
+  'script.changeX': 'change x by {dx}',
+  'script.setX': 'set x to {x}',
+  'script.changeY': 'change y by {dy}',
+  'script.setY': 'set y to {y}',
+  'script.move': 'move {steps} steps',
+  'script.pointInDirection': 'point in direction {direction}',
+  'script.turnRight': 'turn ↻ {degrees} degrees',
+  'script.turnLeft': 'turn ↺ {degrees} degrees',
+
+  'hint.swapped': 'You swapped x and y! Go across {x} first, then up or down {y}.',
+  'hint.signBoth': 'Right numbers, but both signs are flipped. Positive goes right and up, negative goes left and down.',
+  'hint.signXRight': 'The sign of x is flipped: {x} is to the right of the origin.',
+  'hint.signXLeft': 'The sign of x is flipped: {x} is to the left of the origin.',
+  'hint.signYUp': 'The sign of y is flipped: {y} is above the origin.',
+  'hint.signYDown': 'The sign of y is flipped: {y} is below the origin.',
+  'hint.offByOneLine': "One line off! Start counting from 0; each line is {step}, and the starting line doesn't count.",
+  'hint.labelStepUnit': 'Check the scale: numbers are marked every {label}, but each square is only {grid}.',
+  'hint.wrongRow': 'Left and right are correct! Now check up and down: y should be {y}.',
+  'hint.wrongColumn': 'Up and down are correct! Now check left and right: x should be {x}.',
+  'hint.mathAngle': 'Scratch measures from the top, going clockwise: 0 is up and 90 is right. Find {direction} that way.',
+  'hint.mirroredRight': 'Left and right got swapped: positive directions like {direction} turn to the right.',
+  'hint.mirroredLeft': 'Left and right got swapped: negative directions like {direction} turn to the left.',
+  'hint.reversed': "That's the opposite way round! Check which end of the arrow is the tip.",
+
+  'profile.title': '👋 Who are you?',
+  'profile.switch': 'Switch',
+  'profile.switchTitle': 'Switch student',
+  'profile.delete': 'Delete',
+  'profile.deleteConfirm': "Delete all of {name}'s records?",
+  'profile.new': 'New student',
+  'profile.namePlaceholder': 'Type your name',
+  'profile.join': 'Join',
+  'profile.nameTaken': 'Someone already has this name',
+  'profile.recovered': 'Saved data was damaged, so the app started fresh. The old data is backed up under {key}.',
+  'profile.trimmed': "This computer's storage was full, so only the latest {count} answers of each student are kept.",
+  'profile.saveFailed': "This computer's storage is full; progress made now won't be saved.",
+
+  'history.title': '📊 Practice history',
+  'history.empty': 'No practice yet',
+  'history.byMode': 'Accuracy by mode',
+  'history.mode': 'Mode',
+  'history.attempts': 'Tries',
+  'history.accuracy': 'Accuracy',
+  'history.avgTime': 'Avg. time',
+  'history.byRegion': 'Accuracy by quadrant',
+  'history.allModes': 'All modes',
+  'history.date': 'Date',
+  'history.total': 'Total',
+  'history.all': 'All',
+  'history.clear': 'Clear history',
+  'history.clearConfirm': 'Clear the whole practice history?',
+  'region.I': 'Quadrant I',
+  'region.II': 'Quadrant II',
+  'region.III': 'Quadrant III',
+  'region.IV': 'Quadrant IV',
+  'region.axis': 'On an axis',
+
+  'editor.title': '✏️ Custom levels',
+  'editor.defaultName': '⭐ My level',
+  'editor.defaultDescription': "Teacher's custom level",
+  'editor.name': 'Name',
+  'editor.description': 'Description',
+  'editor.xMin': 'x min',
+  'editor.xMax': 'x max',
+  'editor.yMin': 'y min',
+  'editor.yMax': 'y max',
+  'editor.gridStep': 'Grid step',
+  'editor.majorGridStep': 'Major grid step (optional)',
+  'editor.labelStep': 'Label step',
+  'editor.targetStep': 'Target step',
+  'editor.tolerance': 'Tolerance',
+  'editor.precision': 'Precision (e.g. 0.5)',
+  'editor.originPos': 'Origin',
+  'editor.originCenter': 'Centre (four quadrants)',
+  'editor.originBottomLeft': 'Bottom left (quadrant I)',
+  'editor.theme': 'Theme colour',
+  'editor.targetPolicy': 'Target choice',
+  'editor.policyAdaptive': 'Adaptive (more practice on weak spots)',
+  'editor.policyUniform': 'Fully random',
+  'editor.typeFindPoint': 'Find the point (click)',
+  'editor.typeNamePoint': 'Name the point (type)',
+  'editor.typePredictScript': 'Predict a Scratch script',
+  'editor.typeTransform': 'Move, reflect or rotate a point',
+  'editor.unlockAfter': 'Unlocks after',
+  'editor.unlockNone': 'Open from the start',
+  'editor.unlockHits': 'Hits needed',
+  'editor.unlockAccuracy': 'Accuracy % (last {over})',
+  'editor.unlockPrecision': 'Avg. precision %',
+  'editor.unlockStreak': 'Hits in a row',
+  'editor.typePlotShape': 'Plot a shape (several vertices)',
+  'editor.typePointDirection': 'Point in a direction (drag the arrow)',
+  'editor.typeReadDirection': 'Read a direction (type it)',
+  'editor.valid': '✅ Level settings are valid',
+  'editor.save': 'Save',
+  'editor.new': 'New',
+  'editor.import': 'Import JSON',
+  'editor.exportAll': 'Export all',
+  'editor.importFailed': 'Import failed: {error}',
+  'project.title': '📂 Practise with a Scratch project',
+  'project.intro': "Load a .sb3 file saved from Scratch. Every sprite's position and the numbers typed into its go to and glide blocks become Expert-mode questions.",
+  'project.choose': 'Choose a .sb3 file',
+  'project.loading': 'Reading the project…',
+  'project.failed': "Couldn't use this project: {error}",
+  'project.sprites': 'Sprites in {name} ({count})',
+  'project.costume': 'Costume',
+  'project.sprite': 'Sprite',
+  'project.direction': 'Direction',
+  'project.questions': '{total} questions, {blocks} of them from go to / glide blocks.',
+  'project.skipped': '{count} positions are off the stage and were left out.',
+  'project.play': 'Play in Expert mode',
+  'project.whereIs': 'Where is {sprite}?',
+  'project.whereGoto': 'Where does {sprite} go to?',
+  'project.whereGlide': 'Where does {sprite} glide to?',
+  'project.progress': '{name}: question {current} of {total}',
+  'project.stop': 'Stop',
+  'project.error.notZip': "this isn't a .sb3 file (it isn't a ZIP archive)",
+  'project.error.zipUnsupported': "the file is packed in a way the browser can't unpack; save it again from Scratch",
+  'project.error.zipCorrupt': 'the file is damaged or incomplete',
+  'project.error.noProjectJson': "there's no project.json inside; is this really a Scratch project?",
+  'project.error.badJson': "project.json can't be read",
+  'project.error.scratch2': 'this is a Scratch 2 project; open it in Scratch 3 and save it again',
+  'project.error.noTargets': 'project.json has no sprite list',
+  'project.error.badSprite': 'sprite number {index} is missing its name, position or direction',
+  'project.error.noSprites': 'the project only has a stage, no sprites',
+  'project.error.nothingOnStage': 'every sprite position and go to / glide block is off the stage',
+  'worksheet.heading': '🖨️ Printable worksheets',
+  'worksheet.intro': 'Paper practice with the same grid as the screen. The same seed always gives the same sheet, so a whole class can get identical questions.',
+  'worksheet.level': 'Level',
+  'worksheet.kind': 'Questions',
+  'worksheet.kindPlot': 'Plot these points',
+  'worksheet.kindName': 'Name these points',
+  'worksheet.kindPlotJoin': 'Plot and join',
+  'worksheet.count': 'How many points',
+  'worksheet.seed': 'Seed',
+  'worksheet.newSeed': 'New seed',
+  'worksheet.sheet': 'Worksheet',
+  'worksheet.answerKey': 'Answer key',
+  'worksheet.download': 'Download SVG',
+  'worksheet.print': 'Print or save as PDF',
+  'worksheet.title': 'Coordinates: {level}',
+  'worksheet.answerKeyTitle': 'Answer key: {level}',
+  'worksheet.nameLine': 'Name: ____________________',
+  'worksheet.instructionsPlot': 'Mark each point on the grid and write its letter next to it.',
+  'worksheet.instructionsName': 'Write down the coordinates of each marked point.',
+  'worksheet.instructionsPlotJoin': 'Plot the points, then join them with straight lines in this order: {steps}',
+  'worksheet.footer': 'Seed {seed} · {count} points',
+  'challenge.title': '🎲 Challenge codes',
+  'challenge.join': 'Got a code? Type it here',
+  'challenge.play': 'Play',
+  'challenge.failed': "Can't use this code: {error}",
+  'challenge.create': 'Make a code for your class',
+  'challenge.level': 'Level',
+  'challenge.rounds': 'Rounds',
+  'challenge.seed': 'Seed',
+  'challenge.newSeed': 'New seed',
+  'challenge.code': 'Challenge code',
+  'challenge.share': 'Copy link',
+  'challenge.shareLink': 'Challenge link (copied to clipboard)',
+  'challenge.progress': 'Challenge {code}: round {current} of {total}',
+  'challenge.stop': 'Stop',
+  'challenge.error.format': 'it should look like H10-K3X9P2',
+  'challenge.error.rounds': 'the number of rounds must be between {min} and {max}',
+  'challenge.error.level': 'there is no level with the letter {letter}',
+  'challenge.error.badLevel': 'the level inside the code is damaged',
+  'toast.unlocked': 'New level unlocked!',
+  'toast.achievement': 'Achievement earned!',
+  'toast.classroomLevel': 'Your teacher sent you to a level',
+  'toast.classroomChallenge': 'Your teacher started a challenge',
+  'toast.storageFull': 'Storage is full',
+  'toast.storageTrimmed': 'Older answers were removed to make room',
+  'toast.storageFailed': "Progress can't be saved right now",
+  'trophies.title': '🏅 Trophy case',
+  'trophies.count': '{count} of {total} earned',
+  'trophies.earnedOn': 'Earned {date}',
+  'classroom.title': '🏫 Classroom',
+  'classroom.join': 'Join your class',
+  'classroom.address': "Teacher's computer",
+  'classroom.code': 'Class code',
+  'classroom.joinButton': 'Join',
+  'classroom.leave': 'Leave class',
+  'classroom.status.connecting': 'Connecting…',
+  'classroom.status.retrying': 'Lost the connection, trying again…',
+  'classroom.status.joined': "You're in class {code}",
+  'classroom.teach': 'Teaching? Open the class dashboard',
+  'classroom.teachHint': "Start the classroom server on the teacher's computer first (npm run classroom). Everything stays on your school network, no internet needed.",
+  'classroom.teachButton': 'Open dashboard',
+  'classroom.error.protocol': 'This app and the classroom server are different versions',
+  'classroom.error.unknownClass': 'There is no class with this code',
+  'classroom.error.badMessage': "The classroom server didn't understand this app",
+  'classroom.error.notAllowed': "The classroom server didn't allow that",
+  'classroom.badPush': "Your teacher sent something this app can't open",
+  'dashboard.title': '🏫 Class dashboard',
+  'dashboard.code': 'Class code',
+  'dashboard.addresses': 'Students connect to',
+  'dashboard.connecting': 'Connecting to the classroom server at {address}…',
+  'dashboard.retrying': "Can't reach the classroom server at {address}. Is npm run classroom running? Trying again…",
+  'dashboard.online': '{online} of {count} students online',
+  'dashboard.empty': 'Nobody has joined yet. Students open 🏫 Classroom and type the code.',
+  'dashboard.student': 'Student',
+  'dashboard.level': 'Level',
+  'dashboard.accuracy': 'Accuracy (last {count})',
+  'dashboard.answers': 'Answers',
+  'dashboard.misses': 'Recent misses',
+  'dashboard.stuck': 'Stuck',
+  'dashboard.offline': 'offline',
+  'dashboard.send': 'Send to the whole class',
+  'dashboard.sendLevel': 'Go to this level',
+  'dashboard.sendChallenge': 'Start a challenge',
+  'dashboard.sentLevel': 'Sent everyone to {level}',
+  'dashboard.sentChallenge': 'Started challenge {code} for everyone',
+  'battleship.title': '⚓ Coordinate battleship',
+  'battleship.intro': 'Two players, one computer. Hide your ships on the grid, then take turns calling out coordinates to find the other fleet.',
+  'battleship.playerName': 'Player {n}',
+  'battleship.level': 'Grid',
+  'battleship.start': 'Start',
+  'battleship.place': '{name}, hide your ships',
+  'battleship.placeHint': 'Click where a ship starts; it runs to the right or upwards along points {step} apart.',
+  'battleship.nextShip': 'Next ship: {length} points long',
+  'battleship.fleetReady': 'All ships are hidden.',
+  'battleship.rotate': '↻ Ship goes {direction}',
+  'battleship.horizontal': 'to the right',
+  'battleship.vertical': 'upwards',
+  'battleship.undo': 'Undo',
+  'battleship.random': 'Place for me',
+  'battleship.done': 'Done',
+  'battleship.handoff': 'Pass the computer to {name}',
+  'battleship.noPeeking': 'Everyone else, look away! {name}, press the button when only you can see the screen.',
+  'battleship.ready': "I'm {name}, show my board",
+  'battleship.incoming': '{name} fired at',
+  'battleship.fire': '{name}, call your shot',
+  'battleship.fireHint': 'Type the coordinates and say them out loud. Green dots are hits, red crosses are misses.',
+  'battleship.shot': 'You fired at',
+  'battleship.result.miss': 'Miss',
+  'battleship.result.hit': 'Hit!',
+  'battleship.result.sunk': 'Hit and sunk!',
+  'battleship.enemyLeft': 'Ships left to find: {count} of {total}',
+  'battleship.afloat': 'Your ships still afloat: {count} of {total}',
+  'battleship.pass': 'Pass to {name}',
+  'battleship.won': '{name} wins!',
+  'battleship.wonStats': 'The whole fleet found in {shots} shots ({hits} hits).',
+  'battleship.again': 'Play again',
+  'battleship.invalid': "Can't do that: {error}",
+  'battleship.error.offGrid': 'ships and shots go on points {step} apart',
+  'battleship.error.outside': "that's off the grid (x from {minX} to {maxX}, y from {minY} to {maxY})",
+  'battleship.error.overlap': "ships can't overlap",
+  'battleship.error.noRoom': 'no room found for the whole fleet, place the ships yourself',
+  'battleship.error.repeat': '({x}, {y}) has already been fired at',
+  'achievement.firstHit.name': 'First find',
+  'achievement.firstHit.description': 'Get your first answer right',
+  'achievement.quadrants.name': 'Map reader',
+  'achievement.quadrants.description': 'Hit a point in each of the four quadrants',
+  'achievement.streak10.name': 'On fire',
+  'achievement.streak10.description': 'Get 10 answers right in a row',
+  'achievement.hundredHits.name': 'Century',
+  'achievement.hundredHits.description': 'Get 100 answers right across all levels',
+  'achievement.shapeMaker.name': 'Shape maker',
+  'achievement.shapeMaker.description': 'Plot a whole shape without a mistake',
+  'achievement.scriptReader.name': 'Script reader',
+  'achievement.scriptReader.description': 'Predict where 10 Scratch scripts end up',
+  'achievement.compass.name': 'Compass',
+  'achievement.compass.description': 'Get 20 direction questions right',
+  'achievement.hellBullseye.name': 'Expert bullseye',
+  'achievement.hellBullseye.description': 'Land a three-star click in Expert mode',
+  'achievement.allModes.name': 'Explorer',
+  'achievement.allModes.description': 'Get an answer right in every built-in mode',
+  'achievement.practiceWeek.name': 'Week of practice',
+  'achievement.practiceWeek.description': 'Practise 7 days in a row',
+  'editor.shareLink': 'Share link (copied to clipboard)',
+  'editor.saved': 'Saved levels',
+  'editor.none': 'No custom levels yet',
+  'editor.play': 'Play',
+  'editor.edit': 'Edit',
+  'editor.share': 'Share',
+  'editor.export': 'Export',
+  'editor.delete': 'Delete',
+
+  'level.error.nameEmpty': 'The level needs a name',
+  'level.error.xRangeEmpty': 'The x range is empty: min must be less than max',
+  'level.error.yRangeEmpty': 'The y range is empty: min must be less than max',
+  'level.error.centerNeedsZero': 'With a centred origin, both ranges must include 0',
+  'level.error.bottomLeftNeedsZero': 'With the origin at the bottom left, both ranges must start at 0',
+  'level.error.stepPositive': '{field} must be greater than 0',
+  'level.error.stepDividesX': "{field} ({step}) doesn't divide the x span {span}",
+  'level.error.stepDividesY': "{field} ({step}) doesn't divide the y span {span}",
+  'level.error.axisOnGrid': 'Range minimums must be multiples of gridStep ({step}) so the axes sit on grid lines',
+  'level.error.gridMultiple': '{field} ({step}) must be a multiple of gridStep ({grid})',
+  'level.error.tolerancePositive': 'tolerance must be greater than 0',
+  'level.error.precisionMultiple': 'targetStep ({step}) must be a multiple of precision ({precision})',
+  'level.error.unlockSelf': "A level can't unlock after itself",
+  'level.error.unlockCount': 'Unlock hits and streaks must be whole numbers above 0',
+  'level.error.unlockShare': 'Unlock percentages must be between 1 and 100',
+  'level.error.noQuestionTypes': 'Pick at least one question type',
+  'level.error.directionNeedsCenter': 'Direction questions need a centred origin with room on every side of it',
+  'level.error.xLabelsOverlap': 'x axis labels overlap at the current canvas width ({width}px); use a larger labelStep',
+  'level.error.yLabelsOverlap': 'y axis labels overlap at the current canvas height; use a larger labelStep',
+  'level.parse.notObject': 'Level data must be an object',
+  'level.parse.name': 'name must be text',
+  'level.parse.range': '{field} must be two numbers, e.g. [-10, 10]',
+  'level.parse.number': '{field} must be a number',
+  'level.parse.originPos': "originPos must be 'center' or 'bottom-left'",
+  'level.parse.unlock': 'unlock must be a list of conditions',
+  'level.parse.invalidJson': "The file isn't valid JSON"
+};
+
+export default en;
@@ -0,0 +1,61 @@
+import { Locale } from '../types';
+import zhCN from './zh-CN';
+import en from './en';
+
+export type MessageKey = keyof typeof zhCN;
+export type Catalog = Record<MessageKey, string>;
+export type MessageParams = Record<string, string | number>;
+
+// A message that hasn't been rendered yet, so it follows later language switches
+export interface Message {
+  key: MessageKey;
+  params?: MessageParams;
+}
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+export interface LocaleInfo {
+  label: string; // Shown in the switcher, in its own language
+  htmlLang: string;
+  fontFamily: string; // Body text and canvas labels
+  funFontFamily: string; // Headings (.fun-font)
+}
+
+export const LOCALES: Record<Locale, LocaleInfo> = {
+  'zh-CN': {
+    label: '中文',
+    htmlLang: 'zh-CN',
+    fontFamily: '"Noto Sans SC", sans-serif',
+    funFontFamily: '"ZCOOL KuaiLe", cursive'
+  },
+  en: {
+    label: 'English',
+    htmlLang: 'en',
+    fontFamily: '"Nunito", sans-serif',
+    funFontFamily: '"Fredoka", cursive'
+  }
+};
+
+const CATALOGS: Record<Locale, Catalog> = {
+  'zh-CN': zhCN,
+  en
+};
+
+export const DEFAULT_LOCALE: Locale = 'zh-CN';
+
+// Best guess for someone who hasn't picked a language yet
+export const detectLocale = (): Locale =>
+  typeof navigator !== 'undefined' && navigator.language.toLowerCase().startsWith('zh') ? 'zh-CN' : 'en';
+
+export const isMessageKey = (text: string): text is MessageKey => text in zhCN;
+
+export const translate = (locale: Locale, key: MessageKey, params?: MessageParams): string => {
+  const template = CATALOGS[locale][key] ?? zhCN[key] ?? key;
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+};
+
+export const createTranslator = (locale: Locale): Translate =>
+  (key, params) => translate(locale, key, params);
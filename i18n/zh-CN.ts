@@ -0,0 +1,496 @@
+// Source catalog: every other locale must provide the same keys.
+// Placeholders like {x} are filled in by `translate`.
+const zhCN = {
+  'app.title': '🗺️ 坐标寻宝大冒险',
+  'app.language': '语言',
+  'settings.title': '设置',
+  'settings.appearance': '外观',
+  'settings.theme.light': '浅色',
+  'settings.theme.dark': '深色',
+  'settings.theme.contrast': '高对比度',
+  'settings.colorBlind': '色弱友好配色',
+  'settings.colorBlindHint': '命中显示为蓝色、落空显示为橙色，而不是绿色和红色。',
+  'settings.reducedMotion': '减少动画',
+  'settings.reducedMotionHint': '不放彩带、不滑动也不闪烁，答案路径直接整段显示。',
+  'settings.reducedMotionSystem': '你的电脑已经要求减少动画，所以这里一直开着。',
+  'settings.sound': '声音',
+  'settings.speech': '朗读题目',
+  'settings.speechHint': '每道新题都会读出来，负号会读成“负”；点题目卡片上的 🔊 可以再听一遍。',
+  'settings.speechUnavailable': '这个浏览器不能朗读。',
+  'settings.sonification': '用声音听出指针位置',
+  'settings.sonificationHint': '每个点都有一个短音：越高的点声音越高，越靠右的点越多从右边的喇叭传出。',
+  'settings.earcons': '命中和落空提示音',
+  'settings.earconsHint': '命中时是上扬的和弦，落空时是两个下降的音。',
+  'settings.try': '试听',
+  'speech.point': 'x {x}，y {y}',
+  'speech.negative': '负{n}',
+  'speech.findPoint': '找到点 {point}',
+  'speech.pointDirection': '让角色面向 {direction} 度方向',
+  'speech.vertex': '{label} 点 {point}',
+  'speech.sentences': '{first}。{next}',
+  'speech.repeat': '再读一遍题目',
+
+  'modes.intro.name': '🟢 入门模式',
+  'modes.intro.short': '入门模式',
+  'modes.intro.description': '数格子 (第一象限)',
+  'modes.advanced.name': '🔵 进阶模式',
+  'modes.advanced.short': '进阶模式',
+  'modes.advanced.description': '认识负数 (四象限)',
+  'modes.challenge.name': '🟠 挑战模式',
+  'modes.challenge.short': '挑战模式',
+  'modes.challenge.description': '大跨度练习 (以10计数)',
+  'modes.hell.name': '🔴 地狱模式',
+  'modes.hell.short': '地狱模式',
+  'modes.hell.description': 'Scratch 标准舞台',
+  'modes.direction.name': '🧭 方向模式',
+  'modes.direction.short': '方向模式',
+  'modes.direction.description': '角色朝向哪里？(Scratch 方向)',
+
+  'lock.requirement': '需{mode}完成 {current}/{threshold} 次',
+  'lock.precision': '平均精度 {current}%/{required}%',
+  'lock.accuracy': '{mode}最近 {over} 题正确率 {current}%/{required}%',
+  'lock.streak': '{mode}连续命中 {current}/{required}',
+
+  'toolbar.customLevels': '✏️ 自定义关卡',
+  'toolbar.history': '📊 练习记录',
+  'toolbar.leaderboard': '🏆 排行榜',
+  'toolbar.scratchProject': '📂 Scratch 作品',
+  'toolbar.worksheets': '🖨️ 练习纸',
+  'toolbar.challenge': '🎲 挑战码',
+  'toolbar.trophies': '🏅 奖杯柜',
+  'toolbar.classroom': '🏫 课堂',
+  'toolbar.battleship': '⚓ 坐标海战',
+
+  'session.practice': '🎯 练习',
+  'session.timed': '⏱️ 60 秒',
+  'session.firstTo': '🏁 先中 20 个',
+  'session.suddenDeath': '💀 一错就结束',
+  'session.practiceHint': '慢慢来，没有时间限制',
+  'session.timedHint': '60 秒内找到越多越好',
+  'session.firstToHint': '越快找到 20 个越好',
+  'session.suddenDeathHint': '连续答对，错一次就结束',
+  'session.start': '▶ 开始',
+  'session.restart': '🔁 再来一次',
+  'session.timeLeft': '剩余',
+  'session.elapsed': '用时',
+  'session.hits': '命中',
+  'session.streak': '连击',
+  'session.combo': '🔥 {count} 连击！',
+  'session.ready': '准备好了就点开始！',
+  'session.over': '本轮结束！',
+
+  'summary.title': '📋 本局小结',
+  'summary.end': '📋 结束本局',
+  'summary.points': '总分',
+  'summary.rounds': '答题数',
+  'summary.hits': '答对',
+  'summary.precision': '平均精度',
+  'summary.bestStreak': '最长连击',
+  'summary.time': '用时',
+  'summary.stars': '星级',
+  'summary.leaderboard': '🏆 查看排行榜',
+  'summary.again': '🔁 再来一局',
+  'summary.export': '把你放的 {count} 个点带到 Scratch',
+  'summary.exportSprites': '🐱 每个点一个角色',
+  'summary.exportWalk': '✏️ 一个角色走过所有点',
+  'summary.challenge': '挑战 {code}：用这个挑战码的同学题目完全一样，来比比谁的分数高！',
+  'summary.continue': '继续练习',
+
+  'leaderboard.title': '🏆 排行榜',
+  'leaderboard.empty': '还没有成绩，快来挑战吧！',
+  'leaderboard.rank': '名次',
+  'leaderboard.student': '学生',
+  'leaderboard.hits': '命中',
+  'leaderboard.time': '用时',
+  'leaderboard.accuracy': '正确率',
+  'leaderboard.bestStreak': '最长连击',
+  'leaderboard.date': '日期',
+  'leaderboard.result': '本轮成绩：命中 {hits} 个，正确率 {accuracy}，用时 {time}，最长连击 {streak}',
+  'leaderboard.placed': '🎉 排名第 {rank}！',
+  'leaderboard.unplaced': '没有进入前 {size} 名，再接再厉！',
+
+  'card.findPoint': '当前目标',
+  'card.namePoint': '说出标记的坐标',
+  'card.predictScript': '角色最后停在哪里？',
+  'card.plotShape': '画出图形',
+  'card.pointDirection': '让角色面向这个方向',
+  'card.readDirection': '箭头指向哪个方向？',
+  'card.transform': '这个点最后落在哪里？',
+
+  'score.title': '本局得分 SCORE',
+  'score.round': '+{points} 分 (精度 {precision}%，速度 +{speed})',
+  'score.nearMiss': '差一点！也得到 +{points} 分',
+  'progress.builtIn': '当前模式累计完成: {count} / {threshold} (解锁下一级)',
+  'progress.custom': '自定义关卡累计完成: {count}',
+  'progress.open': '本模式累计完成: {count}',
+
+  'feedback.start': '请点击画面寻找坐标！',
+  'feedback.newGame': '新游戏开始！',
+  'feedback.hit': '太棒了！找到啦！🎉',
+  'feedback.next': '请寻找下一个坐标！',
+  'feedback.missClick': '哎呀偏了！你点到了 ({x}, {y}) 😅',
+  'feedback.missTyped': '不对哦！你写的是 ({x}, {y})，再看看标记在哪里 🤔',
+  'feedback.missScript': '角色其实停在 ({x}, {y})，看看它是怎么走的 👀',
+  'feedback.nextScript': '再来预测下一段脚本！',
+  'feedback.missTransform': '这个点其实落在 ({x}, {y})，看看它是怎么过去的 👀',
+  'feedback.nextTransform': '再来变换下一个点！',
+  'feedback.shapeHit': '图形画对了！🎉',
+  'feedback.shapeMiss': '有 {count} 个顶点不对，看看虚线圈出的正确位置 👀',
+  'feedback.nextShape': '再来画下一个图形！',
+  'feedback.directionHit': '完全正确，就是方向 {direction}！🎉',
+  'feedback.missDirection': '你的答案是 {answer}，箭头其实是 {direction}。看看虚线箭头 👀',
+  'feedback.nextDirection': '下一个方向！',
+  'feedback.badLink': '分享链接里的关卡无法打开 😢',
+
+  'canvas.hintHell': 'Scratch 舞台大小: 480x360',
+  'canvas.hintFind': '点击网格交叉点寻找宝藏',
+  'canvas.hintName': '读出标记所在的坐标',
+  'canvas.hintShape': '按顺序点出每个顶点，点错了可以撤销 (Backspace)',
+  'canvas.hintTransform': '在脑子里按顺序做每一步变换，再点出点最后的位置',
+  'canvas.hintPointDirection': '拖动或点击来调整角色的箭头：0 朝上，90 朝右',
+  'canvas.hintReadDirection': '读出圆环上蓝色箭头的方向：0 朝上，90 朝右，-90 朝左',
+  'canvas.ariaLabel': '坐标平面：用方向键移动光标，Shift 加方向键大步移动，回车确认，+ 和 - 缩放，0 显示整个网格',
+  'canvas.zoomIn': '放大',
+  'canvas.zoomOut': '缩小',
+  'canvas.zoomReset': '显示整个网格',
+  'canvas.announceHit': '命中！{point}',
+  'canvas.announceMiss': '没点中：你选的是 {point}',
+  'canvas.announceZoom': '缩放 {zoom} 倍',
+
+  'overlay.label': '错误分布 ({count})',
+  'overlay.off': '关闭',
+  'overlay.heatmap': '热力图',
+  'overlay.scatter': '连线',
+
+  'input.submit': '确定',
+  'direction.block': '面向',
+  'direction.inputLabel': '方向',
+  'direction.tier': '{step}° 的倍数，误差 {tolerance}° 以内',
+
+  'shape.plotPolygon': '依次描出 {vertices}，再把它们连起来',
+  'shape.completeRectangle': '长方形 {shape} 的三个顶点是 {given}，找出顶点 {missing}',
+  'shape.undo': '↶ 撤销',
+  'shape.progress': '已放 {placed}/{total} 个顶点',
+  'transform.from': '从 {label}({x}, {y}) 出发，然后：',
+  'transform.moveRight': '向右移动 {dx}',
+  'transform.moveLeft': '向左移动 {dx}',
+  'transform.moveUp': '向上移动 {dy}',
+  'transform.moveDown': '向下移动 {dy}',
+  'transform.moveRightUp': '向右移动 {dx}，再向上移动 {dy}',
+  'transform.moveRightDown': '向右移动 {dx}，再向下移动 {dy}',
+  'transform.moveLeftUp': '向左移动 {dx}，再向上移动 {dy}',
+  'transform.moveLeftDown': '向左移动 {dx}，再向下移动 {dy}',
+  'transform.reflectX': '沿 x 轴翻折（轴对称）',
+  'transform.reflectY': '沿 y 轴翻折（轴对称）',
+  'transform.rotateAnticlockwise': '绕原点逆时针旋转 90°',
+  'transform.rotateClockwise': '绕原点顺时针旋转 90°',
+  'transform.rotateHalf': '绕原点旋转 180°',
+
+  'script.whenFlagClicked': '当 🏁 被点击',
+  'script.goto': '移到 x: {x} y: {y}',
+  'script.glide': '在 {secs} 秒内滑行到 x: {x} y: {y}',
+  'script.changeX': '将x坐标增加 {dx}',
+  'script.setX': '将x坐标设为 {x}',
+  'script.changeY': '将y坐标增加 {dy}',
+  'script.setY': '将y坐标设为 {y}',
+  'script.move': '移动 {steps} 步',
+  'script.pointInDirection': '面向 {direction} 方向',
+  'script.turnRight': '右转 ↻ {degrees} 度',
+  'script.turnLeft': '左转 ↺ {degrees} 度',
+
+  'hint.swapped': 'x 和 y 写反了！先横着走 {x}，再竖着走 {y}。',
+  'hint.signBoth': '数字对了，但 x 和 y 的正负号都反了。正数往右、往上，负数往左、往下。',
+  'hint.signXRight': 'x 的正负号反了：{x} 在原点的右边。',
+  'hint.signXLeft': 'x 的正负号反了：{x} 在原点的左边。',
+  'hint.signYUp': 'y 的正负号反了：{y} 在原点的上面。',
+  'hint.signYDown': 'y 的正负号反了：{y} 在原点的下面。',
+  'hint.offByOneLine': '差了一格！从 0 开始数，每条线是 {step}，别把起点那条线也算进去。',
+  'hint.labelStepUnit': '注意刻度：数字是每 {label} 标一次，中间每一格只有 {grid}。',
+  'hint.wrongRow': '左右找对了！再看看上下：y 应该是 {y}。',
+  'hint.wrongColumn': '上下找对了！再看看左右：x 应该是 {x}。',
+  'hint.mathAngle': 'Scratch 从正上方开始顺时针量：0 朝上，90 朝右。按这个方法再找找 {direction}。',
+  'hint.mirroredRight': '左右弄反了：像 {direction} 这样的正方向是往右转。',
+  'hint.mirroredLeft': '左右弄反了：像 {direction} 这样的负方向是往左转。',
+  'hint.reversed': '方向正好反了！看清楚箭头的尖端在哪一头。',
+
+  'profile.title': '👋 你是谁？',
+  'profile.switch': '切换',
+  'profile.switchTitle': '切换学生',
+  'profile.delete': '删除',
+  'profile.deleteConfirm': '确定删除 {name} 的全部记录吗？',
+  'profile.new': '新同学',
+  'profile.namePlaceholder': '输入名字',
+  'profile.join': '加入',
+  'profile.nameTaken': '这个名字已经有人用了',
+  'profile.recovered': '存档数据损坏，已重新开始。旧数据备份在 {key}。',
+  'profile.trimmed': '这台电脑的存储空间已满，每位学生只保留最近的 {count} 次作答。',
+  'profile.saveFailed': '这台电脑的存储空间已满，现在的进度无法保存。',
+
+  'history.title': '📊 练习记录',
+  'history.empty': '还没有练习记录',
+  'history.byMode': '各模式正确率',
+  'history.mode': '模式',
+  'history.attempts': '次数',
+  'history.accuracy': '正确率',
+  'history.avgTime': '平均用时',
+  'history.byRegion': '各象限正确率',
+  'history.allModes': '全部模式',
+  'history.date': '日期',
+  'history.total': '合计',
+  'history.all': '全部',
+  'history.clear': '清除记录',
+  'history.clearConfirm': '确定要清除全部练习记录吗？',
+  'region.I': '第一象限',
+  'region.II': '第二象限',
+  'region.III': '第三象限',
+  'region.IV': '第四象限',
+  'region.axis': '坐标轴上',
+
+  'editor.title': '✏️ 自定义关卡',
+  'editor.defaultName': '⭐ 我的关卡',
+  'editor.defaultDescription': '老师自定义关卡',
+  'editor.name': '名称',
+  'editor.description': '说明',
+  'editor.xMin': 'x 最小值',
+  'editor.xMax': 'x 最大值',
+  'editor.yMin': 'y 最小值',
+  'editor.yMax': 'y 最大值',
+  'editor.gridStep': '网格间距 gridStep',
+  'editor.majorGridStep': '粗线间距 (可留空)',
+  'editor.labelStep': '标签间距 labelStep',
+  'editor.targetStep': '目标间距 targetStep',
+  'editor.tolerance': '容差 tolerance',
+  'editor.precision': '精度 precision（如 0.5）',
+  'editor.originPos': '原点位置',
+  'editor.originCenter': '居中 (四象限)',
+  'editor.originBottomLeft': '左下角 (第一象限)',
+  'editor.theme': '主题色',
+  'editor.targetPolicy': '出题方式',
+  'editor.policyAdaptive': '智能 (多练薄弱区域)',
+  'editor.policyUniform': '完全随机',
+  'editor.typeFindPoint': '找点 (点击坐标)',
+  'editor.typeNamePoint': '读点 (输入坐标)',
+  'editor.typePredictScript': '预测 Scratch 脚本',
+  'editor.typeTransform': '平移、翻折或旋转一个点',
+  'editor.unlockAfter': '解锁条件关卡',
+  'editor.unlockNone': '一开始就开放',
+  'editor.unlockHits': '需完成次数',
+  'editor.unlockAccuracy': '正确率 %（最近 {over} 题）',
+  'editor.unlockPrecision': '平均精度 %',
+  'editor.unlockStreak': '连续命中次数',
+  'editor.typePlotShape': '画图形 (多个顶点)',
+  'editor.typePointDirection': '面向方向 (拖动箭头)',
+  'editor.typeReadDirection': '读出方向 (输入)',
+  'editor.valid': '✅ 关卡设置有效',
+  'editor.save': '保存',
+  'editor.new': '新建',
+  'editor.import': '导入 JSON',
+  'editor.exportAll': '导出全部',
+  'editor.importFailed': '导入失败：{error}',
+  'project.title': '📂 用 Scratch 作品练习',
+  'project.intro': '载入从 Scratch 保存的 .sb3 文件。每个角色的位置，以及“移到”和“滑行”积木里填写的数字，都会变成地狱模式的题目。',
+  'project.choose': '选择 .sb3 文件',
+  'project.loading': '正在读取作品…',
+  'project.failed': '无法使用这个作品：{error}',
+  'project.sprites': '{name} 里的角色 ({count})',
+  'project.costume': '造型',
+  'project.sprite': '角色',
+  'project.direction': '方向',
+  'project.questions': '共 {total} 道题，其中 {blocks} 道来自“移到”/“滑行”积木。',
+  'project.skipped': '有 {count} 个位置在舞台外，已跳过。',
+  'project.play': '在地狱模式中练习',
+  'project.whereIs': '{sprite} 在哪里？',
+  'project.whereGoto': '{sprite} 会移到哪里？',
+  'project.whereGlide': '{sprite} 会滑行到哪里？',
+  'project.progress': '{name}：第 {current} / {total} 题',
+  'project.stop': '结束',
+  'project.error.notZip': '这不是 .sb3 文件 (不是 ZIP 压缩包)',
+  'project.error.zipUnsupported': '文件的压缩方式浏览器无法解开，请在 Scratch 里重新保存',
+  'project.error.zipCorrupt': '文件已损坏或不完整',
+  'project.error.noProjectJson': '里面没有 project.json，这真的是 Scratch 作品吗？',
+  'project.error.badJson': '无法读取 project.json',
+  'project.error.scratch2': '这是 Scratch 2 的作品，请用 Scratch 3 打开后重新保存',
+  'project.error.noTargets': 'project.json 里没有角色列表',
+  'project.error.badSprite': '第 {index} 个角色缺少名字、位置或方向',
+  'project.error.noSprites': '这个作品只有舞台，没有角色',
+  'project.error.nothingOnStage': '所有角色位置和“移到”/“滑行”积木都在舞台外',
+  'worksheet.heading': '🖨️ 打印练习纸',
+  'worksheet.intro': '和屏幕上一样的坐标格，印在纸上练习。同一个种子总是生成同一张练习纸，全班可以做完全相同的题。',
+  'worksheet.level': '关卡',
+  'worksheet.kind': '题型',
+  'worksheet.kindPlot': '描出这些点',
+  'worksheet.kindName': '写出这些点的坐标',
+  'worksheet.kindPlotJoin': '描点并连线',
+  'worksheet.count': '点的数量',
+  'worksheet.seed': '种子',
+  'worksheet.newSeed': '换一个种子',
+  'worksheet.sheet': '练习纸',
+  'worksheet.answerKey': '答案',
+  'worksheet.download': '下载 SVG',
+  'worksheet.print': '打印或存为 PDF',
+  'worksheet.title': '坐标练习：{level}',
+  'worksheet.answerKeyTitle': '答案：{level}',
+  'worksheet.nameLine': '姓名：____________________',
+  'worksheet.instructionsPlot': '在坐标格上标出每个点，并在旁边写上它的字母。',
+  'worksheet.instructionsName': '写出每个标出的点的坐标。',
+  'worksheet.instructionsPlotJoin': '描出这些点，再按这个顺序用直线连起来：{steps}',
+  'worksheet.footer': '种子 {seed} · {count} 个点',
+  'challenge.title': '🎲 挑战码',
+  'challenge.join': '有挑战码？在这里输入',
+  'challenge.play': '开始',
+  'challenge.failed': '无法使用这个挑战码：{error}',
+  'challenge.create': '为全班生成一个挑战码',
+  'challenge.level': '关卡',
+  'challenge.rounds': '题数',
+  'challenge.seed': '种子',
+  'challenge.newSeed': '换一个种子',
+  'challenge.code': '挑战码',
+  'challenge.share': '复制链接',
+  'challenge.shareLink': '挑战链接（已复制到剪贴板）',
+  'challenge.progress': '挑战 {code}：第 {current} / {total} 题',
+  'challenge.stop': '退出',
+  'challenge.error.format': '格式应该像 H10-K3X9P2',
+  'challenge.error.rounds': '题数必须在 {min} 到 {max} 之间',
+  'challenge.error.level': '没有字母为 {letter} 的关卡',
+  'challenge.error.badLevel': '挑战码里的关卡已损坏',
+  'toast.unlocked': '新关卡解锁！',
+  'toast.achievement': '获得新成就！',
+  'toast.classroomLevel': '老师把你带到了新关卡',
+  'toast.classroomChallenge': '老师发起了一场挑战',
+  'toast.storageFull': '存储空间已满',
+  'toast.storageTrimmed': '已删除较早的作答记录以腾出空间',
+  'toast.storageFailed': '暂时无法保存进度',
+  'trophies.title': '🏅 奖杯柜',
+  'trophies.count': '已获得 {count} / {total}',
+  'trophies.earnedOn': '获得于 {date}',
+  'classroom.title': '🏫 课堂',
+  'classroom.join': '加入你的班级',
+  'classroom.address': '老师的电脑',
+  'classroom.code': '班级码',
+  'classroom.joinButton': '加入',
+  'classroom.leave': '离开班级',
+  'classroom.status.connecting': '正在连接…',
+  'classroom.status.retrying': '连接断开了，正在重试…',
+  'classroom.status.joined': '你已加入班级 {code}',
+  'classroom.teach': '你是老师？打开课堂面板',
+  'classroom.teachHint': '先在老师的电脑上启动课堂服务器（npm run classroom）。所有数据只在学校网络内传输，不需要连接互联网。',
+  'classroom.teachButton': '打开课堂面板',
+  'classroom.error.protocol': '这个应用和课堂服务器的版本不一致',
+  'classroom.error.unknownClass': '没有这个班级码',
+  'classroom.error.badMessage': '课堂服务器看不懂这个应用发来的消息',
+  'classroom.error.notAllowed': '课堂服务器不允许这样做',
+  'classroom.badPush': '老师发来的内容无法打开',
+  'dashboard.title': '🏫 课堂面板',
+  'dashboard.code': '班级码',
+  'dashboard.addresses': '学生连接地址',
+  'dashboard.connecting': '正在连接 {address} 上的课堂服务器…',
+  'dashboard.retrying': '连不上 {address} 上的课堂服务器。npm run classroom 启动了吗？正在重试…',
+  'dashboard.online': '{count} 名学生中 {online} 名在线',
+  'dashboard.empty': '还没有人加入。学生点开 🏫 课堂 并输入班级码即可。',
+  'dashboard.student': '学生',
+  'dashboard.level': '关卡',
+  'dashboard.accuracy': '正确率（最近 {count} 题）',
+  'dashboard.answers': '答题数',
+  'dashboard.misses': '最近的错误',
+  'dashboard.stuck': '卡住了',
+  'dashboard.offline': '离线',
+  'dashboard.send': '发给全班',
+  'dashboard.sendLevel': '都去这一关',
+  'dashboard.sendChallenge': '发起挑战',
+  'dashboard.sentLevel': '已让全班进入 {level}',
+  'dashboard.sentChallenge': '已为全班发起挑战 {code}',
+  'battleship.title': '⚓ 坐标海战',
+  'battleship.intro': '两名玩家，一台电脑。先把战舰藏在网格上，再轮流报出坐标，找出对方的舰队。',
+  'battleship.playerName': '玩家 {n}',
+  'battleship.level': '网格',
+  'battleship.start': '开始',
+  'battleship.place': '{name}，藏好你的战舰',
+  'battleship.placeHint': '点击战舰的起点，它会沿着间隔为 {step} 的点向右或向上延伸。',
+  'battleship.nextShip': '下一艘战舰：长 {length} 个点',
+  'battleship.fleetReady': '所有战舰都藏好了。',
+  'battleship.rotate': '↻ 战舰方向：{direction}',
+  'battleship.horizontal': '向右',
+  'battleship.vertical': '向上',
+  'battleship.undo': '撤销',
+  'battleship.random': '帮我摆放',
+  'battleship.done': '完成',
+  'battleship.handoff': '把电脑交给 {name}',
+  'battleship.noPeeking': '其他人请转过头去！{name}，确认只有你能看到屏幕后再按按钮。',
+  'battleship.ready': '我是 {name}，显示我的棋盘',
+  'battleship.incoming': '{name} 攻击了',
+  'battleship.fire': '{name}，报出你的坐标',
+  'battleship.fireHint': '输入坐标并大声读出来。绿点是命中，红叉是落空。',
+  'battleship.shot': '你攻击了',
+  'battleship.result.miss': '落空',
+  'battleship.result.hit': '命中！',
+  'battleship.result.sunk': '命中并击沉！',
+  'battleship.enemyLeft': '还没找到的战舰：{count} / {total}',
+  'battleship.afloat': '你还剩的战舰：{count} / {total}',
+  'battleship.pass': '交给 {name}',
+  'battleship.won': '{name} 获胜！',
+  'battleship.wonStats': '用了 {shots} 炮（命中 {hits} 次）找到了整支舰队。',
+  'battleship.again': '再玩一次',
+  'battleship.invalid': '不能这样做：{error}',
+  'battleship.error.offGrid': '战舰和炮弹都要落在间隔为 {step} 的点上',
+  'battleship.error.outside': '超出网格了（x 从 {minX} 到 {maxX}，y 从 {minY} 到 {maxY}）',
+  'battleship.error.overlap': '战舰不能重叠',
+  'battleship.error.noRoom': '没找到能放下整支舰队的位置，请自己摆放战舰',
+  'battleship.error.repeat': '({x}, {y}) 已经攻击过了',
+  'achievement.firstHit.name': '初次发现',
+  'achievement.firstHit.description': '答对第一题',
+  'achievement.quadrants.name': '地图达人',
+  'achievement.quadrants.description': '在四个象限里各找到一个点',
+  'achievement.streak10.name': '火力全开',
+  'achievement.streak10.description': '连续答对 10 题',
+  'achievement.hundredHits.name': '百题达成',
+  'achievement.hundredHits.description': '所有关卡累计答对 100 题',
+  'achievement.shapeMaker.name': '图形小画家',
+  'achievement.shapeMaker.description': '一次不错地画完一个图形',
+  'achievement.scriptReader.name': '脚本预言家',
+  'achievement.scriptReader.description': '猜对 10 段 Scratch 脚本的终点',
+  'achievement.compass.name': '指南针',
+  'achievement.compass.description': '答对 20 道方向题',
+  'achievement.hellBullseye.name': '地狱神射手',
+  'achievement.hellBullseye.description': '在地狱模式里点出一次三星',
+  'achievement.allModes.name': '探险家',
+  'achievement.allModes.description': '在每个内置模式里都答对过',
+  'achievement.practiceWeek.name': '坚持一周',
+  'achievement.practiceWeek.description': '连续 7 天练习',
+  'editor.shareLink': '分享链接 (已复制到剪贴板)',
+  'editor.saved': '已保存的关卡',
+  'editor.none': '还没有自定义关卡',
+  'editor.play': '开始',
+  'editor.edit': '编辑',
+  'editor.share': '分享',
+  'editor.export': '导出',
+  'editor.delete': '删除',
+
+  'level.error.nameEmpty': '关卡名称不能为空',
+  'level.error.xRangeEmpty': 'x 范围为空：最小值必须小于最大值',
+  'level.error.yRangeEmpty': 'y 范围为空：最小值必须小于最大值',
+  'level.error.centerNeedsZero': '原点居中时，x 和 y 范围都必须包含 0',
+  'level.error.bottomLeftNeedsZero': '原点在左下角时，x 和 y 范围都必须从 0 开始',
+  'level.error.stepPositive': '{field} 必须大于 0',
+  'level.error.stepDividesX': '{field} ({step}) 不能整除 x 跨度 {span}',
+  'level.error.stepDividesY': '{field} ({step}) 不能整除 y 跨度 {span}',
+  'level.error.axisOnGrid': '范围的最小值必须是 gridStep ({step}) 的整数倍，坐标轴才能落在网格线上',
+  'level.error.gridMultiple': '{field} ({step}) 必须是 gridStep ({grid}) 的整数倍',
+  'level.error.tolerancePositive': '容差 tolerance 必须大于 0',
+  'level.error.precisionMultiple': '目标间距 targetStep ({step}) 必须是精度 precision ({precision}) 的整数倍',
+  'level.error.unlockSelf': '关卡不能以自己作为解锁条件',
+  'level.error.unlockCount': '解锁所需的次数必须是大于 0 的整数',
+  'level.error.unlockShare': '解锁所需的百分比必须在 1 到 100 之间',
+  'level.error.noQuestionTypes': '至少选择一种题型',
+  'level.error.directionNeedsCenter': '方向题需要原点居中，并且原点四周都留有空间',
+  'level.error.xLabelsOverlap': 'x 轴标签在当前画布宽度 ({width}px) 下会重叠，请加大 labelStep',
+  'level.error.yLabelsOverlap': 'y 轴标签在当前画布高度下会重叠，请加大 labelStep',
+  'level.parse.notObject': '关卡数据必须是一个对象',
+  'level.parse.name': 'name 必须是文字',
+  'level.parse.range': '{field} 必须是两个数字，例如 [-10, 10]',
+  'level.parse.number': '{field} 必须是数字',
+  'level.parse.originPos': "originPos 只能是 'center' 或 'bottom-left'",
+  'level.parse.unlock': 'unlock 必须是条件列表',
+  'level.parse.invalidJson': '文件不是有效的 JSON'
+};
+
+export default zhCN;
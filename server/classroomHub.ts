@@ -0,0 +1,129 @@
+// Who is in which class, and who hears what. Knows nothing about sockets, only about peers it can send text to.
+import {
+  CLASSROOM_HISTORY,
+  CLASSROOM_PROTOCOL,
+  type ClassroomStudent,
+  type ClassroomStudentInfo,
+  type ServerMessage,
+  normalizeJoinCode,
+  parseClientMessage
+} from '../utils/classroom.ts';
+import { randomSeedText } from '../utils/random.ts';
+
+export interface Peer {
+  send: (text: string) => void;
+}
+
+interface Classroom {
+  code: string;
+  teacher: Peer | null; // Null while the dashboard is closed or reloading; the class carries on
+  students: Map<string, ClassroomStudent>; // By profile id, including ones who left
+  peers: Map<string, Peer>; // Students connected right now
+}
+
+export interface PeerHandlers {
+  onMessage: (text: string) => void;
+  onClose: () => void;
+}
+
+const send = (peer: Peer, message: ServerMessage) => peer.send(JSON.stringify(message));
+
+const info = ({ attempts, ...rest }: ClassroomStudent): ClassroomStudentInfo => rest;
+
+/**
+ * Classes live until the server stops, so a teacher can close the dashboard and
+ * come back with the same code. `addresses` are passed on to the dashboard.
+ */
+export const createClassroomHub = (addresses: string[]) => {
+  const rooms = new Map<string, Classroom>();
+
+  const newCode = () => {
+    let code: string;
+    do code = normalizeJoinCode(randomSeedText(4)); while (rooms.has(code));
+    return code;
+  };
+
+  const toTeacher = (room: Classroom, message: ServerMessage) => {
+    if (room.teacher) send(room.teacher, message);
+  };
+
+  // A new connection; its first message makes it the teacher of a class or a student in one
+  const connect = (peer: Peer): PeerHandlers => {
+    let room: Classroom | null = null;
+    let studentId: string | null = null; // Null for the teacher
+
+    const onMessage = (text: string) => {
+      const message = parseClientMessage(text);
+      if (!message) return send(peer, { type: 'error', error: 'badMessage' });
+
+      if (message.type === 'host' || message.type === 'join') {
+        if (room) return send(peer, { type: 'error', error: 'notAllowed' });
+        if (message.protocol !== CLASSROOM_PROTOCOL) return send(peer, { type: 'error', error: 'protocol' });
+      }
+
+      if (message.type === 'host') {
+        const resumed = message.code === undefined ? undefined : rooms.get(normalizeJoinCode(message.code));
+        // A second dashboard can't take over a class that already has its teacher
+        room = resumed && !resumed.teacher ? resumed : { code: newCode(), teacher: null, students: new Map(), peers: new Map() };
+        room.teacher = peer;
+        rooms.set(room.code, room);
+        return send(peer, { type: 'hosted', code: room.code, addresses, students: [...room.students.values()] });
+      }
+
+      if (message.type === 'join') {
+        const joined = rooms.get(normalizeJoinCode(message.code));
+        if (!joined) return send(peer, { type: 'error', error: 'unknownClass' });
+        const { id, name, avatar } = message.student;
+        // Coming back after a drop keeps the answers given so far
+        const student: ClassroomStudent = {
+          id, name, avatar,
+          level: message.level,
+          connected: true,
+          attempts: joined.students.get(id)?.attempts ?? []
+        };
+        joined.students.set(id, student);
+        joined.peers.set(id, peer);
+        room = joined;
+        studentId = id;
+        send(peer, { type: 'joined', code: joined.code });
+        return toTeacher(joined, { type: 'student', student: info(student) });
+      }
+
+      if (!room) return send(peer, { type: 'error', error: 'notAllowed' });
+
+      if (message.type === 'push') {
+        if (studentId !== null) return send(peer, { type: 'error', error: 'notAllowed' });
+        room.peers.forEach(p => send(p, { type: 'push', push: message.push }));
+        return;
+      }
+
+      const student = studentId === null ? undefined : room.students.get(studentId);
+      if (!student) return send(peer, { type: 'error', error: 'notAllowed' });
+      if (message.type === 'level') {
+        student.level = message.level;
+        return toTeacher(room, { type: 'student', student: info(student) });
+      }
+      student.attempts = [...student.attempts, message.attempt].slice(-CLASSROOM_HISTORY);
+      toTeacher(room, { type: 'attempt', studentId: student.id, attempt: message.attempt });
+    };
+
+    const onClose = () => {
+      if (!room) return;
+      if (studentId === null) {
+        if (room.teacher === peer) room.teacher = null;
+        return;
+      }
+      // The same student may already be back on a newer connection
+      if (room.peers.get(studentId) !== peer) return;
+      room.peers.delete(studentId);
+      const student = room.students.get(studentId);
+      if (!student) return;
+      student.connected = false;
+      toTeacher(room, { type: 'student', student: info(student) });
+    };
+
+    return { onMessage, onClose };
+  };
+
+  return { connect };
+};
@@ -0,0 +1,207 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { randomBytes } from 'node:crypto';
+import { request } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { Duplex } from 'node:stream';
+import { type AttemptRecord, QuestionType } from '../types';
+import { CLASSROOM_PROTOCOL, type ClientMessage, type ServerMessage } from '../utils/classroom';
+import { createClassroomServer } from './classroomServer';
+
+// A bare WebSocket client, since Node 20 has none built in: masked text frames out, whole frames in
+interface Client {
+  send: (message: ClientMessage) => void;
+  next: () => Promise<ServerMessage>; // The next message from the server, in order
+  drop: () => Promise<void>; // Goes away without a close frame, like a laptop leaving the wifi
+}
+
+const server = createClassroomServer(['192.0.2.1:8787']);
+let port = 0;
+const clients: Client[] = [];
+
+beforeAll(() => new Promise<void>(resolve => {
+  // Port 0 gets whichever port is free
+  server.listen(0, '127.0.0.1', () => {
+    port = (server.address() as AddressInfo).port;
+    resolve();
+  });
+}));
+
+afterAll(async () => {
+  await Promise.all(clients.map(c => c.drop()));
+  await new Promise(resolve => server.close(resolve));
+});
+
+const textFrame = (text: string) => {
+  const payload = Buffer.from(text, 'utf8');
+  const mask = randomBytes(4);
+  const header = payload.length < 126 ? Buffer.from([0x81, 0x80 | payload.length]) : Buffer.from([0x81, 0x80 | 126, payload.length >> 8, payload.length & 0xff]);
+  return Buffer.concat([header, mask, payload.map((b, i) => b ^ mask[i % 4])]);
+};
+
+const connect = () => new Promise<Client>((resolve, reject) => {
+  const upgrade = request({
+    port,
+    host: '127.0.0.1',
+    headers: { Connection: 'Upgrade', Upgrade: 'websocket', 'Sec-WebSocket-Key': randomBytes(16).toString('base64'), 'Sec-WebSocket-Version': '13' }
+  });
+  upgrade.on('error', reject);
+  upgrade.on('upgrade', (_response, socket: Duplex, head: Buffer) => {
+    const arrived: ServerMessage[] = [];
+    const waiting: ((message: ServerMessage) => void)[] = [];
+    let buffer = Buffer.alloc(0);
+    const read = (chunk: Buffer) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      while (buffer.length >= 2) {
+        let length = buffer[1] & 0x7f;
+        let offset = 2;
+        if (length === 126) {
+          if (buffer.length < 4) return;
+          length = buffer.readUInt16BE(2);
+          offset = 4;
+        }
+        if (buffer.length < offset + length) return;
+        const opcode = buffer[0] & 0x0f;
+        const payload = buffer.subarray(offset, offset + length).toString('utf8');
+        buffer = buffer.subarray(offset + length);
+        if (opcode !== 0x1) continue;
+        const message = JSON.parse(payload) as ServerMessage;
+        const waiter = waiting.shift();
+        if (waiter) waiter(message);
+        else arrived.push(message);
+      }
+    };
+    read(head);
+    socket.on('data', read);
+    const client: Client = {
+      send: message => { socket.write(textFrame(JSON.stringify(message))); },
+      next: () => {
+        const message = arrived.shift();
+        return message ? Promise.resolve(message) : new Promise(resolve => waiting.push(resolve));
+      },
+      drop: () => new Promise(resolve => {
+        if (socket.destroyed) return resolve();
+        socket.once('close', () => resolve());
+        socket.destroy();
+      })
+    };
+    clients.push(client);
+    resolve(client);
+  });
+  upgrade.end();
+});
+
+const STUDENT = { id: 'p-ada', name: 'Ada', avatar: '🦊' };
+const LEVEL = { id: 'INTRO', name: 'mode.intro' };
+
+const ATTEMPT: AttemptRecord = {
+  mode: 'INTRO',
+  questionType: QuestionType.FindPoint,
+  target: { x: 10, y: -20 },
+  clickPos: { x: 10, y: -20 },
+  distance: 0,
+  success: true,
+  timeMs: 1200,
+  timestamp: 1
+};
+
+const host = async (code?: string) => {
+  const teacher = await connect();
+  teacher.send({ type: 'host', protocol: CLASSROOM_PROTOCOL, code });
+  const hosted = await teacher.next();
+  if (hosted.type !== 'hosted') throw new Error(`Expected hosted, got ${hosted.type}`);
+  return { teacher, hosted };
+};
+
+// `typed` is the code as the student typed it, when it isn't exactly the class's
+const join = async (code: string, typed = code) => {
+  const client = await connect();
+  client.send({ type: 'join', protocol: CLASSROOM_PROTOCOL, code: typed, student: STUDENT, level: LEVEL });
+  expect(await client.next()).toEqual({ type: 'joined', code });
+  return client;
+};
+
+describe('classroom server', () => {
+  it('refuses apps that speak another protocol version', async () => {
+    const teacher = await connect();
+    teacher.send({ type: 'host', protocol: CLASSROOM_PROTOCOL + 1 });
+    expect(await teacher.next()).toEqual({ type: 'error', error: 'protocol' });
+
+    const student = await connect();
+    student.send({ type: 'join', protocol: CLASSROOM_PROTOCOL - 1, code: 'ABCD', student: STUDENT, level: null });
+    expect(await student.next()).toEqual({ type: 'error', error: 'protocol' });
+  });
+
+  it('tells students when there is no class with their code', async () => {
+    const student = await connect();
+    student.send({ type: 'join', protocol: CLASSROOM_PROTOCOL, code: 'NOPE-NOPE', student: STUDENT, level: null });
+    expect(await student.next()).toEqual({ type: 'error', error: 'unknownClass' });
+  });
+
+  it('passes the addresses on and lets students in with a sloppily typed code', async () => {
+    const { teacher, hosted } = await host();
+    expect(hosted.addresses).toEqual(['192.0.2.1:8787']);
+    expect(hosted.students).toEqual([]);
+
+    await join(hosted.code, ` ${hosted.code.toLowerCase()} `);
+    expect(await teacher.next()).toEqual({ type: 'student', student: { ...STUDENT, level: LEVEL, connected: true } });
+  });
+
+  it('only lets the teacher push', async () => {
+    const { teacher, hosted } = await host();
+    const student = await join(hosted.code);
+    await teacher.next();
+
+    student.send({ type: 'push', push: { kind: 'level', id: 'HELL' } });
+    expect(await student.next()).toEqual({ type: 'error', error: 'notAllowed' });
+
+    teacher.send({ type: 'push', push: { kind: 'challenge', code: 'seed-1' } });
+    expect(await student.next()).toEqual({ type: 'push', push: { kind: 'challenge', code: 'seed-1' } });
+  });
+
+  it('keeps a student\'s answers when they drop and join again', async () => {
+    const { teacher, hosted } = await host();
+    const first = await join(hosted.code);
+    await teacher.next();
+    first.send({ type: 'attempt', attempt: ATTEMPT });
+    expect(await teacher.next()).toEqual({ type: 'attempt', studentId: STUDENT.id, attempt: ATTEMPT });
+
+    await first.drop();
+    expect(await teacher.next()).toEqual({ type: 'student', student: { ...STUDENT, level: LEVEL, connected: false } });
+
+    const again = await join(hosted.code);
+    expect(await teacher.next()).toEqual({ type: 'student', student: { ...STUDENT, level: LEVEL, connected: true } });
+    again.send({ type: 'level', level: { id: 'HELL', name: 'mode.hell' } });
+    expect(await teacher.next()).toMatchObject({ type: 'student', student: { id: STUDENT.id, level: { id: 'HELL' } } });
+
+    teacher.send({ type: 'push', push: { kind: 'level', id: 'INTRO' } });
+    expect(await again.next()).toEqual({ type: 'push', push: { kind: 'level', id: 'INTRO' } });
+
+    // The answers from before the drop are still there for a dashboard that opens now
+    await teacher.drop();
+    const { hosted: resumed } = await host(hosted.code);
+    expect(resumed.students).toEqual([{ ...STUDENT, level: { id: 'HELL', name: 'mode.hell' }, connected: true, attempts: [ATTEMPT] }]);
+  });
+
+  it('gives the class back to its teacher after the dashboard reloads, and to no one else', async () => {
+    const { teacher, hosted } = await host();
+    const student = await join(hosted.code);
+    await teacher.next();
+    student.send({ type: 'attempt', attempt: ATTEMPT });
+    await teacher.next();
+
+    // A second dashboard while the teacher is still there gets a class of its own
+    const { hosted: other } = await host(hosted.code);
+    expect(other.code).not.toBe(hosted.code);
+
+    await teacher.drop();
+    // The hang-up reaches the server before the new connection's handshake is through
+    const { teacher: back, hosted: resumed } = await host(hosted.code.toLowerCase());
+    expect(resumed.code).toBe(hosted.code);
+    expect(resumed.students).toEqual([{ ...STUDENT, level: LEVEL, connected: true, attempts: [ATTEMPT] }]);
+
+    back.send({ type: 'push', push: { kind: 'challenge', code: 'seed-2' } });
+    expect(await student.next()).toEqual({ type: 'push', push: { kind: 'challenge', code: 'seed-2' } });
+    back.send({ type: 'host', protocol: CLASSROOM_PROTOCOL });
+    expect(await back.next()).toEqual({ type: 'error', error: 'notAllowed' });
+  });
+});
@@ -0,0 +1,46 @@
+// The classroom server itself: plain HTTP that says it's up, and the class hub behind WebSocket upgrades.
+// Started by server/main.ts; tests start their own on a spare port.
+import { type Server, createServer } from 'node:http';
+import { createClassroomHub } from './classroomHub.ts';
+import { type WebSocketPeer, acceptWebSocket } from './webSocket.ts';
+
+// Silent connections are pinged this often, and dropped after two intervals without a word
+const PING_MS = 15_000;
+
+// `addresses` are where students can reach it, passed on to the dashboard
+export const createClassroomServer = (addresses: string[]): Server => {
+  const hub = createClassroomHub(addresses);
+  const peers = new Set<WebSocketPeer>();
+
+  // Opening the address in a browser shows it's up
+  const server = createServer((_request, response) => {
+    response.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8' });
+    response.end('Classroom server is running.\n');
+  });
+
+  server.on('upgrade', (request, socket) => {
+    let handlers: ReturnType<typeof hub.connect> | null = null;
+    const peer = acceptWebSocket(request, socket, {
+      onMessage: text => handlers?.onMessage(text),
+      onClose: () => {
+        if (peer) peers.delete(peer);
+        handlers?.onClose();
+      }
+    });
+    if (!peer) return;
+    peers.add(peer);
+    handlers = hub.connect(peer);
+  });
+
+  const pings = setInterval(() => {
+    const now = Date.now();
+    peers.forEach(peer => {
+      if (now - peer.lastHeard() > 2 * PING_MS) peer.close();
+      else if (now - peer.lastHeard() > PING_MS) peer.ping();
+    });
+  }, PING_MS).unref();
+
+  server.on('close', () => clearInterval(pings));
+
+  return server;
+};
@@ -0,0 +1,24 @@
+// Classroom server: run on the teacher's machine with `npm run classroom` (port as an argument or PORT).
+// tsc builds it to plain JavaScript first (server/tsconfig.json), so any Node from 20 on runs it;
+// imports name their .ts files, which the build rewrites to .js.
+// Everything stays on the local network; no internet connection is needed.
+import { networkInterfaces } from 'node:os';
+import { CLASSROOM_PORT } from '../utils/classroom.ts';
+import { createClassroomServer } from './classroomServer.ts';
+
+const port = Number(process.argv[2] ?? process.env.PORT ?? CLASSROOM_PORT);
+
+// Addresses other machines can use: IPv4 on every interface except loopback
+const lanAddresses = () =>
+  Object.values(networkInterfaces())
+    .flatMap(list => list ?? [])
+    .filter(a => a.family === 'IPv4' && !a.internal)
+    .map(a => `${a.address}:${port}`);
+
+createClassroomServer(lanAddresses()).listen(port, () => {
+  console.log(`Classroom server listening on port ${port}.`);
+  const addresses = lanAddresses();
+  console.log(addresses.length > 0
+    ? `Students connect to: ${addresses.join(', ')}`
+    : 'No network found; only this machine can connect (localhost).');
+});
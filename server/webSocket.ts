@@ -0,0 +1,156 @@
+// Just enough of RFC 6455 for the classroom: text messages, ping/pong and close.
+// Written out here so the server runs on a bare Node install, with no packages to fetch.
+import { createHash } from 'node:crypto';
+import type { IncomingMessage } from 'node:http';
+import type { Duplex } from 'node:stream';
+
+export interface WebSocketPeer {
+  send: (text: string) => void;
+  ping: () => void;
+  close: () => void;
+  lastHeard: () => number; // When anything last arrived, for spotting laptops that vanished
+}
+
+export interface WebSocketHandlers {
+  onMessage: (text: string) => void;
+  onClose: () => void;
+}
+
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+// Custom levels inside a pushed challenge are the biggest thing sent; nothing near this
+const MAX_MESSAGE_BYTES = 1 << 20;
+
+const OP_CONTINUATION = 0x0;
+const OP_TEXT = 0x1;
+const OP_CLOSE = 0x8;
+const OP_PING = 0x9;
+const OP_PONG = 0xa;
+
+const frame = (opcode: number, payload: Buffer): Buffer => {
+  const length = payload.length;
+  const header = Buffer.alloc(length < 126 ? 2 : length < 65536 ? 4 : 10);
+  header[0] = 0x80 | opcode; // Always one frame per message
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 65536) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+/**
+ * Answers an HTTP upgrade request and speaks WebSocket on the socket from then on.
+ * Returns null (after refusing) when the request isn't a WebSocket handshake.
+ */
+export const acceptWebSocket = (request: IncomingMessage, socket: Duplex, handlers: WebSocketHandlers): WebSocketPeer | null => {
+  const key = request.headers['sec-websocket-key'];
+  if (typeof key !== 'string' || request.headers.upgrade?.toLowerCase() !== 'websocket') {
+    socket.end('HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n');
+    return null;
+  }
+  const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '',
+    ''
+  ].join('\r\n'));
+
+  let buffer = Buffer.alloc(0);
+  let fragments: Buffer[] = [];
+  let fragmentBytes = 0;
+  let closed = false;
+  let heardAt = Date.now();
+
+  const write = (opcode: number, payload: Buffer) => {
+    if (!closed) socket.write(frame(opcode, payload));
+  };
+
+  const finish = () => {
+    if (closed) return;
+    closed = true;
+    socket.end();
+    handlers.onClose();
+  };
+
+  // Reads as many whole frames as the buffer holds; returns false once the connection is done
+  const readFrames = (): boolean => {
+    while (!closed && buffer.length >= 2) {
+      const fin = (buffer[0] & 0x80) !== 0;
+      const opcode = buffer[0] & 0x0f;
+      const masked = (buffer[1] & 0x80) !== 0;
+      let length = buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (buffer.length < 4) return true;
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffer.length < 10) return true;
+        const long = buffer.readBigUInt64BE(2);
+        length = long > BigInt(MAX_MESSAGE_BYTES) ? MAX_MESSAGE_BYTES + 1 : Number(long);
+        offset = 10;
+      }
+      // Browsers always mask what they send; anything else isn't one of our apps
+      if (!masked || length > MAX_MESSAGE_BYTES) return false;
+      if (buffer.length < offset + 4 + length) return true;
+
+      const mask = buffer.subarray(offset, offset + 4);
+      const payload = Buffer.from(buffer.subarray(offset + 4, offset + 4 + length));
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+      buffer = buffer.subarray(offset + 4 + length);
+
+      switch (opcode) {
+        case OP_CLOSE:
+          write(OP_CLOSE, Buffer.alloc(0));
+          return false;
+        case OP_PING:
+          write(OP_PONG, payload);
+          break;
+        case OP_PONG:
+          break;
+        case OP_TEXT:
+        case OP_CONTINUATION:
+          fragmentBytes += payload.length;
+          if (fragmentBytes > MAX_MESSAGE_BYTES) return false;
+          fragments.push(payload);
+          if (fin) {
+            const text = Buffer.concat(fragments).toString('utf8');
+            fragments = [];
+            fragmentBytes = 0;
+            handlers.onMessage(text);
+          }
+          break;
+        default:
+          return false; // Binary frames aren't part of the protocol
+      }
+    }
+    return true;
+  };
+
+  socket.on('data', (chunk: Buffer) => {
+    heardAt = Date.now();
+    buffer = Buffer.concat([buffer, chunk]);
+    if (!readFrames()) finish();
+  });
+  // HTTP servers keep a socket half open after the other end hangs up, so its end is the end here too
+  socket.on('end', finish);
+  socket.on('close', finish);
+  socket.on('error', finish);
+
+  return {
+    send: text => write(OP_TEXT, Buffer.from(text, 'utf8')),
+    ping: () => write(OP_PING, Buffer.alloc(0)),
+    close: () => {
+      write(OP_CLOSE, Buffer.alloc(0));
+      finish();
+    },
+    lastHeard: () => heardAt
+  };
+};
@@ -0,0 +1,23 @@
+import type { Config } from 'tailwindcss';
+import { COLOR_FAMILIES, SHADES } from './theme';
+
+// Colours come from CSS variables the app sets for the chosen theme (see themeVariables in theme/index.ts)
+const themed = (family: string) => Object.fromEntries(
+  SHADES.map(shade => [shade, `rgb(var(--color-${family}-${shade}) / <alpha-value>)`])
+);
+
+export default {
+  content: ['./index.html', './*.tsx', './components/**/*.tsx', './utils/**/*.ts', './engine/**/*.ts', './theme/**/*.ts'],
+  // Level cards build these from a level's themeColor at runtime, so the scan can't see them
+  safelist: [
+    { pattern: new RegExp(`^(bg|text|border)-(${COLOR_FAMILIES.join('|')})-(100|500|600|700)$`), variants: ['hover', 'focus'] }
+  ],
+  theme: {
+    extend: {
+      colors: {
+        white: 'rgb(var(--color-white) / <alpha-value>)',
+        ...Object.fromEntries(COLOR_FAMILIES.map(family => [family, themed(family)]))
+      }
+    }
+  }
+} satisfies Config;
@@ -0,0 +1,22 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { LIGHT_THEME, Theme, prefersReducedMotion } from './index';
+
+const ThemeContext = createContext<Theme>(LIGHT_THEME);
+
+export const ThemeProvider: React.FC<{ value: Theme; children: React.ReactNode }> = ({ value, children }) => (
+  <ThemeContext.Provider value={value}>{children}</ThemeContext.Provider>
+);
+
+export const useTheme = () => useContext(ThemeContext);
+
+// Follows the computer's reduced-motion setting, including changes while the app is open
+export const useSystemReducedMotion = () => {
+  const [reduced, setReduced] = useState(prefersReducedMotion);
+  useEffect(() => {
+    const query = window.matchMedia('(prefers-reduced-motion: reduce)');
+    const update = () => setReduced(query.matches);
+    query.addEventListener('change', update);
+    return () => query.removeEventListener('change', update);
+  }, []);
+  return reduced;
+};
@@ -0,0 +1,97 @@
+import { ThemeName } from '../types';
+
+// One model for every colour on screen: Tailwind classes read it through CSS variables (see
+// tailwind.config.ts), the canvas asks it directly. Printed worksheets stay on LIGHT_THEME.
+
+export const SHADES = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950] as const;
+export type Shade = typeof SHADES[number];
+
+// Every colour family used in class names or as a level's themeColor; tailwind.config.ts builds its palette from them
+export const COLOR_FAMILIES = [
+  'slate', 'red', 'orange', 'amber', 'lime', 'green', 'emerald', 'cyan', 'blue', 'indigo', 'violet', 'pink', 'rose'
+] as const;
+export type ColorFamily = typeof COLOR_FAMILIES[number];
+
+// Tailwind's own palette, 50 to 950
+const TAILWIND: Record<ColorFamily, string[]> = {
+  slate: ['#f8fafc', '#f1f5f9', '#e2e8f0', '#cbd5e1', '#94a3b8', '#64748b', '#475569', '#334155', '#1e293b', '#0f172a', '#020617'],
+  red: ['#fef2f2', '#fee2e2', '#fecaca', '#fca5a5', '#f87171', '#ef4444', '#dc2626', '#b91c1c', '#991b1b', '#7f1d1d', '#450a0a'],
+  orange: ['#fff7ed', '#ffedd5', '#fed7aa', '#fdba74', '#fb923c', '#f97316', '#ea580c', '#c2410c', '#9a3412', '#7c2d12', '#431407'],
+  amber: ['#fffbeb', '#fef3c7', '#fde68a', '#fcd34d', '#fbbf24', '#f59e0b', '#d97706', '#b45309', '#92400e', '#78350f', '#451a03'],
+  lime: ['#f7fee7', '#ecfccb', '#d9f99d', '#bef264', '#a3e635', '#84cc16', '#65a30d', '#4d7c0f', '#3f6212', '#365314', '#1a2e05'],
+  green: ['#f0fdf4', '#dcfce7', '#bbf7d0', '#86efac', '#4ade80', '#22c55e', '#16a34a', '#15803d', '#166534', '#14532d', '#052e16'],
+  emerald: ['#ecfdf5', '#d1fae5', '#a7f3d0', '#6ee7b7', '#34d399', '#10b981', '#059669', '#047857', '#065f46', '#064e3b', '#022c22'],
+  cyan: ['#ecfeff', '#cffafe', '#a5f3fc', '#67e8f9', '#22d3ee', '#06b6d4', '#0891b2', '#0e7490', '#155e75', '#164e63', '#083344'],
+  blue: ['#eff6ff', '#dbeafe', '#bfdbfe', '#93c5fd', '#60a5fa', '#3b82f6', '#2563eb', '#1d4ed8', '#1e40af', '#1e3a8a', '#172554'],
+  indigo: ['#eef2ff', '#e0e7ff', '#c7d2fe', '#a5b4fc', '#818cf8', '#6366f1', '#4f46e5', '#4338ca', '#3730a3', '#312e81', '#1e1b4b'],
+  violet: ['#f5f3ff', '#ede9fe', '#ddd6fe', '#c4b5fd', '#a78bfa', '#8b5cf6', '#7c3aed', '#6d28d9', '#5b21b6', '#4c1d95', '#2e1065'],
+  pink: ['#fdf2f8', '#fce7f3', '#fbcfe8', '#f9a8d4', '#f472b6', '#ec4899', '#db2777', '#be185d', '#9d174d', '#831843', '#500724'],
+  rose: ['#fff1f2', '#ffe4e6', '#fecdd3', '#fda4af', '#fb7185', '#f43f5e', '#e11d48', '#be123c', '#9f1239', '#881337', '#4c0519']
+};
+
+// Hits are green and misses red all over the app; for red-green colour blindness they become blue and orange
+const COLOR_BLIND_SWAPS: Partial<Record<ColorFamily, ColorFamily>> = {
+  green: 'blue',
+  emerald: 'blue',
+  lime: 'blue',
+  red: 'orange',
+  rose: 'orange'
+};
+
+// Each theme picks a colour for every family and shade (given as an index into SHADES)
+const SHADE_LOOKUPS: Record<ThemeName, (family: ColorFamily, index: number) => string> = {
+  light: (family, index) => TAILWIND[family][index],
+  // The scale turned around: pale backgrounds go deep, dark text goes pale, 500 stays put
+  dark: (family, index) => TAILWIND[family][SHADES.length - 1 - index],
+  // Greys become pure white or black; colours their palest for backgrounds, otherwise their deepest
+  contrast: (family, index) => family === 'slate'
+    ? (index <= 1 ? '#ffffff' : '#000000')
+    : TAILWIND[family][index <= 2 ? 0 : index <= 5 ? 7 : 9]
+};
+
+// Cards and panels are `bg-white`, so white is the surface colour rather than always white
+const WHITES: Record<ThemeName, string> = {
+  light: '#ffffff',
+  dark: TAILWIND.slate[9],
+  contrast: '#ffffff'
+};
+
+export const THEME_NAMES: ThemeName[] = ['light', 'dark', 'contrast'];
+
+export interface Theme {
+  name: ThemeName;
+  colorBlind: boolean;
+  reducedMotion: boolean; // No confetti, sliding or blinking
+  dark: boolean; // Light text on dark surfaces, for the browser's own controls
+  color: (family: ColorFamily, shade: Shade) => string; // As #rrggbb
+  white: string;
+}
+
+export const createTheme = (name: ThemeName, colorBlind = false, reducedMotion = false): Theme => ({
+  name,
+  colorBlind,
+  reducedMotion,
+  dark: name === 'dark',
+  color: (family, shade) => SHADE_LOOKUPS[name](colorBlind ? COLOR_BLIND_SWAPS[family] ?? family : family, SHADES.indexOf(shade)),
+  white: WHITES[name]
+});
+
+export const LIGHT_THEME = createTheme('light');
+
+const channels = (hex: string) => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+
+// `#rrggbb` at some opacity, for canvas fills
+export const alpha = (hex: string, opacity: number) => `rgba(${channels(hex).join(', ')}, ${opacity})`;
+
+// What the Tailwind config reads: `--color-<family>-<shade>` and `--color-white`, as `r g b`
+export const themeVariables = (theme: Theme): Record<string, string> => {
+  const variables: Record<string, string> = { '--color-white': channels(theme.white).join(' ') };
+  for (const family of COLOR_FAMILIES) {
+    for (const shade of SHADES) variables[`--color-${family}-${shade}`] = channels(theme.color(family, shade)).join(' ');
+  }
+  return variables;
+};
+
+// The computer's own "reduce motion" setting; the app's setting can only add to it
+export const prefersReducedMotion = () =>
+  typeof window !== 'undefined' && window.matchMedia('(prefers-reduced-motion: reduce)').matches;
@@ -3,17 +3,46 @@ export interface Point {
   y: number;
 }
 
+// A named vertex, e.g. A(2, 3)
+export interface LabeledPoint extends Point {
+  label: string;
+}
+
 export enum DifficultyLevel {
   Intro = 'INTRO',
   Advanced = 'ADVANCED',
   Challenge = 'CHALLENGE',
-  Hell = 'HELL'
+  Hell = 'HELL',
+  Direction = 'DIRECTION'
 }
 
+export enum QuestionType {
+  FindPoint = 'FIND_POINT', // Show (x, y), student clicks the spot
+  NamePoint = 'NAME_POINT',  // Show a marker, student types its (x, y)
+  PredictScript = 'PREDICT_SCRIPT', // Show a Scratch motion script, student clicks where the sprite ends up
+  PlotShape = 'PLOT_SHAPE', // Place several vertices in order to draw or complete a shape
+  PointDirection = 'POINT_DIRECTION', // Show a `point in direction` value, student drags the sprite's arrow to it
+  ReadDirection = 'READ_DIRECTION', // Show an arrow, student types its Scratch direction
+  Transform = 'TRANSFORM' // Show a point and a chain of moves, reflections and rotations, student clicks where it lands
+}
+
+// How a run through a level is played; every type works with any GameConfig
+export enum SessionType {
+  Practice = 'PRACTICE', // No clock, just keep going
+  Timed = 'TIMED', // As many hits as possible before the clock runs out
+  FirstTo = 'FIRST_TO', // Race to a fixed number of hits
+  SuddenDeath = 'SUDDEN_DEATH' // Keep the streak alive, one miss ends it
+}
+
+// How the next target is chosen
+export type TargetPolicy =
+  | 'uniform' // Any grid point, equally likely
+  | 'adaptive'; // Leans toward the student's weak areas, skips recent repeats, keeps axis points coming
+
 export interface GameConfig {
-  id: DifficultyLevel;
-  name: string;
-  description: string;
+  id: string; // A DifficultyLevel for the built-in modes, `custom-…` for teacher levels
+  name: string; // Message key for the built-in modes, plain text for custom levels
+  description: string; // Same as name
   xRange: [number, number];
   yRange: [number, number];
   gridStep: number; // For rendering grid lines
@@ -21,6 +50,114 @@ export interface GameConfig {
   labelStep: number; // For rendering text numbers
   targetStep: number; // Targets will be multiples of this (e.g., 1, 5, 10)
   tolerance: number; // How "forgiving" the click detection is in logical units
+  precision?: number; // Clicks snap to multiples of this, e.g. 0.5 for halves; whole units when unset
   themeColor: string;
   originPos: 'center' | 'bottom-left';
-}
\ No newline at end of file
+  questionTypes: QuestionType[]; // Round types this level mixes (picked at random each round)
+  targetPolicy: TargetPolicy;
+  unlock?: UnlockCondition[]; // All must be met before the level opens; open from the start without any
+}
+// One answer given by the student, kept for the teacher's history view
+export interface AttemptRecord {
+  mode: string; // GameConfig id
+  questionType: QuestionType;
+  target: Point;
+  clickPos: Point; // Where they clicked, or what they typed
+  distance: number; // Logical units from the target
+  success: boolean;
+  timeMs: number; // From the round appearing to this answer
+  timestamp: number;
+}
+
+// One requirement for opening a level, measured on the student's answers in another level (by id)
+export type UnlockCondition =
+  | { kind: 'hits'; level: string; count: number } // Hits there in total
+  | { kind: 'accuracy'; level: string; min: number; over: number } // Share of hits (0–1) among the last `over` answers there
+  | { kind: 'precision'; level: string; min: number } // Average precision (0–1) over recent answers there
+  | { kind: 'streak'; level: string; count: number }; // That many hits in a row there, at any time
+
+// One finished race session, shown on the level's local leaderboard
+export interface LeaderboardEntry {
+  profileId: string;
+  name: string;
+  avatar: string;
+  sessionType: SessionType;
+  hits: number;
+  attempts: number;
+  bestStreak: number;
+  timeMs: number; // From pressing start to the session ending
+  timestamp: number;
+}
+
+// A shape being plotted, as the canvas draws it
+export interface ShapeOverlay {
+  segments: [LabeledPoint, LabeledPoint][]; // Outline edges whose both ends are known
+  given: LabeledPoint[]; // Fixed corners shown from the start
+  placed: LabeledPoint[]; // Vertices the student has put down
+  results?: boolean[] | null; // Per placed vertex, once the shape is checked
+  solution?: LabeledPoint[] | null; // Correct spots for the wrong vertices, once checked
+}
+
+// Sprite drawn in place of the default cat marker, e.g. from an imported Scratch project
+export interface TargetMarker {
+  label: string; // Shown under the picture
+  image: string | null; // Image URL; null keeps the cat
+}
+
+// Protractor ring and arrows for direction rounds, all in Scratch degrees
+export interface DirectionOverlay {
+  radius: number; // Ring radius in logical units, centred on the origin
+  shown: number | null; // Arrow the student has to read
+  aim: number | null; // Arrow following the pointer while they aim
+  answer: number | null; // What they answered
+  expected: number | null; // The right direction, revealed after a miss
+}
+
+// Ships and shots of a battleship board
+export interface FleetOverlay {
+  ships: Point[][]; // Cells of each ship on show: your own while placing, sunk ones while firing
+  preview: { cells: Point[]; valid: boolean } | null; // Ship following the pointer while placing
+  hits: Point[];
+  misses: Point[];
+}
+
+// How past misses are drawn over the grid
+export type MissOverlayStyle = 'off' | 'heatmap' | 'scatter';
+
+// Highlight drawn on the canvas to go with a misconception hint
+export interface VisualCue {
+  column?: number; // Highlight the vertical grid line at this x
+  row?: number; // Highlight the horizontal grid line at this y
+  signX?: 1 | -1; // Flash the half of the x axis with this sign
+  signY?: 1 | -1;
+}
+
+// Per-student preferences, stored with the profile
+export interface ProfileSettings {
+  missOverlay: MissOverlayStyle;
+  locale: Locale;
+  theme: ThemeName;
+  colorBlind: boolean; // Blue and orange instead of green and red
+  reducedMotion: boolean; // On top of the computer's own setting
+  speech: boolean; // Read each question out loud
+  sonification: boolean; // Play the pointer's position as sound
+  earcons: boolean; // Short sounds for hits and misses
+}
+
+// How the app looks and sounds, which guests can pick too
+export type Preferences = Omit<ProfileSettings, 'missOverlay' | 'locale'>;
+
+export interface StudentProfile {
+  id: string;
+  name: string;
+  avatar: string; // Emoji shown in the picker
+  createdAt: number;
+  progress: Record<string, number>; // Successful hits per level id
+  settings: ProfileSettings;
+  attempts: AttemptRecord[];
+  achievements: Record<string, number>; // Achievement id -> when it was earned
+}
+
+export type Locale = 'zh-CN' | 'en';
+
+export type ThemeName = 'light' | 'dark' | 'contrast';
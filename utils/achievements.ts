@@ -0,0 +1,134 @@
+import { AttemptRecord, DifficultyLevel, QuestionType } from '../types';
+import { MessageKey } from '../i18n';
+import { GAME_MODES } from '../constants';
+import { isDirectionType } from './directions';
+import { starsFor } from './scoring';
+import { longestStreak } from './unlocks';
+
+// What an achievement is checked against: the whole record of one student
+export interface AchievementContext {
+  attempts: AttemptRecord[];
+  progress: Record<string, number>;
+}
+
+export interface Achievement {
+  id: string; // Stored with the profile, so never rename one
+  icon: string;
+  name: MessageKey;
+  description: MessageKey;
+  earned: (ctx: AchievementContext) => boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Local calendar day as a whole number, so consecutive days differ by one (DST included)
+const dayNumber = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return Math.round(new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime() / DAY_MS);
+};
+
+// Most days in a row with at least one answer
+export const longestDayStreak = (attempts: AttemptRecord[]) => {
+  const days = [...new Set(attempts.map(a => dayNumber(a.timestamp)))].sort((a, b) => a - b);
+  let best = 0;
+  let run = 0;
+  days.forEach((day, i) => {
+    run = i > 0 && day === days[i - 1] + 1 ? run + 1 : 1;
+    best = Math.max(best, run);
+  });
+  return best;
+};
+
+const hits = (attempts: AttemptRecord[], type?: QuestionType) =>
+  attempts.filter(a => a.success && (type === undefined || a.questionType === type));
+
+// Hits on points (not directions) strictly inside each quadrant
+const quadrantsHit = (attempts: AttemptRecord[]) => {
+  const quadrants = new Set<string>();
+  for (const a of hits(attempts)) {
+    if (isDirectionType(a.questionType) || a.target.x === 0 || a.target.y === 0) continue;
+    quadrants.add(`${Math.sign(a.target.x)}${Math.sign(a.target.y)}`);
+  }
+  return quadrants.size;
+};
+
+// In the order they're shown in the trophy case
+export const ACHIEVEMENTS: Achievement[] = [
+  {
+    id: 'firstHit',
+    icon: '🎯',
+    name: 'achievement.firstHit.name',
+    description: 'achievement.firstHit.description',
+    earned: ({ attempts }) => hits(attempts).length > 0
+  },
+  {
+    id: 'quadrants',
+    icon: '🗺️',
+    name: 'achievement.quadrants.name',
+    description: 'achievement.quadrants.description',
+    earned: ({ attempts }) => quadrantsHit(attempts) === 4
+  },
+  {
+    id: 'streak10',
+    icon: '🔥',
+    name: 'achievement.streak10.name',
+    description: 'achievement.streak10.description',
+    earned: ({ attempts }) => longestStreak(attempts) >= 10
+  },
+  {
+    id: 'hundredHits',
+    icon: '💯',
+    name: 'achievement.hundredHits.name',
+    description: 'achievement.hundredHits.description',
+    earned: ({ progress }) => Object.values(progress).reduce((sum, n) => sum + n, 0) >= 100
+  },
+  {
+    id: 'shapeMaker',
+    icon: '🔷',
+    name: 'achievement.shapeMaker.name',
+    description: 'achievement.shapeMaker.description',
+    earned: ({ attempts }) => hits(attempts, QuestionType.PlotShape).length > 0
+  },
+  {
+    id: 'scriptReader',
+    icon: '🐱',
+    name: 'achievement.scriptReader.name',
+    description: 'achievement.scriptReader.description',
+    earned: ({ attempts }) => hits(attempts, QuestionType.PredictScript).length >= 10
+  },
+  {
+    id: 'compass',
+    icon: '🧭',
+    name: 'achievement.compass.name',
+    description: 'achievement.compass.description',
+    earned: ({ attempts }) => hits(attempts).filter(a => isDirectionType(a.questionType)).length >= 20
+  },
+  {
+    // Three stars on a clicked point: typed answers would make it too easy
+    id: 'hellBullseye',
+    icon: '💎',
+    name: 'achievement.hellBullseye.name',
+    description: 'achievement.hellBullseye.description',
+    earned: ({ attempts }) => hits(attempts, QuestionType.FindPoint).some(
+      a => a.mode === DifficultyLevel.Hell && starsFor(a.distance, GAME_MODES[DifficultyLevel.Hell]) === 3
+    )
+  },
+  {
+    id: 'allModes',
+    icon: '🏅',
+    name: 'achievement.allModes.name',
+    description: 'achievement.allModes.description',
+    earned: ({ progress }) => Object.values(DifficultyLevel).every(mode => (progress[mode] || 0) > 0)
+  },
+  {
+    id: 'practiceWeek',
+    icon: '📅',
+    name: 'achievement.practiceWeek.name',
+    description: 'achievement.practiceWeek.description',
+    earned: ({ attempts }) => longestDayStreak(attempts) >= 7
+  }
+];
+
+// Achievements the record now qualifies for that haven't been awarded yet
+export const newlyEarned = (ctx: AchievementContext, awarded: Record<string, number>): Achievement[] =>
+  ACHIEVEMENTS.filter(a => !(a.id in awarded) && a.earned(ctx));
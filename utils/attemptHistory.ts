@@ -0,0 +1,42 @@
+import { AttemptRecord, Point } from '../types';
+
+export type Region = 'I' | 'II' | 'III' | 'IV' | 'axis';
+
+export const REGIONS: Region[] = ['I', 'II', 'III', 'IV', 'axis'];
+
+export interface AccuracyStat {
+  attempts: number;
+  hits: number;
+}
+
+// Points on either axis get their own bucket, they're a classic stumbling block
+export const getRegion = ({ x, y }: Point): Region => {
+  if (x === 0 || y === 0) return 'axis';
+  if (x > 0) return y > 0 ? 'I' : 'IV';
+  return y > 0 ? 'II' : 'III';
+};
+
+export const accuracy = (stat: AccuracyStat) => (stat.attempts === 0 ? 0 : stat.hits / stat.attempts);
+
+const tally = (attempts: AttemptRecord[], keyOf: (a: AttemptRecord) => string): Record<string, AccuracyStat> => {
+  const stats: Record<string, AccuracyStat> = {};
+  for (const attempt of attempts) {
+    const key = keyOf(attempt);
+    const stat = stats[key] ?? (stats[key] = { attempts: 0, hits: 0 });
+    stat.attempts += 1;
+    if (attempt.success) stat.hits += 1;
+  }
+  return stats;
+};
+
+export const accuracyByMode = (attempts: AttemptRecord[]) => tally(attempts, a => a.mode);
+
+export const accuracyByRegion = (attempts: AttemptRecord[]) => tally(attempts, a => getRegion(a.target));
+
+// Local calendar day, e.g. "2024-05-01"
+export const dayKey = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+export const accuracyByDay = (attempts: AttemptRecord[]) => tally(attempts, a => dayKey(a.timestamp));
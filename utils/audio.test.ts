@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { DifficultyLevel } from '../types';
+import { GAME_MODES } from '../constants';
+import { createTranslator } from '../i18n';
+import { sonifiedPoint, spokenMessage, spokenPoint, spokenSentences } from './audio';
+import { describeShapeTask } from './shapeTasks';
+import { describeTransform } from './transforms';
+import { formatMotionBlock } from './scratchMotion';
+
+const t = createTranslator('en');
+
+describe('spoken questions', () => {
+  it('says the sign of every number in a message', () => {
+    expect(spokenMessage(formatMotionBlock({ op: 'goto', x: -40, y: 30 }), t)).toBe('go to x: minus 40 y: 30');
+    expect(spokenMessage(formatMotionBlock({ op: 'changeX', dx: -10 }), t)).toBe('change x by minus 10');
+    expect(spokenMessage(describeTransform({ kind: 'translate', dx: -3, dy: 2 }), t)).toBe('Move 3 left and 2 up');
+  });
+
+  it('reads shape corners with their signs', () => {
+    const vertex = (p: { label: string; x: number; y: number }) => t('speech.vertex', { label: p.label, point: spokenPoint(p, t) });
+    const answers = [{ x: -2, y: 1, label: 'A' }, { x: 3, y: -4, label: 'B' }, { x: 0, y: 5, label: 'C' }];
+    const task = { kind: 'plotPolygon' as const, outline: answers, given: [], answers };
+    expect(spokenMessage(describeShapeTask(task, vertex), t))
+      .toBe('Plot A at x minus 2, y 1, B at x 3, y minus 4, C at x 0, y 5 in order and join them up');
+  });
+
+  it('puts a full stop between sentences that have none', () => {
+    expect(spokenSentences(['Plot the shape', 'Plot A in order'], t)).toBe('Plot the shape. Plot A in order');
+    expect(spokenSentences(['Where does the point land?', 'Move 3 left'], t)).toBe('Where does the point land? Move 3 left');
+  });
+});
+
+describe('position sounds', () => {
+  it('only changes note at another grid crossing', () => {
+    const hell = GAME_MODES[DifficultyLevel.Hell];
+    const sweep = Array.from({ length: 60 }, (_, i) => sonifiedPoint({ x: i, y: -3 }, hell));
+    expect(new Set(sweep.map(p => `${p.x},${p.y}`))).toEqual(new Set(['0,0', '20,0', '40,0', '60,0']));
+  });
+});
@@ -0,0 +1,112 @@
+import { GameConfig, Point } from '../types';
+import { Message, Translate } from '../i18n';
+import { snapTo } from './gridDrawing';
+
+// Sound for students who can't read the grid well (or can't read yet): questions read out loud,
+// the pointer's position played as a tone, and short earcons for hits and misses.
+// Nothing makes a sound unless the settings switch it on.
+
+// Said with the sign as a word, since speech engines drop the "-" or read it as "dash"
+export const spokenNumber = (n: number, t: Translate) => (n < 0 ? t('speech.negative', { n: -n }) : String(n));
+
+export const spokenPoint = (p: Point, t: Translate) =>
+  t('speech.point', { x: spokenNumber(p.x, t), y: spokenNumber(p.y, t) });
+
+// A message as it should sound: the numbers in it get their signs said too
+export const spokenMessage = ({ key, params }: Message, t: Translate) =>
+  t(key, params && Object.fromEntries(Object.entries(params).map(([k, v]) => [k, typeof v === 'number' ? spokenNumber(v, t) : v])));
+
+// Sentences read one after the other, with a full stop between them unless one ends in its own
+export const spokenSentences = (sentences: string[], t: Translate) =>
+  sentences.reduce((first, next) => (/[.?!。？！]$/.test(first) ? `${first} ${next}` : t('speech.sentences', { first, next })));
+
+export const canSpeak = () => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+// Says `text` in the given language (`htmlLang` of the app's locale), cutting off whatever was still being said
+export const speak = (text: string, lang: string) => {
+  if (!canSpeak()) return;
+  window.speechSynthesis.cancel();
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = lang;
+  utterance.rate = 0.9; // A little slower than usual, for young listeners
+  window.speechSynthesis.speak(utterance);
+};
+
+export const stopSpeaking = () => {
+  if (canSpeak()) window.speechSynthesis.cancel();
+};
+
+// One audio context for the page, made on first use. Browsers keep it silent until the first
+// click or key press, so hover sounds start once the student has answered or pressed a key.
+let context: AudioContext | null = null;
+const audioContext = () => {
+  if (typeof window === 'undefined' || !('AudioContext' in window)) return null;
+  context ??= new AudioContext();
+  if (context.state === 'suspended') void context.resume();
+  return context;
+};
+
+interface Note {
+  frequency: number; // Hz
+  start: number; // Seconds from now
+  duration: number; // Seconds
+  type?: OscillatorType;
+  pan?: number; // -1 left to 1 right
+  volume?: number;
+}
+
+// Each note fades in and out quickly so it doesn't click
+const playNotes = (notes: Note[]) => {
+  const ctx = audioContext();
+  if (!ctx) return;
+  for (const note of notes) {
+    const at = ctx.currentTime + note.start;
+    const oscillator = ctx.createOscillator();
+    const gain = ctx.createGain();
+    const panner = ctx.createStereoPanner();
+    oscillator.type = note.type ?? 'sine';
+    oscillator.frequency.value = note.frequency;
+    panner.pan.value = note.pan ?? 0;
+    gain.gain.setValueAtTime(0, at);
+    gain.gain.linearRampToValueAtTime(note.volume ?? 0.2, at + 0.01);
+    gain.gain.exponentialRampToValueAtTime(0.0001, at + note.duration);
+    oscillator.connect(gain).connect(panner).connect(ctx.destination);
+    oscillator.start(at);
+    oscillator.stop(at + note.duration + 0.02);
+  }
+};
+
+// The bottom of the grid sounds at A3, the top two octaves higher
+const LOW_PITCH = 220;
+const OCTAVES = 2;
+
+// Where `v` sits between the ends of a range, 0 to 1
+const shareOf = (v: number, [min, max]: [number, number]) =>
+  max > min ? Math.min(1, Math.max(0, (v - min) / (max - min))) : 0.5;
+
+// Position notes come at most this often, however fast the pointer sweeps
+export const POSITION_NOTE_GAP_MS = 80;
+
+// The grid crossing nearest the pointer; only reaching another one is worth a note
+export const sonifiedPoint = (p: Point, { gridStep }: GameConfig): Point =>
+  ({ x: snapTo(p.x, gridStep), y: snapTo(p.y, gridStep) });
+
+// Higher points sound higher; points further right come more from the right speaker
+export const playPosition = (p: Point, { xRange, yRange }: GameConfig) => playNotes([{
+  frequency: LOW_PITCH * 2 ** (shareOf(p.y, yRange) * OCTAVES),
+  pan: shareOf(p.x, xRange) * 2 - 1,
+  start: 0,
+  duration: 0.12,
+  volume: 0.12
+}]);
+
+export type Earcon = 'hit' | 'miss';
+
+const EARCONS: Record<Earcon, Note[]> = {
+  // A rising major chord, one note after the other
+  hit: [523.25, 659.25, 783.99].map((frequency, i) => ({ frequency, start: i * 0.09, duration: 0.18 })),
+  // Two low notes going down, with a buzzier sound
+  miss: [311.13, 233.08].map((frequency, i) => ({ frequency, start: i * 0.16, duration: 0.2, type: 'triangle', volume: 0.25 }))
+};
+
+export const playEarcon = (earcon: Earcon) => playNotes(EARCONS[earcon]);
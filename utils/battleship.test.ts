@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { DifficultyLevel, GameConfig } from '../types';
+import { GAME_MODES } from '../constants';
+import { checkPlacement, checkShot, emptyBoard, fleetFits, randomFleet, shipCells, snapToTarget } from './battleship';
+import { seededRandom } from './random';
+
+// Target points at -15, -5, 5, 15 and 25: a step of 10, but not on the multiples of 10
+const OFFSET: GameConfig = {
+  ...GAME_MODES[DifficultyLevel.Hell],
+  id: 'custom-x',
+  xRange: [-15, 25],
+  yRange: [-15, 25],
+  gridStep: 5,
+  targetStep: 10
+};
+
+describe('battleship grid', () => {
+  it('counts target points from the corner of the grid', () => {
+    expect(checkShot({ x: -5, y: 15 }, emptyBoard(), OFFSET)).toEqual([]);
+    expect(checkShot({ x: 0, y: 10 }, emptyBoard(), OFFSET)).toEqual([{ key: 'battleship.error.offGrid', params: { step: 10 } }]);
+    expect(checkPlacement(shipCells({ x: -15, y: -15 }, 4, 'horizontal', 10), emptyBoard(), OFFSET)).toEqual([]);
+  });
+
+  it('places a ship where it was clicked, on the nearest target point', () => {
+    const start = snapToTarget({ x: -3.2, y: 11.4 }, OFFSET);
+    expect(start).toEqual({ x: -5, y: 15 });
+    expect(checkPlacement(shipCells(start, 2, 'horizontal', OFFSET.targetStep), emptyBoard(), OFFSET)).toEqual([]);
+    expect(snapToTarget({ x: 0.4, y: -0.3 }, GAME_MODES[DifficultyLevel.Hell])).toEqual({ x: 0, y: 0 });
+  });
+
+  it('places a random fleet on the same points the checks accept', () => {
+    expect(fleetFits(OFFSET)).toBe(true);
+    const board = randomFleet(OFFSET, seededRandom(7));
+    board.ships.forEach(ship => expect(checkPlacement(ship.cells, emptyBoard(), OFFSET)).toEqual([]));
+  });
+});
@@ -0,0 +1,121 @@
+import { GameConfig, Point } from '../types';
+import { Message } from '../i18n';
+import { Random } from './random';
+import { isMultipleOf, snapTo } from './gridDrawing';
+import { gridValues } from './targetScheduler';
+
+// Coordinate battleship: ships sit on the level's target points, shots are typed as (x, y)
+
+// Ship lengths in grid points, placed in this order
+export const FLEET = [4, 3, 3, 2];
+
+export type Orientation = 'horizontal' | 'vertical';
+
+export interface Ship {
+  cells: Point[];
+}
+
+// One player's waters: their ships, and the shots the other player has fired at them
+export interface Board {
+  ships: Ship[];
+  shots: Point[];
+}
+
+export type ShotResult = 'miss' | 'hit' | 'sunk';
+
+export const emptyBoard = (): Board => ({ ships: [], shots: [] });
+
+export const samePoint = (a: Point, b: Point) => a.x === b.x && a.y === b.y;
+
+// The longest ship has to fit in a row or a column, with room to spare for hiding the whole fleet
+export const fleetFits = ({ xRange, yRange, targetStep }: GameConfig) => {
+  const columns = gridValues(xRange, targetStep).length;
+  const rows = gridValues(yRange, targetStep).length;
+  return Math.max(columns, rows) >= Math.max(...FLEET) && columns * rows >= 2 * FLEET.reduce((a, b) => a + b, 0);
+};
+
+// The target point nearest a click, counted from the bottom-left corner like gridErrors does
+export const snapToTarget = (p: Point, { xRange, yRange, targetStep }: GameConfig): Point => {
+  // Rounded like shipCells, so -15 + 10 gives -5 and not -4.999999999999999
+  const snap = (v: number, min: number) => Math.round((min + snapTo(v - min, targetStep)) * 1e6) / 1e6;
+  return { x: snap(p.x, xRange[0]), y: snap(p.y, yRange[0]) };
+};
+
+// From where the ship starts, to the right or upwards, one target step apart
+export const shipCells = (start: Point, length: number, orientation: Orientation, step: number): Point[] =>
+  Array.from({ length }, (_, i) => {
+    // Rounded so half steps give 2.5 rather than 2.4999999999999996
+    const along = (v: number) => Math.round((v + i * step) * 1e6) / 1e6;
+    return orientation === 'horizontal' ? { x: along(start.x), y: start.y } : { x: start.x, y: along(start.y) };
+  });
+
+// Problems shared by ships and shots: every point must be one of the level's target points,
+// counted from the bottom-left corner like gridValues does
+const gridErrors = (points: Point[], { xRange, yRange, targetStep }: GameConfig): Message[] => {
+  const errors: Message[] = [];
+  if (points.some(p => !isMultipleOf(p.x - xRange[0], targetStep) || !isMultipleOf(p.y - yRange[0], targetStep))) {
+    errors.push({ key: 'battleship.error.offGrid', params: { step: targetStep } });
+  }
+  if (points.some(p => p.x < xRange[0] || p.x > xRange[1] || p.y < yRange[0] || p.y > yRange[1])) {
+    errors.push({
+      key: 'battleship.error.outside',
+      params: { minX: xRange[0], maxX: xRange[1], minY: yRange[0], maxY: yRange[1] }
+    });
+  }
+  return errors;
+};
+
+// Why a ship can't go here; empty when it can
+export const checkPlacement = (cells: Point[], board: Board, config: GameConfig): Message[] => {
+  const errors = gridErrors(cells, config);
+  if (cells.some(c => board.ships.some(s => s.cells.some(d => samePoint(c, d))))) {
+    errors.push({ key: 'battleship.error.overlap' });
+  }
+  return errors;
+};
+
+// Why this shot can't be fired at the board; empty when it can
+export const checkShot = (shot: Point, board: Board, config: GameConfig): Message[] => {
+  const errors = gridErrors([shot], config);
+  if (board.shots.some(s => samePoint(s, shot))) {
+    errors.push({ key: 'battleship.error.repeat', params: { x: shot.x, y: shot.y } });
+  }
+  return errors;
+};
+
+export const isSunk = (ship: Ship, shots: Point[]) => ship.cells.every(c => shots.some(s => samePoint(s, c)));
+
+export const fleetSunk = (board: Board) => board.ships.length > 0 && board.ships.every(s => isSunk(s, board.shots));
+
+// Fires one (already checked) shot at the board
+export const fire = (board: Board, shot: Point): { board: Board; result: ShotResult } => {
+  const next = { ...board, shots: [...board.shots, shot] };
+  const ship = board.ships.find(s => s.cells.some(c => samePoint(c, shot)));
+  return { board: next, result: !ship ? 'miss' : isSunk(ship, next.shots) ? 'sunk' : 'hit' };
+};
+
+// Shots split by outcome, for drawing
+export const shotMarks = (board: Board) => ({
+  hits: board.shots.filter(s => board.ships.some(ship => ship.cells.some(c => samePoint(c, s)))),
+  misses: board.shots.filter(s => !board.ships.some(ship => ship.cells.some(c => samePoint(c, s))))
+});
+
+// Tries random spots until every ship fits; the board is only filled up once fleetFits says so
+export const randomFleet = (config: GameConfig, random: Random = Math.random): Board => {
+  const xs = gridValues(config.xRange, config.targetStep);
+  const ys = gridValues(config.yRange, config.targetStep);
+  for (let attempt = 0; attempt < 100; attempt++) {
+    const board = emptyBoard();
+    for (const length of FLEET) {
+      for (let tries = 0; tries < 200; tries++) {
+        const start = { x: xs[Math.floor(random() * xs.length)], y: ys[Math.floor(random() * ys.length)] };
+        const cells = shipCells(start, length, random() < 0.5 ? 'horizontal' : 'vertical', config.targetStep);
+        if (checkPlacement(cells, board, config).length > 0) continue;
+        board.ships.push({ cells });
+        break;
+      }
+    }
+    if (board.ships.length === FLEET.length) return board;
+  }
+  throw new Error(`The fleet doesn't fit on ${config.id}`);
+};
@@ -0,0 +1,94 @@
+import { DifficultyLevel, GameConfig } from '../types';
+import { GAME_MODES } from '../constants';
+import { Message } from '../i18n';
+import { LevelError, decodeLevel, encodeLevel, isCustomLevel } from './customLevels';
+import { Random, seedFromText, seededRandom } from './random';
+
+// A fixed run of rounds everyone can replay: same level, same seed, same targets in the same order
+export interface Challenge {
+  level: GameConfig;
+  seed: string; // Upper case letters and digits
+  rounds: number;
+}
+
+export const MIN_CHALLENGE_ROUNDS = 5;
+export const MAX_CHALLENGE_ROUNDS = 50;
+export const DEFAULT_CHALLENGE_ROUNDS = 10;
+export const CHALLENGE_ROUND_OPTIONS = [MIN_CHALLENGE_ROUNDS, DEFAULT_CHALLENGE_ROUNDS, 15, 20, 30, MAX_CHALLENGE_ROUNDS];
+
+// Seeds are typed by children, so keep them to letters and digits
+export const cleanSeed = (text: string) => text.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, 12);
+
+const HASH_PREFIX = '#challenge=';
+
+// One letter per built-in mode; custom levels travel inside the code instead
+const MODE_LETTERS: Record<DifficultyLevel, string> = {
+  [DifficultyLevel.Intro]: 'I',
+  [DifficultyLevel.Advanced]: 'A',
+  [DifficultyLevel.Challenge]: 'C',
+  [DifficultyLevel.Hell]: 'H',
+  [DifficultyLevel.Direction]: 'D'
+};
+const CUSTOM_LETTER = 'L';
+
+// E.g. H10-K3X9P2, or L10-K3X9P2-<level> for a teacher's level
+const CODE_PATTERN = /^([A-Z])(\d{1,2})-([A-Z0-9]{1,12})(?:-([A-Za-z0-9_-]+))?$/;
+
+// Thrown by readChallengeCode; carries messages so the UI can show them in the current language
+export class ChallengeError extends Error {
+  constructor(public messages: Message[]) {
+    super(messages.map(m => m.key).join(', '));
+    this.name = 'ChallengeError';
+  }
+}
+
+// Short name for showing on screen: the code without the custom level packed into it
+export const challengeTag = ({ level, seed, rounds }: Challenge): string => {
+  const letter = isCustomLevel(level.id) ? CUSTOM_LETTER : MODE_LETTERS[level.id as DifficultyLevel];
+  return `${letter}${rounds}-${seed.toUpperCase()}`;
+};
+
+export const challengeCode = (challenge: Challenge): string =>
+  isCustomLevel(challenge.level.id) ? `${challengeTag(challenge)}-${encodeLevel(challenge.level)}` : challengeTag(challenge);
+
+export const readChallengeCode = (code: string): Challenge => {
+  const trimmed = code.trim();
+  // The level part is case sensitive, the rest may be typed in any case
+  const [head, ...rest] = trimmed.split('-');
+  const match = CODE_PATTERN.exec([head.toUpperCase(), (rest[0] ?? '').toUpperCase(), ...rest.slice(1)].join('-'));
+  if (!match) throw new ChallengeError([{ key: 'challenge.error.format' }]);
+  const [, letter, roundText, seed, encodedLevel] = match;
+
+  const rounds = Number(roundText);
+  if (rounds < MIN_CHALLENGE_ROUNDS || rounds > MAX_CHALLENGE_ROUNDS) {
+    throw new ChallengeError([{ key: 'challenge.error.rounds', params: { min: MIN_CHALLENGE_ROUNDS, max: MAX_CHALLENGE_ROUNDS } }]);
+  }
+
+  if (letter === CUSTOM_LETTER) {
+    if (!encodedLevel) throw new ChallengeError([{ key: 'challenge.error.format' }]);
+    try {
+      return { level: decodeLevel(encodedLevel), seed, rounds };
+    } catch (e) {
+      throw new ChallengeError(e instanceof LevelError ? e.messages : [{ key: 'challenge.error.badLevel' }]);
+    }
+  }
+
+  const mode = (Object.keys(MODE_LETTERS) as DifficultyLevel[]).find(m => MODE_LETTERS[m] === letter);
+  if (!mode || encodedLevel) throw new ChallengeError([{ key: 'challenge.error.level', params: { letter } }]);
+  return { level: GAME_MODES[mode], seed, rounds };
+};
+
+// Each round has its own generator, so round 7 is the same however rounds 1–6 went
+export const roundRandom = (challenge: Challenge, round: number): Random =>
+  seededRandom(seedFromText(`${challenge.seed}/${challenge.level.id}/${round}`));
+
+export const buildChallengeUrl = (challenge: Challenge): string => {
+  const { origin, pathname, search } = window.location;
+  return `${origin}${pathname}${search}${HASH_PREFIX}${challengeCode(challenge)}`;
+};
+
+// Returns the challenge carried in the URL hash, null when there is none
+export const readChallengeFromHash = (hash: string): Challenge | null => {
+  if (!hash.startsWith(HASH_PREFIX)) return null;
+  return readChallengeCode(decodeURIComponent(hash.slice(HASH_PREFIX.length)));
+};
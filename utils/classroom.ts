@@ -0,0 +1,173 @@
+// Classroom mode: what the students' apps, the teacher's dashboard and the server on the teacher's
+// machine (server/classroomServer.ts) say to each other, as JSON over a WebSocket.
+// Type imports only, so the server can load this file without the rest of the app.
+import type { AttemptRecord } from '../types';
+
+export const CLASSROOM_PORT = 8787;
+// Bumped whenever a message changes shape; apps and servers of different versions refuse each other
+export const CLASSROOM_PROTOCOL = 1;
+// Answers the server keeps per student, for a dashboard that opens (or reloads) mid-lesson
+export const CLASSROOM_HISTORY = 50;
+// Answers the dashboard's accuracy looks back over
+export const RECENT_WINDOW = 20;
+
+export interface ClassroomLevel {
+  id: string;
+  name: string; // Message key for the built-in modes, plain text for custom levels, like GameConfig
+}
+
+export interface ClassroomStudent {
+  id: string; // Profile id, so a laptop that drops off the wifi picks up where it left off
+  name: string;
+  avatar: string;
+  level: ClassroomLevel | null; // What they're playing right now
+  connected: boolean;
+  attempts: AttemptRecord[]; // Oldest first, at most CLASSROOM_HISTORY
+}
+
+export type ClassroomStudentInfo = Omit<ClassroomStudent, 'attempts'>;
+
+// Sent by the teacher to every student in the class
+export type ClassroomPush =
+  | { kind: 'level'; id: string; encoded?: string } // `encoded` carries a custom level (see encodeLevel)
+  | { kind: 'challenge'; code: string }; // A challenge code, see utils/challenge
+
+export type ClassroomErrorCode = 'protocol' | 'unknownClass' | 'badMessage' | 'notAllowed';
+
+export type ClientMessage =
+  // First message from the teacher; `code` gets the same class back after the dashboard reloads
+  | { type: 'host'; protocol: number; code?: string }
+  // First message from a student
+  | { type: 'join'; protocol: number; code: string; student: { id: string; name: string; avatar: string }; level: ClassroomLevel | null }
+  | { type: 'level'; level: ClassroomLevel } // Student switched level
+  | { type: 'attempt'; attempt: AttemptRecord } // Student answered
+  | { type: 'push'; push: ClassroomPush }; // Teacher only
+
+export type ServerMessage =
+  // `addresses` are where students can reach the server, for the teacher to read out
+  | { type: 'hosted'; code: string; addresses: string[]; students: ClassroomStudent[] }
+  | { type: 'joined'; code: string }
+  | { type: 'student'; student: ClassroomStudentInfo } // To the teacher: joined, left or switched level
+  | { type: 'attempt'; studentId: string; attempt: AttemptRecord } // To the teacher
+  | { type: 'push'; push: ClassroomPush } // To the students
+  | { type: 'error'; error: ClassroomErrorCode };
+
+// Messages from the server aren't checked beyond this; they come from a machine in the same room
+const SERVER_TYPES: ServerMessage['type'][] = ['hosted', 'joined', 'student', 'attempt', 'push', 'error'];
+
+// Join codes are read off the board, so typing is forgiving
+export const normalizeJoinCode = (code: string) => code.trim().toUpperCase();
+
+// `192.168.1.20`, `192.168.1.20:9000` or a full ws:// address all work
+export const classroomUrl = (address: string): string => {
+  const trimmed = address.trim().replace(/\/+$/, '');
+  const withScheme = /^wss?:\/\//i.test(trimmed) ? trimmed : `ws://${trimmed}`;
+  return /:\d+$/.test(withScheme) ? withScheme : `${withScheme}:${CLASSROOM_PORT}`;
+};
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null;
+
+// Names and ids are short; anything longer isn't from this app
+const isText = (v: unknown, max = 200): v is string => typeof v === 'string' && v.length <= max;
+
+const isPoint = (v: unknown) => isObject(v) && typeof v.x === 'number' && typeof v.y === 'number';
+
+const isAttempt = (v: unknown): v is AttemptRecord =>
+  isObject(v) && isText(v.mode) && isText(v.questionType) && isPoint(v.target) && isPoint(v.clickPos)
+  && typeof v.distance === 'number' && typeof v.success === 'boolean'
+  && typeof v.timeMs === 'number' && typeof v.timestamp === 'number';
+
+const isLevel = (v: unknown): v is ClassroomLevel => isObject(v) && isText(v.id) && isText(v.name);
+
+const isPush = (v: unknown): v is ClassroomPush =>
+  isObject(v) && (
+    (v.kind === 'level' && isText(v.id) && (v.encoded === undefined || isText(v.encoded, 100_000)))
+    || (v.kind === 'challenge' && isText(v.code, 100_000))
+  );
+
+// What the server accepts from apps; null for anything malformed
+export const parseClientMessage = (text: string): ClientMessage | null => {
+  let m: unknown;
+  try {
+    m = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!isObject(m)) return null;
+  switch (m.type) {
+    case 'host': {
+      const code = isText(m.code) ? m.code : undefined;
+      if (typeof m.protocol !== 'number' || (m.code !== undefined && code === undefined)) return null;
+      return { type: 'host', protocol: m.protocol, code };
+    }
+    case 'join': {
+      const s = m.student;
+      const level = isLevel(m.level) ? { id: m.level.id, name: m.level.name } : null;
+      if (typeof m.protocol !== 'number' || !isText(m.code) || !isObject(s)) return null;
+      if (!isText(s.id) || !isText(s.name) || !isText(s.avatar) || (m.level !== null && !level)) return null;
+      return {
+        type: 'join',
+        protocol: m.protocol,
+        code: m.code,
+        student: { id: s.id, name: s.name, avatar: s.avatar },
+        level
+      };
+    }
+    case 'level':
+      return isLevel(m.level) ? { type: 'level', level: { id: m.level.id, name: m.level.name } } : null;
+    case 'attempt':
+      return isAttempt(m.attempt) ? { type: 'attempt', attempt: m.attempt } : null;
+    case 'push':
+      return isPush(m.push) ? { type: 'push', push: m.push } : null;
+    default:
+      return null;
+  }
+};
+
+export const parseServerMessage = (text: string): ServerMessage | null => {
+  try {
+    const m: unknown = JSON.parse(text);
+    return isObject(m) && SERVER_TYPES.includes(m.type as ServerMessage['type']) ? (m as unknown as ServerMessage) : null;
+  } catch {
+    return null;
+  }
+};
+
+// Keeps the dashboard's copy of the class in step with what the server reports
+export const updateRoster = (students: ClassroomStudent[], message: ServerMessage): ClassroomStudent[] => {
+  switch (message.type) {
+    case 'hosted':
+      return message.students;
+    case 'student': {
+      const known = students.find(s => s.id === message.student.id);
+      const updated = { ...message.student, attempts: known?.attempts ?? [] };
+      return known ? students.map(s => (s.id === updated.id ? updated : s)) : [...students, updated];
+    }
+    case 'attempt':
+      return students.map(s =>
+        s.id === message.studentId ? { ...s, attempts: [...s.attempts, message.attempt].slice(-CLASSROOM_HISTORY) } : s
+      );
+    default:
+      return students;
+  }
+};
+
+export interface StudentSummary {
+  accuracy: number | null; // Share of hits among the last RECENT_WINDOW answers; null before the first
+  misses: AttemptRecord[]; // Latest first
+  stuck: boolean;
+}
+
+// At least this many misses among the last STUCK_WINDOW answers flags a student
+const STUCK_WINDOW = 5;
+const STUCK_MISSES = 4;
+
+export const summarizeStudent = ({ attempts }: ClassroomStudent, missCount = 3): StudentSummary => {
+  const recent = attempts.slice(-RECENT_WINDOW);
+  const latest = attempts.slice(-STUCK_WINDOW);
+  return {
+    accuracy: recent.length > 0 ? recent.filter(a => a.success).length / recent.length : null,
+    misses: attempts.filter(a => !a.success).slice(-missCount).reverse(),
+    stuck: latest.filter(a => !a.success).length >= STUCK_MISSES
+  };
+};
@@ -0,0 +1,83 @@
+import { ClientMessage, ServerMessage, parseServerMessage } from './classroom';
+
+export type ClassroomStatus = 'connecting' | 'open' | 'retrying';
+
+export interface ClassroomConnection {
+  send: (message: ClientMessage) => void;
+  close: () => void;
+}
+
+// Wait before trying again after the connection drops (ms)
+const RETRY_MS = 3000;
+// Messages held while offline; a student who answers on through a wifi blip loses nothing shorter than this
+const MAX_QUEUED = 200;
+
+/**
+ * Keeps a socket to the classroom server open until `close`. After a drop it
+ * reconnects, says `hello` again (a function, so it can carry what's current by
+ * then) and sends whatever was queued in the meantime.
+ */
+export const connectClassroom = (
+  url: string,
+  hello: () => ClientMessage,
+  onMessage: (message: ServerMessage) => void,
+  onStatus: (status: ClassroomStatus) => void
+): ClassroomConnection => {
+  let socket: WebSocket | null = null;
+  let ready = false;
+  let stopped = false;
+  let retry: ReturnType<typeof setTimeout> | undefined;
+  const queue: ClientMessage[] = [];
+
+  const open = () => {
+    onStatus('connecting');
+    let ws: WebSocket;
+    try {
+      ws = new WebSocket(url);
+    } catch {
+      // A malformed address throws straight away; treat it like a refused connection
+      onStatus('retrying');
+      retry = setTimeout(open, RETRY_MS);
+      return;
+    }
+    socket = ws;
+    ws.onopen = () => {
+      ready = true;
+      ws.send(JSON.stringify(hello()));
+      queue.splice(0).forEach(m => ws.send(JSON.stringify(m)));
+      onStatus('open');
+    };
+    ws.onmessage = e => {
+      const message = parseServerMessage(String(e.data));
+      if (message) onMessage(message);
+    };
+    ws.onclose = () => {
+      if (socket !== ws) return;
+      socket = null;
+      ready = false;
+      if (stopped) return;
+      onStatus('retrying');
+      retry = setTimeout(open, RETRY_MS);
+    };
+  };
+
+  open();
+
+  return {
+    send: message => {
+      if (stopped) return;
+      if (socket && ready) {
+        socket.send(JSON.stringify(message));
+        return;
+      }
+      queue.push(message);
+      queue.splice(0, queue.length - MAX_QUEUED);
+    },
+    close: () => {
+      stopped = true;
+      clearTimeout(retry);
+      socket?.close();
+      socket = null;
+    }
+  };
+};
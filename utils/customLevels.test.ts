@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createCustomLevel, importLevelsJson, loadCustomLevels } from './customLevels';
+
+const LEVEL = {
+  name: 'Small grid',
+  xRange: [-5, 5],
+  yRange: [-5, 5],
+  gridStep: 1,
+  labelStep: 1,
+  targetStep: 1,
+  tolerance: 0.4,
+  originPos: 'center'
+};
+
+describe('custom levels', () => {
+  const stored = new Map<string, string>();
+
+  beforeEach(() => {
+    stored.clear();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => stored.get(key) ?? null,
+      setItem: (key: string, value: string) => { stored.set(key, value); }
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('keeps the saved levels that still parse', () => {
+    stored.set('coordinate_custom_levels', JSON.stringify([
+      { ...LEVEL, id: 'custom-a' },
+      { ...LEVEL, id: 'custom-broken', xRange: 'wide' },
+      { ...LEVEL, id: 'custom-b' }
+    ]));
+    expect(loadCustomLevels().map(l => l.id)).toEqual(['custom-a', 'custom-b']);
+  });
+
+  it('gives every imported level without an id its own', () => {
+    const taken = ['custom-a', createCustomLevel('New', '').id];
+    const levels = importLevelsJson(JSON.stringify([LEVEL, LEVEL, LEVEL, { ...LEVEL, id: 'custom-a' }]), taken);
+    const ids = levels.map(l => l.id);
+    expect(ids[3]).toBe('custom-a');
+    expect(new Set(ids.slice(0, 3)).size).toBe(3);
+    ids.slice(0, 3).forEach(id => expect(taken).not.toContain(id));
+  });
+});
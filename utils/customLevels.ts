@@ -0,0 +1,301 @@
+import { GameConfig, QuestionType } from '../types';
+import { Message } from '../i18n';
+import { isDirectionType } from './directions';
+import { parseUnlock, validateUnlock } from './unlocks';
+
+const STORAGE_KEY = 'coordinate_custom_levels';
+const HASH_PREFIX = '#level=';
+
+export const CUSTOM_LEVEL_PREFIX = 'custom-';
+
+// Tailwind palettes the UI can build `bg-${color}-100` style classes from
+export const THEME_COLORS = ['emerald', 'blue', 'orange', 'rose', 'violet', 'amber', 'cyan', 'pink', 'lime', 'indigo'];
+
+// Canvas padding and label metrics, kept in sync with CoordinateCanvas
+const CANVAS_PADDING = 40;
+const LABEL_CHAR_WIDTH = 7; // 12px Noto Sans SC digits are ~7px wide
+const LABEL_GAP = 6;
+const LABEL_HEIGHT = 14;
+
+export const isCustomLevel = (id: string) => id.startsWith(CUSTOM_LEVEL_PREFIX);
+
+// Thrown by parseLevel; carries messages so the UI can show them in the current language
+export class LevelError extends Error {
+  constructor(public messages: Message[]) {
+    super(messages.map(m => m.key).join(', '));
+    this.name = 'LevelError';
+  }
+}
+
+let idCount = 0;
+
+// A custom id no other level has; the count keeps levels made in the same millisecond apart
+const newLevelId = (taken: Iterable<string>) => {
+  const used = new Set(taken);
+  let id: string;
+  do id = `${CUSTOM_LEVEL_PREFIX}${Date.now().toString(36)}${(idCount++).toString(36)}`; while (used.has(id));
+  return id;
+};
+
+// `taken` are the ids already in use
+export const createCustomLevel = (name: string, description: string, taken: Iterable<string> = []): GameConfig => ({
+  id: newLevelId(taken),
+  name,
+  description,
+  xRange: [-10, 10],
+  yRange: [-10, 10],
+  gridStep: 1,
+  labelStep: 2,
+  targetStep: 1,
+  tolerance: 0.4,
+  themeColor: 'violet',
+  originPos: 'center',
+  questionTypes: [QuestionType.FindPoint],
+  targetPolicy: 'adaptive'
+});
+
+// `step` divides `span` into a whole number of pieces (allowing for 0.1 + 0.2 style noise)
+const divides = (span: number, step: number) => {
+  const pieces = span / step;
+  return Math.abs(pieces - Math.round(pieces)) < 1e-6;
+};
+
+// Widest tick label on an axis, e.g. "-240"
+const widestLabel = ([min, max]: [number, number]) =>
+  Math.max(String(min).length, String(max).length) * LABEL_CHAR_WIDTH;
+
+/**
+ * Checks a level before it can be played. Returns the problems as messages,
+ * an empty list means the level is good to go. `canvasWidth` is the current
+ * on-screen width, used to make sure tick labels don't run into each other.
+ */
+export const validateLevel = (config: GameConfig, canvasWidth: number): Message[] => {
+  const errors: Message[] = [];
+  const { xRange, yRange, gridStep, majorGridStep, labelStep, targetStep, tolerance, precision } = config;
+
+  if (!config.name.trim()) errors.push({ key: 'level.error.nameEmpty' });
+
+  const xSpan = xRange[1] - xRange[0];
+  const ySpan = yRange[1] - yRange[0];
+  if (!(xSpan > 0)) errors.push({ key: 'level.error.xRangeEmpty' });
+  if (!(ySpan > 0)) errors.push({ key: 'level.error.yRangeEmpty' });
+
+  if (config.originPos === 'center') {
+    if (xRange[0] > 0 || xRange[1] < 0 || yRange[0] > 0 || yRange[1] < 0) {
+      errors.push({ key: 'level.error.centerNeedsZero' });
+    }
+  } else if (xRange[0] !== 0 || yRange[0] !== 0) {
+    errors.push({ key: 'level.error.bottomLeftNeedsZero' });
+  }
+
+  // Grid lines and targets are counted from the range minimum, so these must split the span evenly
+  const spanSteps: [string, number][] = [
+    ['gridStep', gridStep],
+    ['targetStep', targetStep]
+  ];
+  for (const [field, step] of spanSteps) {
+    if (!(step > 0)) {
+      errors.push({ key: 'level.error.stepPositive', params: { field } });
+      continue;
+    }
+    if (xSpan > 0 && !divides(xSpan, step)) {
+      errors.push({ key: 'level.error.stepDividesX', params: { field, step, span: xSpan } });
+    }
+    if (ySpan > 0 && !divides(ySpan, step)) {
+      errors.push({ key: 'level.error.stepDividesY', params: { field, step, span: ySpan } });
+    }
+  }
+
+  // ...and the axes themselves must sit on a grid line
+  if (gridStep > 0 && (!divides(xRange[0], gridStep) || !divides(yRange[0], gridStep))) {
+    errors.push({ key: 'level.error.axisOnGrid', params: { step: gridStep } });
+  }
+
+  // Labels and thick lines are picked from the drawn grid lines
+  const gridMultiples: [string, number | undefined][] = [
+    ['majorGridStep', majorGridStep],
+    ['labelStep', labelStep]
+  ];
+  for (const [field, step] of gridMultiples) {
+    if (step === undefined) continue;
+    if (!(step > 0)) {
+      errors.push({ key: 'level.error.stepPositive', params: { field } });
+    } else if (gridStep > 0 && !divides(step, gridStep)) {
+      errors.push({ key: 'level.error.gridMultiple', params: { field, step, grid: gridStep } });
+    }
+  }
+
+  if (!(tolerance > 0)) errors.push({ key: 'level.error.tolerancePositive' });
+
+  // Targets have to be somewhere a click can snap to
+  if (precision !== undefined) {
+    if (!(precision > 0)) {
+      errors.push({ key: 'level.error.stepPositive', params: { field: 'precision' } });
+    } else if (targetStep > 0 && !divides(targetStep, precision)) {
+      errors.push({ key: 'level.error.precisionMultiple', params: { step: targetStep, precision } });
+    }
+  }
+
+  if (config.questionTypes.length === 0) errors.push({ key: 'level.error.noQuestionTypes' });
+
+  errors.push(...validateUnlock(config));
+
+  // The protractor ring is drawn around the origin, so it needs room on every side
+  if (config.questionTypes.some(isDirectionType) && (config.originPos !== 'center' || !(xRange[0] < 0 && xRange[1] > 0 && yRange[0] < 0 && yRange[1] > 0))) {
+    errors.push({ key: 'level.error.directionNeedsCenter' });
+  }
+
+  // Labels: spacing between neighbouring ticks must fit the widest label
+  if (xSpan > 0 && ySpan > 0 && labelStep > 0 && canvasWidth > 0) {
+    const aspectRatio = config.id === 'INTRO' ? 1 : 4 / 3;
+    const drawW = canvasWidth - CANVAS_PADDING * 2;
+    const drawH = canvasWidth / aspectRatio - CANVAS_PADDING * 2;
+    const xGap = (labelStep / xSpan) * drawW;
+    const yGap = (labelStep / ySpan) * drawH;
+    if (xGap < widestLabel(xRange) + LABEL_GAP) {
+      errors.push({ key: 'level.error.xLabelsOverlap', params: { width: Math.round(canvasWidth) } });
+    }
+    if (yGap < LABEL_HEIGHT) {
+      errors.push({ key: 'level.error.yLabelsOverlap' });
+    }
+  }
+
+  return errors;
+};
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isRange = (v: unknown): v is [number, number] => Array.isArray(v) && v.length === 2 && v.every(isNumber);
+
+/**
+ * Turns untrusted JSON (an imported file or a shared link) into a GameConfig.
+ * Throws a LevelError when a field is missing, has the wrong type or fails validation.
+ * A level without a custom id gets a new one that isn't among `taken`.
+ */
+export const parseLevel = (raw: unknown, taken: Iterable<string> = []): GameConfig => {
+  if (typeof raw !== 'object' || raw === null) throw new LevelError([{ key: 'level.parse.notObject' }]);
+  const data = raw as Record<string, unknown>;
+
+  if (typeof data.name !== 'string') throw new LevelError([{ key: 'level.parse.name' }]);
+  if (!isRange(data.xRange)) throw new LevelError([{ key: 'level.parse.range', params: { field: 'xRange' } }]);
+  if (!isRange(data.yRange)) throw new LevelError([{ key: 'level.parse.range', params: { field: 'yRange' } }]);
+  for (const field of ['gridStep', 'labelStep', 'targetStep', 'tolerance']) {
+    if (!isNumber(data[field])) throw new LevelError([{ key: 'level.parse.number', params: { field } }]);
+  }
+  for (const field of ['majorGridStep', 'precision']) {
+    if (data[field] !== undefined && !isNumber(data[field])) throw new LevelError([{ key: 'level.parse.number', params: { field } }]);
+  }
+  if (data.originPos !== 'center' && data.originPos !== 'bottom-left') {
+    throw new LevelError([{ key: 'level.parse.originPos' }]);
+  }
+  const unlock = data.unlock === undefined ? undefined : parseUnlock(data.unlock);
+  if (unlock === null) throw new LevelError([{ key: 'level.parse.unlock' }]);
+
+  const knownTypes = Object.values(QuestionType) as string[];
+  const questionTypes = Array.isArray(data.questionTypes)
+    ? (data.questionTypes.filter(t => knownTypes.includes(t as string)) as QuestionType[])
+    : [QuestionType.FindPoint];
+
+  // Imported levels always live under a custom id so they can't shadow the built-in modes
+  const id = typeof data.id === 'string' && isCustomLevel(data.id)
+    ? data.id
+    : newLevelId(taken);
+
+  const level: GameConfig = {
+    id,
+    name: data.name,
+    description: typeof data.description === 'string' ? data.description : '',
+    xRange: data.xRange,
+    yRange: data.yRange,
+    gridStep: data.gridStep as number,
+    majorGridStep: data.majorGridStep as number | undefined,
+    labelStep: data.labelStep as number,
+    targetStep: data.targetStep as number,
+    tolerance: data.tolerance as number,
+    precision: data.precision as number | undefined,
+    themeColor: THEME_COLORS.includes(data.themeColor as string) ? (data.themeColor as string) : 'violet',
+    originPos: data.originPos,
+    questionTypes,
+    targetPolicy: data.targetPolicy === 'uniform' ? 'uniform' : 'adaptive',
+    unlock
+  };
+
+  // Label spacing depends on the screen, so only the size-independent rules apply here
+  const problems = validateLevel(level, 0);
+  if (problems.length > 0) throw new LevelError(problems);
+  return level;
+};
+
+// Saved levels that no longer parse are left out one by one, so they don't take the rest with them
+export const loadCustomLevels = (): GameConfig[] => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) return [];
+  let list: unknown;
+  try {
+    list = JSON.parse(saved);
+  } catch (e) {
+    console.error("Failed to parse custom levels", e);
+    return [];
+  }
+  if (!Array.isArray(list)) return [];
+  return list.flatMap(raw => {
+    try {
+      return [parseLevel(raw)];
+    } catch (e) {
+      console.error("Skipped a saved custom level", e);
+      return [];
+    }
+  });
+};
+
+export const saveCustomLevels = (levels: GameConfig[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(levels));
+};
+
+export const exportLevelsJson = (levels: GameConfig[]): string =>
+  JSON.stringify(levels.length === 1 ? levels[0] : levels, null, 2);
+
+// Accepts either a single level object or an array of them; levels without an id get one not in `taken`
+export const importLevelsJson = (text: string, taken: Iterable<string> = []): GameConfig[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new LevelError([{ key: 'level.parse.invalidJson' }]);
+  }
+  const used = new Set(taken);
+  return (Array.isArray(data) ? data : [data]).map(raw => {
+    const level = parseLevel(raw, used);
+    used.add(level.id);
+    return level;
+  });
+};
+
+// UTF-8 safe base64url so level names in Chinese survive the trip through a URL
+const toBase64Url = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string) => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = Uint8Array.from(binary, c => c.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+};
+
+// A level packed into URL-safe text, for share links and challenge codes
+export const encodeLevel = (config: GameConfig): string => toBase64Url(JSON.stringify(config));
+
+export const decodeLevel = (encoded: string): GameConfig => parseLevel(JSON.parse(fromBase64Url(encoded)));
+
+export const buildShareUrl = (config: GameConfig): string => {
+  const { origin, pathname, search } = window.location;
+  return `${origin}${pathname}${search}${HASH_PREFIX}${encodeLevel(config)}`;
+};
+
+// Returns the level carried in the URL hash, null when there is none
+export const readLevelFromHash = (hash: string): GameConfig | null => {
+  if (!hash.startsWith(HASH_PREFIX)) return null;
+  return decodeLevel(hash.slice(HASH_PREFIX.length));
+};
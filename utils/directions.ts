@@ -0,0 +1,53 @@
+import { GameConfig, Point, QuestionType } from '../types';
+import { Random } from './random';
+import { wrapDirection } from './scratchMotion';
+
+export const isDirectionType = (type: QuestionType) =>
+  type === QuestionType.PointDirection || type === QuestionType.ReadDirection;
+
+// Direction rounds get harder as the student collects hits in the level
+export interface DirectionTier {
+  step: number; // Directions asked are multiples of this
+  tolerance: number; // Degrees either side that still count as a hit
+}
+
+export const DIRECTION_TIERS: DirectionTier[] = [
+  { step: 90, tolerance: 20 },
+  { step: 45, tolerance: 12 },
+  { step: 15, tolerance: 5 }
+];
+
+// Hits needed in a tier before the next one starts
+export const TIER_HITS = 10;
+
+export const directionTier = (hits: number): DirectionTier =>
+  DIRECTION_TIERS[Math.min(DIRECTION_TIERS.length - 1, Math.floor(hits / TIER_HITS))];
+
+// Smallest turn between two directions, 0–180
+export const angleBetween = (a: number, b: number) => Math.abs(wrapDirection(a - b));
+
+// Scratch direction of an arrow from the origin to `p`: 0 is up, 90 is right
+export const directionOf = (p: Point) =>
+  wrapDirection(Math.round((Math.atan2(p.x, p.y) * 180) / Math.PI));
+
+// Tip of an arrow of length `radius` from the origin; rounded so it reads like any other point
+export const directionPoint = (direction: number, radius: number): Point => {
+  const rad = (direction * Math.PI) / 180;
+  return { x: Math.round(radius * Math.sin(rad)), y: Math.round(radius * Math.cos(rad)) };
+};
+
+// The protractor ring fits inside the level with some room for its labels
+export const ringRadius = (config: GameConfig) =>
+  0.8 * Math.min(-config.xRange[0], config.xRange[1], -config.yRange[0], config.yRange[1]);
+
+// Every direction the tier can ask, in Scratch's (-180, 180]
+export const tierDirections = ({ step }: DirectionTier) => {
+  const directions: number[] = [];
+  for (let d = -180 + step; d <= 180; d += step) directions.push(d);
+  return directions;
+};
+
+export const randomDirection = (tier: DirectionTier, avoid?: number, random: Random = Math.random) => {
+  const options = tierDirections(tier).filter(d => d !== avoid);
+  return options[Math.floor(random() * options.length)];
+};
@@ -0,0 +1,339 @@
+import { GameConfig, Point } from '../types';
+import { LIGHT_THEME, Theme } from '../theme';
+
+// Drawing shared by the on-screen canvas and printed worksheets, so paper and screen match.
+// Everything goes through a Painter, which either draws on a canvas or writes SVG. Paper is always LIGHT_THEME.
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export interface TextStyle {
+  font: string; // CSS font shorthand, e.g. `bold 12px sans-serif`
+  color: string;
+  align?: 'left' | 'center' | 'right'; // Horizontal anchor; text is always centred vertically
+}
+
+export interface Painter {
+  rect: (x: number, y: number, width: number, height: number, fill: string) => void;
+  line: (from: Point, to: Point, color: string, width: number) => void;
+  polygon: (points: Point[], fill: string) => void;
+  circle: (center: Point, radius: number, fill: string, stroke?: { color: string; width: number }) => void;
+  text: (text: string, at: Point, style: TextStyle) => void;
+}
+
+// Space around the grid so edge labels don't get cut off
+export const GRID_PADDING = 40;
+
+// Square for the first level, Scratch's 4:3 for the rest
+export const aspectRatioOf = (config: GameConfig) => (config.id === 'INTRO' ? 1 : 4 / 3);
+
+// What part of the level is on screen: zoom 1 shows all of it, higher zooms a smaller window around `center`
+export interface Viewport {
+  zoom: number;
+  center: Point; // Logical coordinate in the middle of the grid area
+}
+
+export const MAX_ZOOM = 8;
+// Grid lines closer than this (px) are thinned out, so zooming in only shows finer steps once they fit
+const MIN_GRID_GAP = 14;
+// Same for labels, which need room for their digits
+const MIN_LABEL_GAP = 40;
+
+// Smallest unit a level's answers are read to; whole units unless the level says otherwise
+export const precisionOf = (config: GameConfig) => config.precision ?? 1;
+
+// Nearest multiple of `step`, without 0.1 + 0.2 style noise
+export const snapTo = (value: number, step: number) => Math.round(Math.round(value / step) * step * 1e6) / 1e6 || 0;
+
+export const isMultipleOf = (value: number, step: number) => Math.abs(value / step - Math.round(value / step)) < 1e-6;
+
+export const fullView = ({ xRange, yRange }: GameConfig): Viewport => ({
+  zoom: 1,
+  center: { x: (xRange[0] + xRange[1]) / 2, y: (yRange[0] + yRange[1]) / 2 }
+});
+
+// Keeps the zoom in bounds and the window inside the level, so there's never empty space past the edges
+export const clampView = (config: GameConfig, view: Viewport): Viewport => {
+  const zoom = Math.min(MAX_ZOOM, Math.max(1, view.zoom));
+  const clampAxis = ([min, max]: [number, number], at: number) => {
+    const half = (max - min) / zoom / 2;
+    return Math.min(max - half, Math.max(min + half, at));
+  };
+  return { zoom, center: { x: clampAxis(config.xRange, view.center.x), y: clampAxis(config.yRange, view.center.y) } };
+};
+
+// The logical ranges on screen
+export const visibleRanges = (config: GameConfig, view?: Viewport): { xRange: [number, number]; yRange: [number, number] } => {
+  if (!view || view.zoom === 1) return { xRange: config.xRange, yRange: config.yRange };
+  const halfX = (config.xRange[1] - config.xRange[0]) / view.zoom / 2;
+  const halfY = (config.yRange[1] - config.yRange[0]) / view.zoom / 2;
+  return {
+    xRange: [view.center.x - halfX, view.center.x + halfX],
+    yRange: [view.center.y - halfY, view.center.y + halfY]
+  };
+};
+
+// The level's own step, or a finer 1-2-5 step once zooming leaves room for it.
+// Finer steps still divide the level's step and are multiples of `unit`.
+const stepAt = (step: number, unit: number, config: GameConfig, size: Size, zoom: number, minGap: number) => {
+  if (zoom <= 1) return step;
+  const unitPx = ((size.width - GRID_PADDING * 2) / (config.xRange[1] - config.xRange[0])) * zoom;
+  let best = step;
+  for (let magnitude = 10 ** Math.floor(Math.log10(step)); magnitude * 5 >= unit; magnitude /= 10) {
+    for (const factor of [5, 2, 1]) {
+      const candidate = Math.round(factor * magnitude * 1e6) / 1e6;
+      if (candidate < best && candidate * unitPx >= minGap && isMultipleOf(step, candidate) && isMultipleOf(candidate, unit)) {
+        best = candidate;
+      }
+    }
+  }
+  return best;
+};
+
+// Spacing of the grid lines drawn at this view
+export const gridStepAt = (config: GameConfig, size: Size, view?: Viewport) =>
+  stepAt(config.gridStep, precisionOf(config), config, size, view?.zoom ?? 1, MIN_GRID_GAP);
+
+// Logical units per pixel along each axis
+const unitsPerPixel = (config: GameConfig, size: Size, view: Viewport): Point => {
+  const { xRange, yRange } = visibleRanges(config, view);
+  return {
+    x: (xRange[1] - xRange[0]) / (size.width - GRID_PADDING * 2),
+    y: (yRange[1] - yRange[0]) / (size.height - GRID_PADDING * 2)
+  };
+};
+
+// Follows a drag of (dx, dy) pixels, so the grid moves with the pointer
+export const panView = (config: GameConfig, size: Size, view: Viewport, dx: number, dy: number): Viewport => {
+  const units = unitsPerPixel(config, size, view);
+  return clampView(config, { zoom: view.zoom, center: { x: view.center.x - dx * units.x, y: view.center.y + dy * units.y } });
+};
+
+// Zooms by `factor` about a pixel, keeping the spot under it in place
+export const zoomViewAt = (config: GameConfig, size: Size, view: Viewport, factor: number, at: Point): Viewport => {
+  const zoom = Math.min(MAX_ZOOM, Math.max(1, view.zoom * factor));
+  const before = unitsPerPixel(config, size, view);
+  const after = { x: (before.x * view.zoom) / zoom, y: (before.y * view.zoom) / zoom };
+  // Offset from the middle of the canvas, which is also the middle of the grid area
+  const fromMiddle = { x: at.x - size.width / 2, y: at.y - size.height / 2 };
+  return clampView(config, {
+    zoom,
+    center: {
+      x: view.center.x + fromMiddle.x * (before.x - after.x),
+      y: view.center.y - fromMiddle.y * (before.y - after.y)
+    }
+  });
+};
+
+// Logical Coordinate -> Pixel
+export const pixelOf = (p: Point, config: GameConfig, { width, height }: Size, view?: Viewport): Point => {
+  const { xRange, yRange } = visibleRanges(config, view);
+  const drawW = width - GRID_PADDING * 2;
+  const drawH = height - GRID_PADDING * 2;
+
+  const xSpan = xRange[1] - xRange[0];
+  const ySpan = yRange[1] - yRange[0];
+
+  const px = GRID_PADDING + ((p.x - xRange[0]) / xSpan) * drawW;
+  // Pixel Y is inverted (0 is top)
+  const py = height - GRID_PADDING - ((p.y - yRange[0]) / ySpan) * drawH;
+
+  return { x: px, y: py };
+};
+
+// Pixel -> Logical Coordinate, snapped to the level's precision
+export const logicalOf = (p: Point, config: GameConfig, { width, height }: Size, view?: Viewport): Point => {
+  const { xRange, yRange } = visibleRanges(config, view);
+  const drawW = width - GRID_PADDING * 2;
+  const drawH = height - GRID_PADDING * 2;
+
+  const xSpan = xRange[1] - xRange[0];
+  const ySpan = yRange[1] - yRange[0];
+
+  const lx = ((p.x - GRID_PADDING) / drawW) * xSpan + xRange[0];
+  const ly = ((height - GRID_PADDING - p.y) / drawH) * ySpan + yRange[0];
+
+  const step = precisionOf(config);
+  return { x: snapTo(lx, step), y: snapTo(ly, step) };
+};
+
+// Background, grid lines, tick labels and axis arrows; with a viewport, only the part on screen, in finer steps
+export const drawGrid = (
+  painter: Painter,
+  config: GameConfig,
+  size: Size,
+  fontFamily: string,
+  view?: Viewport,
+  theme: Theme = LIGHT_THEME
+) => {
+  const c = theme.color;
+  const toPixel = (p: Point) => pixelOf(p, config, size, view);
+  const { xRange, yRange } = visibleRanges(config, view);
+  const zoom = view?.zoom ?? 1;
+  const { majorGridStep } = config;
+  const gridStep = gridStepAt(config, size, view);
+  const labelStep = stepAt(config.labelStep, gridStep, config, size, zoom, MIN_LABEL_GAP);
+  const labelStyle: TextStyle = { font: `12px ${fontFamily}`, color: c('slate', 500) };
+  // Zoomed away from an axis, its labels move to the edge like in the corner-origin levels
+  const xAxisShown = yRange[0] <= 0 && yRange[1] >= 0;
+  const yAxisShown = xRange[0] <= 0 && xRange[1] >= 0;
+  const bottomLabels = config.originPos === 'bottom-left' || !xAxisShown;
+  const leftLabels = config.originPos === 'bottom-left' || !yAxisShown;
+
+  // 1. Clear Background
+  painter.rect(0, 0, size.width, size.height, c('slate', 50));
+
+  // 2. Draw Grid
+  const lineStyle = (v: number): [string, number] => {
+    if (v === 0) return [c('slate', 700), 2.5];
+    if (majorGridStep && isMultipleOf(v, majorGridStep)) return [c('slate', 400), 1.5];
+    return [c('slate', 300), 0.5];
+  };
+
+  // Lines are counted from the level's minimum, starting with the first one on screen
+  const firstLine = (levelMin: number, visibleMin: number) =>
+    levelMin + Math.max(0, Math.ceil((visibleMin - levelMin) / gridStep - 1e-6)) * gridStep;
+
+  // Draw Vertical Lines (X)
+  for (let x = firstLine(config.xRange[0], xRange[0]); x <= xRange[1] + 1e-6; x += gridStep) {
+    // Fix float precision issues (e.g. 0.3000000004)
+    const cleanX = Math.round(x * 1000) / 1000;
+    if (cleanX < xRange[0] - 1e-6 || cleanX > xRange[1] + 1e-6) continue;
+
+    const [color, width] = lineStyle(cleanX);
+    painter.line(toPixel({ x: cleanX, y: yRange[0] }), toPixel({ x: cleanX, y: yRange[1] }), color, width);
+
+    // Labels (skip 0 to avoid collision with origin)
+    if (isMultipleOf(cleanX, labelStep) && cleanX !== 0) {
+      const textPos = toPixel({ x: cleanX, y: 0 });
+      // Below the x axis, or along the bottom edge when the origin is in the corner
+      const textY = bottomLabels ? size.height - 20 : textPos.y + 15;
+      painter.text(cleanX.toString(), { x: textPos.x, y: textY }, labelStyle);
+    }
+  }
+
+  // Draw Horizontal Lines (Y)
+  for (let y = firstLine(config.yRange[0], yRange[0]); y <= yRange[1] + 1e-6; y += gridStep) {
+    const cleanY = Math.round(y * 1000) / 1000;
+    if (cleanY < yRange[0] - 1e-6 || cleanY > yRange[1] + 1e-6) continue;
+
+    const [color, width] = lineStyle(cleanY);
+    painter.line(toPixel({ x: xRange[0], y: cleanY }), toPixel({ x: xRange[1], y: cleanY }), color, width);
+
+    // Labels (skip 0)
+    if (isMultipleOf(cleanY, labelStep) && cleanY !== 0) {
+      const textPos = toPixel({ x: 0, y: cleanY });
+      const textX = leftLabels ? 20 : textPos.x - 20;
+      painter.text(cleanY.toString(), { x: textX, y: textPos.y }, labelStyle);
+    }
+  }
+
+  // Origin Label (0,0)
+  const axisStyle: TextStyle = { font: 'bold 12px sans-serif', color: c('slate', 700) };
+  const originPx = toPixel({ x: 0, y: 0 });
+  if (config.originPos === 'bottom-left' && xRange[0] < 1e-6 && yRange[0] < 1e-6) {
+    painter.text('0', { x: 15, y: size.height - 15 }, axisStyle);
+  } else if (config.originPos !== 'bottom-left' && xAxisShown && yAxisShown) {
+    painter.text('0', { x: originPx.x - 10, y: originPx.y + 15 }, axisStyle);
+  }
+
+  // 3. Draw Axis Arrows (while the axis ends are on screen)
+  if (xAxisShown && xRange[1] > config.xRange[1] - 1e-6) {
+    const xEnd = toPixel({ x: xRange[1], y: 0 });
+    painter.polygon([xEnd, { x: xEnd.x - 8, y: xEnd.y - 4 }, { x: xEnd.x - 8, y: xEnd.y + 4 }], c('slate', 700));
+    painter.text('X', { x: xEnd.x - 15, y: xEnd.y - 15 }, axisStyle);
+  }
+
+  if (yAxisShown && yRange[1] > config.yRange[1] - 1e-6) {
+    const yEnd = toPixel({ x: 0, y: yRange[1] });
+    painter.polygon([yEnd, { x: yEnd.x - 4, y: yEnd.y + 8 }, { x: yEnd.x + 4, y: yEnd.y + 8 }], c('slate', 700));
+    painter.text('Y', { x: yEnd.x + 15, y: yEnd.y + 15 }, axisStyle);
+  }
+};
+
+// A labelled dot, as used for shape vertices on screen and points on worksheets
+export const drawVertex = (painter: Painter, at: Point, label: string, fill: string, fontFamily: string, theme: Theme = LIGHT_THEME) => {
+  painter.circle(at, 6, fill, { color: theme.white, width: 2 });
+  painter.text(label, { x: at.x + 12, y: at.y - 12 }, { font: `bold 14px ${fontFamily}`, color: theme.color('slate', 800) });
+};
+
+export const canvasPainter = (ctx: CanvasRenderingContext2D): Painter => ({
+  rect: (x, y, width, height, fill) => {
+    ctx.fillStyle = fill;
+    ctx.fillRect(x, y, width, height);
+  },
+  line: (from, to, color, width) => {
+    ctx.strokeStyle = color;
+    ctx.lineWidth = width;
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+  },
+  polygon: (points, fill) => {
+    ctx.fillStyle = fill;
+    ctx.beginPath();
+    points.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+    ctx.fill();
+  },
+  circle: (center, radius, fill, stroke) => {
+    ctx.beginPath();
+    ctx.arc(center.x, center.y, radius, 0, Math.PI * 2);
+    ctx.fillStyle = fill;
+    ctx.fill();
+    if (stroke) {
+      ctx.lineWidth = stroke.width;
+      ctx.strokeStyle = stroke.color;
+      ctx.stroke();
+    }
+  },
+  text: (text, at, style) => {
+    ctx.font = style.font;
+    ctx.fillStyle = style.color;
+    ctx.textAlign = style.align ?? 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(text, at.x, at.y);
+    ctx.textAlign = 'center'; // The rest of the canvas code expects centred text
+  }
+});
+
+export const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const SVG_ANCHORS = { left: 'start', center: 'middle', right: 'end' };
+
+// Collects SVG elements; `markup` wraps them in a group so they can be placed on a page
+export const svgPainter = (): { painter: Painter; markup: (x?: number, y?: number) => string } => {
+  const parts: string[] = [];
+  const n = (v: number) => Math.round(v * 100) / 100;
+
+  const painter: Painter = {
+    rect: (x, y, width, height, fill) => {
+      parts.push(`<rect x="${n(x)}" y="${n(y)}" width="${n(width)}" height="${n(height)}" fill="${fill}"/>`);
+    },
+    line: (from, to, color, width) => {
+      parts.push(`<line x1="${n(from.x)}" y1="${n(from.y)}" x2="${n(to.x)}" y2="${n(to.y)}" stroke="${color}" stroke-width="${width}"/>`);
+    },
+    polygon: (points, fill) => {
+      parts.push(`<polygon points="${points.map(p => `${n(p.x)},${n(p.y)}`).join(' ')}" fill="${fill}"/>`);
+    },
+    circle: (center, radius, fill, stroke) => {
+      const outline = stroke ? ` stroke="${stroke.color}" stroke-width="${stroke.width}"` : '';
+      parts.push(`<circle cx="${n(center.x)}" cy="${n(center.y)}" r="${radius}" fill="${fill}"${outline}/>`);
+    },
+    text: (text, at, style) => {
+      const anchor = SVG_ANCHORS[style.align ?? 'center'];
+      parts.push(
+        `<text x="${n(at.x)}" y="${n(at.y)}" style="font: ${escapeXml(style.font)}" fill="${style.color}" `
+        + `text-anchor="${anchor}" dominant-baseline="central">${escapeXml(text)}</text>`
+      );
+    }
+  };
+
+  return {
+    painter,
+    markup: (x = 0, y = 0) => `<g transform="translate(${n(x)} ${n(y)})">${parts.join('')}</g>`
+  };
+};
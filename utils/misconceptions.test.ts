@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { DifficultyLevel } from '../types';
+import { GAME_MODES } from '../constants';
+import { classifyMiss } from './misconceptions';
+
+const HELL = GAME_MODES[DifficultyLevel.Hell];
+const ADVANCED = GAME_MODES[DifficultyLevel.Advanced];
+
+describe('classifyMiss', () => {
+  it('names a click one grid line away', () => {
+    expect(classifyMiss({ x: 3, y: 4 }, { x: 4, y: 4 }, ADVANCED)?.kind).toBe('offByOneLine');
+    expect(classifyMiss({ x: 100, y: 60 }, { x: 120, y: 40 }, HELL)).toMatchObject({ kind: 'offByOneLine', cue: { column: 100, row: 60 } });
+  });
+
+  it('leaves a diagonal near-miss unnamed', () => {
+    expect(classifyMiss({ x: 100, y: 60 }, { x: 112, y: 72 }, HELL)).toBeNull();
+    expect(classifyMiss({ x: 3, y: 4 }, { x: 3.3, y: 4.3 }, ADVANCED)).toBeNull();
+  });
+});
@@ -0,0 +1,144 @@
+import { GameConfig, Point, VisualCue } from '../types';
+import { Message } from '../i18n';
+import { angleBetween } from './directions';
+import { wrapDirection } from './scratchMotion';
+
+export type MisconceptionKind =
+  | 'swapped' // Clicked (y, x) instead of (x, y)
+  | 'signX' // Right numbers, wrong sign on x
+  | 'signY'
+  | 'signBoth'
+  | 'offByOneLine' // Counted one grid line too many or too few
+  | 'labelStepUnit' // Treated each labelled step as a single unit
+  | 'wrongRow' // Right column, wrong row
+  | 'wrongColumn' // Right row, wrong column
+  | 'mathAngle' // Measured from the right going anticlockwise, like in maths class
+  | 'mirrored' // Mixed up left and right, e.g. -45 for 45
+  | 'reversed'; // Arrow pointing the opposite way
+
+export interface MissDiagnosis {
+  kind: MisconceptionKind;
+  hint: Message;
+  cue: VisualCue;
+}
+
+const signOf = (v: number): 1 | -1 => (v < 0 ? -1 : 1);
+
+/**
+ * Looks for a well-known mistake behind a miss. Checks run from the most
+ * specific pattern to the most general, so a swapped answer isn't reported
+ * as "wrong row". Returns null when the miss doesn't match any pattern.
+ */
+export const classifyMiss = (target: Point, answer: Point, config: GameConfig): MissDiagnosis | null => {
+  const { tolerance, gridStep, labelStep } = config;
+  const near = (a: number, b: number) => Math.abs(a - b) <= tolerance;
+  const matches = (p: Point) => near(answer.x, p.x) && near(answer.y, p.y);
+
+  // Nonzero whole number of `step`s away from the target on that axis
+  const offBySteps = (diff: number, step: number) => {
+    const n = Math.round(diff / step);
+    return n !== 0 && Math.abs(diff - n * step) <= tolerance;
+  };
+
+  const xRight = near(answer.x, target.x);
+  const yRight = near(answer.y, target.y);
+  const dx = answer.x - target.x;
+  const dy = answer.y - target.y;
+
+  if (!near(target.x, target.y) && matches({ x: target.y, y: target.x })) {
+    return {
+      kind: 'swapped',
+      hint: { key: 'hint.swapped', params: { x: target.x, y: target.y } },
+      cue: { column: target.x, row: target.y }
+    };
+  }
+
+  const xFlipped = target.x !== 0 && near(answer.x, -target.x);
+  const yFlipped = target.y !== 0 && near(answer.y, -target.y);
+  if (xFlipped && yFlipped) {
+    return {
+      kind: 'signBoth',
+      hint: { key: 'hint.signBoth' },
+      cue: { signX: signOf(target.x), signY: signOf(target.y) }
+    };
+  }
+  if (xFlipped && yRight) {
+    return {
+      kind: 'signX',
+      hint: { key: target.x > 0 ? 'hint.signXRight' : 'hint.signXLeft', params: { x: target.x } },
+      cue: { signX: signOf(target.x) }
+    };
+  }
+  if (yFlipped && xRight) {
+    return {
+      kind: 'signY',
+      hint: { key: target.y > 0 ? 'hint.signYUp' : 'hint.signYDown', params: { y: target.y } },
+      cue: { signY: signOf(target.y) }
+    };
+  }
+
+  // Exactly one grid line away on one or both axes. An axis that's right doesn't count as off, since
+  // a tolerance wider than half a grid step covers both; near on both is a diagonal near-miss, not this.
+  const xOneOff = !xRight && Math.abs(Math.abs(dx) - gridStep) <= tolerance;
+  const yOneOff = !yRight && Math.abs(Math.abs(dy) - gridStep) <= tolerance;
+  if ((xOneOff || yOneOff) && (xOneOff || xRight) && (yOneOff || yRight)) {
+    return {
+      kind: 'offByOneLine',
+      hint: { key: 'hint.offByOneLine', params: { step: gridStep } },
+      cue: { column: xOneOff ? target.x : undefined, row: yOneOff ? target.y : undefined }
+    };
+  }
+
+  // Off by whole labelled steps (only a distinct mistake when labels skip grid lines)
+  if (labelStep > gridStep) {
+    const xLabelOff = offBySteps(dx, labelStep);
+    const yLabelOff = offBySteps(dy, labelStep);
+    if ((xLabelOff || yLabelOff) && (xLabelOff || xRight) && (yLabelOff || yRight)) {
+      return {
+        kind: 'labelStepUnit',
+        hint: { key: 'hint.labelStepUnit', params: { label: labelStep, grid: gridStep } },
+        cue: { column: xLabelOff ? target.x : undefined, row: yLabelOff ? target.y : undefined }
+      };
+    }
+  }
+
+  if (xRight && !yRight) {
+    return {
+      kind: 'wrongRow',
+      hint: { key: 'hint.wrongRow', params: { y: target.y } },
+      cue: { row: target.y }
+    };
+  }
+  if (yRight && !xRight) {
+    return {
+      kind: 'wrongColumn',
+      hint: { key: 'hint.wrongColumn', params: { x: target.x } },
+      cue: { column: target.x }
+    };
+  }
+
+  return null;
+};
+
+/**
+ * Same idea for direction rounds, where answers are Scratch directions in degrees.
+ * There's nothing to highlight on the grid, so the cue is empty.
+ */
+export const classifyDirectionMiss = (expected: number, answer: number, tolerance: number): MissDiagnosis | null => {
+  const near = (d: number) => angleBetween(answer, d) <= tolerance;
+
+  if (angleBetween(expected, 90 - expected) > tolerance && near(wrapDirection(90 - expected))) {
+    return { kind: 'mathAngle', hint: { key: 'hint.mathAngle', params: { direction: expected } }, cue: {} };
+  }
+  if (angleBetween(expected, -expected) > tolerance && near(wrapDirection(-expected))) {
+    return {
+      kind: 'mirrored',
+      hint: { key: expected > 0 ? 'hint.mirroredRight' : 'hint.mirroredLeft', params: { direction: expected } },
+      cue: {}
+    };
+  }
+  if (near(wrapDirection(expected + 180))) {
+    return { kind: 'reversed', hint: { key: 'hint.reversed' }, cue: {} };
+  }
+  return null;
+};
@@ -0,0 +1,215 @@
+import { DifficultyLevel, LeaderboardEntry, Locale, ProfileSettings, StudentProfile } from '../types';
+import { DEFAULT_LOCALE } from '../i18n';
+
+const STORAGE_KEY = 'coordinate_game_data';
+// Keys from before profiles existed, read once and folded into the default profile
+const LEGACY_PROGRESS_KEY = 'coordinate_game_progress';
+const LEGACY_ATTEMPTS_KEY = 'coordinate_attempt_history';
+
+export const SCHEMA_VERSION = 7;
+
+// Oldest attempts are dropped past this, so localStorage never fills up
+const MAX_ATTEMPTS = 5000;
+
+export const AVATARS = ['🐱', '🐶', '🐼', '🦊', '🐸', '🐵', '🐧', '🦁', '🐯', '🐰'];
+
+export interface StoredData {
+  version: number;
+  activeProfileId: string | null;
+  profiles: StudentProfile[];
+  // Race results per level id, shared by everyone on this computer
+  leaderboards: Record<string, LeaderboardEntry[]>;
+}
+
+export interface LoadResult {
+  data: StoredData;
+  // Set when the saved data couldn't be read and was reset; the raw text is kept under this key
+  recoveredFrom: string | null;
+}
+
+export const DEFAULT_SETTINGS: ProfileSettings = {
+  missOverlay: 'off',
+  locale: DEFAULT_LOCALE,
+  theme: 'light',
+  colorBlind: false,
+  reducedMotion: false,
+  speech: false,
+  sonification: false,
+  earcons: false
+};
+
+export const emptyProgress = (): Record<string, number> => ({
+  [DifficultyLevel.Intro]: 0,
+  [DifficultyLevel.Advanced]: 0,
+  [DifficultyLevel.Challenge]: 0,
+  [DifficultyLevel.Hell]: 0,
+  [DifficultyLevel.Direction]: 0
+});
+
+const newProfileId = () => `profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const createProfile = (name: string, avatar: string, locale: Locale): StudentProfile => ({
+  id: newProfileId(),
+  name,
+  avatar,
+  createdAt: Date.now(),
+  progress: emptyProgress(),
+  settings: { ...DEFAULT_SETTINGS, locale },
+  attempts: [],
+  achievements: {}
+});
+
+const emptyData = (): StoredData => ({ version: SCHEMA_VERSION, activeProfileId: null, profiles: [], leaderboards: {} });
+
+const readLegacyJson = (key: string): unknown => {
+  const raw = localStorage.getItem(key);
+  if (!raw) return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return undefined; // A broken legacy key just means nothing to import
+  }
+};
+
+// Data saved by some older schema version: only the version is known for sure, the rest is carried along
+type Versioned = Record<string, unknown> & { version: number };
+type SavedProfile = Record<string, unknown>;
+
+const asRecord = (v: unknown): Record<string, unknown> =>
+  (typeof v === 'object' && v !== null ? (v as Record<string, unknown>) : {});
+
+// Applies one change to every saved profile; a missing or broken list fails the load like any other damage
+const withProfiles = (data: Versioned, version: number, change: (p: SavedProfile) => SavedProfile): Versioned => {
+  if (!Array.isArray(data.profiles)) throw new Error('profiles is not a list');
+  return { ...data, version, profiles: data.profiles.map(p => change(asRecord(p))) };
+};
+
+const withSettings = (data: Versioned, version: number, settings: Record<string, unknown>): Versioned =>
+  withProfiles(data, version, p => ({ ...p, settings: { ...asRecord(p.settings), ...settings } }));
+
+/**
+ * Each step upgrades data saved by schema version `n` to `n + 1`.
+ *  0 → 1: the pre-profile flat progress record (plus attempt history) becomes a default profile
+ *  1 → 2: profiles gain per-student settings
+ *  2 → 3: settings remember the UI language (everyone so far used Chinese)
+ *  3 → 4: local leaderboards for timed and streak sessions
+ *  4 → 5: profiles collect achievements
+ *  5 → 6: settings choose a theme, a colour-blind palette and reduced motion
+ *  6 → 7: settings switch on spoken questions, position sounds and hit/miss sounds (all off so far)
+ */
+const MIGRATIONS: Record<number, (data: Versioned) => Versioned> = {
+  0: () => {
+    const progress = readLegacyJson(LEGACY_PROGRESS_KEY);
+    const attempts = readLegacyJson(LEGACY_ATTEMPTS_KEY);
+    if (progress === undefined && attempts === undefined) {
+      return { version: 1, activeProfileId: null, profiles: [] };
+    }
+
+    const id = newProfileId();
+    const profile = {
+      id,
+      name: '默认学生',
+      avatar: AVATARS[0],
+      createdAt: Date.now(),
+      progress: { ...emptyProgress(), ...asRecord(progress) },
+      attempts: Array.isArray(attempts) ? attempts : []
+    };
+    return { version: 1, activeProfileId: id, profiles: [profile] };
+  },
+  1: data => withProfiles(data, 2, p => ({ ...p, settings: { missOverlay: 'off' } })),
+  2: data => withSettings(data, 3, { locale: 'zh-CN' }),
+  3: data => ({ ...data, version: 4, leaderboards: {} }),
+  4: data => withProfiles(data, 5, p => ({ ...p, achievements: {} })),
+  5: data => withSettings(data, 6, { theme: 'light', colorBlind: false, reducedMotion: false }),
+  6: data => withSettings(data, 7, { speech: false, sonification: false, earcons: false })
+};
+
+// Only the shape of the latest version is trusted, and only after assertValid has looked at it
+const migrate = (data: Versioned): StoredData => {
+  let current = data;
+  while (current.version < SCHEMA_VERSION) {
+    const step = MIGRATIONS[current.version];
+    if (!step) throw new Error(`No migration from schema version ${current.version}`);
+    current = step(current);
+  }
+  return current as unknown as StoredData;
+};
+
+const isNumberRecord = (v: unknown) =>
+  typeof v === 'object' && v !== null && Object.values(v).every(n => typeof n === 'number');
+
+// Shape check after migrating, so half-written or hand-edited data is caught
+const assertValid = (data: StoredData) => {
+  if (!Array.isArray(data.profiles)) throw new Error('profiles is not a list');
+  for (const p of data.profiles) {
+    if (typeof p.id !== 'string' || typeof p.name !== 'string') throw new Error('profile without id or name');
+    if (!isNumberRecord(p.progress)) throw new Error(`profile ${p.id} has bad progress`);
+    if (!Array.isArray(p.attempts)) throw new Error(`profile ${p.id} has bad attempts`);
+    if (typeof p.settings !== 'object' || p.settings === null) throw new Error(`profile ${p.id} has bad settings`);
+    if (!isNumberRecord(p.achievements)) throw new Error(`profile ${p.id} has bad achievements`);
+  }
+  if (typeof data.leaderboards !== 'object' || data.leaderboards === null) throw new Error('leaderboards is not an object');
+  if (!Object.values(data.leaderboards).every(Array.isArray)) throw new Error('leaderboard is not a list');
+  if (data.activeProfileId !== null && !data.profiles.some(p => p.id === data.activeProfileId)) {
+    data.activeProfileId = null; // Dangling pointer, not worth a reset
+  }
+};
+
+export const loadStore = (): LoadResult => {
+  const raw = localStorage.getItem(STORAGE_KEY);
+
+  try {
+    const parsed: unknown = raw ? JSON.parse(raw) : { version: 0 };
+    const { version } = asRecord(parsed);
+    if (typeof version !== 'number') throw new Error('missing schema version');
+    if (version > SCHEMA_VERSION) {
+      throw new Error(`saved by a newer version of the app (schema ${version})`);
+    }
+    const data = migrate({ ...asRecord(parsed), version });
+    assertValid(data);
+    return { data, recoveredFrom: null };
+  } catch (e) {
+    // Keep the unreadable data around so a teacher can still rescue it, then start clean
+    const backupKey = `${STORAGE_KEY}_corrupt_${Date.now()}`;
+    if (raw) localStorage.setItem(backupKey, raw);
+    console.warn("Saved game data was unreadable and has been reset", e);
+    return { data: emptyData(), recoveredFrom: raw ? backupKey : null };
+  }
+};
+
+// Most recent attempts per profile, dropping the oldest
+export const keepAttempts = (data: StoredData, limit: number): StoredData => ({
+  ...data,
+  profiles: data.profiles.map(p => ({ ...p, attempts: p.attempts.slice(-limit) }))
+});
+
+const isQuotaError = (e: unknown) =>
+  e instanceof DOMException && (e.name === 'QuotaExceededError' || e.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+export interface SaveResult {
+  saved: boolean;
+  // Set when the browser's storage was full and older attempts had to go: how many each profile kept
+  trimmedTo: number | null;
+}
+
+/**
+ * Writes everything to localStorage. A few students on a shared computer can fill it up,
+ * so when it's full the oldest attempts are halved away until the data fits; callers should
+ * trim their copy to `trimmedTo` too, or every later save runs into the same wall.
+ */
+export const saveStore = (data: StoredData): SaveResult => {
+  let limit = MAX_ATTEMPTS;
+  for (;;) {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(keepAttempts(data, limit)));
+      return { saved: true, trimmedTo: limit < MAX_ATTEMPTS ? limit : null };
+    } catch (e) {
+      if (!isQuotaError(e) || limit === 0) {
+        console.warn("Game data could not be saved", e);
+        return { saved: false, trimmedTo: null };
+      }
+      limit = Math.floor(limit / 2);
+    }
+  }
+};
+
@@ -0,0 +1,31 @@
+// Repeatable randomness: the same seed always gives the same numbers
+
+export type Random = () => number; // Like Math.random: [0, 1)
+
+// Mulberry32: tiny, fast and plenty random for picking grid points
+export const seededRandom = (seed: number): Random => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32;
+  };
+};
+
+// Any text works as a seed ("class 4B", "monday"), hashed with FNV-1a
+export const seedFromText = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (const ch of text.trim().toLowerCase()) {
+    hash ^= ch.codePointAt(0) ?? 0;
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Short, easy to read aloud: no 0/O or 1/I/L
+const SEED_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+
+export const randomSeedText = (length = 6) =>
+  Array.from({ length }, () => SEED_ALPHABET[Math.floor(Math.random() * SEED_ALPHABET.length)]).join('');
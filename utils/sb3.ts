@@ -0,0 +1,198 @@
+import { GameConfig, Point } from '../types';
+import { Message } from '../i18n';
+import { MotionBlock } from './scratchMotion';
+import { ZipEntry, ZipError, readZip } from './zip';
+
+// A problem with an imported project, as messages the teacher can act on
+export class ProjectError extends Error {
+  constructor(public messages: Message[]) {
+    super(messages.map(m => m.key).join(', '));
+    this.name = 'ProjectError';
+  }
+}
+
+export interface ProjectSprite {
+  name: string;
+  x: number;
+  y: number;
+  direction: number;
+  costume: string | null; // Data URL of the costume it's wearing, null when it can't be shown
+}
+
+// Blocks that send the sprite to a spot on the stage
+export type PositionBlock = Extract<MotionBlock, { op: 'goto' | 'glide' }>;
+
+// One question taken from the project
+export interface ProjectTarget {
+  sprite: ProjectSprite;
+  point: Point;
+  block: PositionBlock | null; // The go to / glide block it came from, null for where the sprite stands
+}
+
+export interface ScratchProject {
+  name: string;
+  sprites: ProjectSprite[];
+  targets: ProjectTarget[];
+  skipped: number; // Positions that fall outside the level and were left out
+}
+
+const COSTUME_TYPES: Record<string, string> = {
+  svg: 'image/svg+xml',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif'
+};
+
+// Input shadows hold their literal as [type, "value"]; types 4–8 are the number kinds
+const NUMBER_PRIMITIVES = [4, 5, 6, 7, 8];
+// Shadow blocks that carry a literal in a field, for projects saved without the compact form
+const NUMBER_SHADOWS: Record<string, string> = { math_number: 'NUM', math_integer: 'NUM', math_whole_number: 'NUM' };
+
+type Json = Record<string, unknown>;
+
+const isObject = (v: unknown): v is Json => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+const toNumber = (v: unknown): number | null => {
+  const n = typeof v === 'string' && v.trim() !== '' ? Number(v) : v;
+  return isNumber(n) ? n : null;
+};
+
+/**
+ * The number typed into a block input, or null when something is plugged into it
+ * (a variable, `pick random`, …) since then there's no fixed answer.
+ */
+const literalInput = (block: Json, name: string, blocks: Json): number | null => {
+  const input = isObject(block.inputs) ? block.inputs[name] : undefined;
+  if (!Array.isArray(input)) return null;
+  // [1, value] is a plain shadow; [3, reporter, shadow] means a reporter covers the shadow
+  if (input[0] !== 1) return null;
+  const value = input[1];
+  if (Array.isArray(value)) return NUMBER_PRIMITIVES.includes(value[0]) ? toNumber(value[1]) : null;
+  const shadow = typeof value === 'string' ? blocks[value] : undefined;
+  if (!isObject(shadow) || typeof shadow.opcode !== 'string' || !isObject(shadow.fields)) return null;
+  const field = shadow.fields[NUMBER_SHADOWS[shadow.opcode]];
+  return Array.isArray(field) ? toNumber(field[0]) : null;
+};
+
+// go to x: y: and glide … to x: y: blocks whose coordinates are typed in
+const positionBlocks = (blocks: Json): PositionBlock[] => {
+  const found: PositionBlock[] = [];
+  Object.values(blocks).forEach(block => {
+    // Variables and lists dropped on the workspace are stored as bare arrays
+    if (!isObject(block)) return;
+    const x = literalInput(block, 'X', blocks);
+    const y = literalInput(block, 'Y', blocks);
+    if (x === null || y === null) return;
+    if (block.opcode === 'motion_gotoxy') found.push({ op: 'goto', x, y });
+    if (block.opcode === 'motion_glidesecstoxy') {
+      found.push({ op: 'glide', secs: literalInput(block, 'SECS', blocks) ?? 1, x, y });
+    }
+  });
+  return found;
+};
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+// A missing or odd costume only costs the picture, so it never fails the import
+const readCostume = async (target: Json, files: Map<string, ZipEntry>): Promise<string | null> => {
+  const costumes = Array.isArray(target.costumes) ? target.costumes : [];
+  const costume = costumes[isNumber(target.currentCostume) ? target.currentCostume : 0];
+  if (!isObject(costume) || typeof costume.dataFormat !== 'string') return null;
+  const file = typeof costume.md5ext === 'string' ? costume.md5ext : `${costume.assetId}.${costume.dataFormat}`;
+  const type = COSTUME_TYPES[costume.dataFormat.toLowerCase()];
+  const entry = files.get(file);
+  if (!type || !entry) return null;
+  try {
+    return `data:${type};base64,${toBase64(await entry.read())}`;
+  } catch {
+    return null;
+  }
+};
+
+const ZIP_PROBLEMS: Record<ZipError['problem'], Message> = {
+  notZip: { key: 'project.error.notZip' },
+  unsupported: { key: 'project.error.zipUnsupported' },
+  corrupt: { key: 'project.error.zipCorrupt' }
+};
+
+// Runs a ZIP step, reporting its failures in the teacher's terms
+const unzip = async <T>(step: () => T | Promise<T>): Promise<T> => {
+  try {
+    return await step();
+  } catch (e) {
+    if (e instanceof ZipError) throw new ProjectError([ZIP_PROBLEMS[e.problem]]);
+    throw e;
+  }
+};
+
+/**
+ * Reads a Scratch 3 project file: every sprite's position, direction and costume,
+ * plus the literal coordinates in its go to / glide blocks. Positions outside
+ * `fence` are skipped. Throws a ProjectError when the file can't be used.
+ */
+export const readScratchProject = async (
+  fileName: string,
+  bytes: Uint8Array,
+  fence: Pick<GameConfig, 'xRange' | 'yRange'>
+): Promise<ScratchProject> => {
+  const files = new Map((await unzip(() => readZip(bytes))).map(entry => [entry.name, entry]));
+  const projectJson = files.get('project.json');
+  if (!projectJson) throw new ProjectError([{ key: 'project.error.noProjectJson' }]);
+
+  let data: unknown;
+  try {
+    data = JSON.parse(new TextDecoder().decode(await unzip(projectJson.read)));
+  } catch (e) {
+    if (e instanceof ProjectError) throw e;
+    throw new ProjectError([{ key: 'project.error.badJson' }]);
+  }
+
+  if (!isObject(data)) throw new ProjectError([{ key: 'project.error.badJson' }]);
+  // Scratch 2 projects keep sprites under `children` and name them `objName`
+  if ('objName' in data) throw new ProjectError([{ key: 'project.error.scratch2' }]);
+  if (!Array.isArray(data.targets)) throw new ProjectError([{ key: 'project.error.noTargets' }]);
+
+  const inside = ({ x, y }: Point) =>
+    x >= fence.xRange[0] && x <= fence.xRange[1] && y >= fence.yRange[0] && y <= fence.yRange[1];
+
+  const sprites: ProjectSprite[] = [];
+  const targets: ProjectTarget[] = [];
+  let skipped = 0;
+
+  for (const [index, target] of data.targets.entries()) {
+    if (!isObject(target) || target.isStage === true) continue;
+    const { name, x, y, direction } = target;
+    if (typeof name !== 'string' || !isNumber(x) || !isNumber(y) || !isNumber(direction)) {
+      throw new ProjectError([{ key: 'project.error.badSprite', params: { index: index + 1 } }]);
+    }
+
+    const sprite: ProjectSprite = { name, x, y, direction, costume: await readCostume(target, files) };
+    sprites.push(sprite);
+
+    const candidates: ProjectTarget[] = [
+      { sprite, point: { x: Math.round(x), y: Math.round(y) }, block: null },
+      ...positionBlocks(isObject(target.blocks) ? target.blocks : {}).map(block => ({
+        sprite,
+        point: { x: block.x, y: block.y },
+        block
+      }))
+    ];
+    candidates.forEach(c => {
+      if (inside(c.point)) targets.push(c);
+      else skipped++;
+    });
+  }
+
+  if (sprites.length === 0) throw new ProjectError([{ key: 'project.error.noSprites' }]);
+  if (targets.length === 0) throw new ProjectError([{ key: 'project.error.nothingOnStage' }]);
+
+  return { name: fileName.replace(/\.sb3$/i, ''), sprites, targets, skipped };
+};
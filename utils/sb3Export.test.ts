@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { DifficultyLevel, LabeledPoint } from '../types';
+import { GAME_MODES } from '../constants';
+import { buildScratchProject, exportScratchProject } from './sb3Export';
+import { readScratchProject } from './sb3';
+import { readZip } from './zip';
+import { md5 } from './md5';
+
+// The parts of project.json these tests read, in Scratch's layout
+interface Block {
+  opcode: string;
+  next: string | null;
+  parent: string | null;
+  topLevel: boolean;
+}
+
+interface Costume {
+  name: string;
+  assetId: string;
+  md5ext: string;
+}
+
+interface Target {
+  isStage: boolean;
+  name: string;
+  x?: number;
+  y?: number;
+  costumes: Costume[];
+  blocks: Record<string, Block>;
+}
+
+interface Project {
+  targets: Target[];
+  extensions: string[];
+}
+
+const POINTS: LabeledPoint[] = [
+  { x: 0, y: 0, label: 'A' },
+  { x: -120, y: 90, label: 'B' },
+  { x: 60, y: -45, label: 'A' }
+];
+
+const targetsOf = (project: Record<string, unknown>): Target[] => (project as unknown as Project).targets;
+
+// The blocks of a target in script order, from the top-level hat down its `next` links
+const scriptOf = ({ blocks }: Target): (Block & { id: string })[] => {
+  const top = Object.keys(blocks).find(id => blocks[id].topLevel);
+  const script: (Block & { id: string })[] = [];
+  for (let id: string | null = top ?? null; id; id = blocks[id].next) script.push({ id, ...blocks[id] });
+  return script;
+};
+
+describe('buildScratchProject', () => {
+  it('puts the grid on the Stage, first in the target list', () => {
+    const stage = targetsOf(buildScratchProject(POINTS, 'sprites').project)[0];
+    expect(stage.isStage).toBe(true);
+    expect(stage.name).toBe('Stage');
+    expect(stage.costumes).toHaveLength(1);
+    expect(stage.costumes[0].name).toBe('grid');
+  });
+
+  it('gives each point its own sprite, numbering repeated names', () => {
+    const sprites = targetsOf(buildScratchProject(POINTS, 'sprites').project).slice(1);
+    expect(sprites.map(s => s.name)).toEqual(['A', 'B', 'A2']);
+    expect(sprites.map(s => [s.x, s.y])).toEqual([[0, 0], [-120, 90], [60, -45]]);
+    expect(new Set(sprites.map(s => s.name)).size).toBe(sprites.length);
+  });
+
+  it('links every script through next and parent, with only the hat on top', () => {
+    const walker = targetsOf(buildScratchProject(POINTS, 'walk').project)[1];
+    const script = scriptOf(walker);
+    expect(script).toHaveLength(Object.keys(walker.blocks).length);
+    expect(script.map(b => b.opcode)).toEqual([
+      'event_whenflagclicked', 'pen_clear', 'motion_gotoxy', 'pen_penDown',
+      'motion_glidesecstoxy', 'motion_glidesecstoxy', 'pen_penUp'
+    ]);
+    script.forEach((block, i) => {
+      expect(block.topLevel).toBe(i === 0);
+      expect(block.parent).toBe(i === 0 ? null : script[i - 1].id);
+    });
+    expect(script[script.length - 1].next).toBeNull();
+  });
+
+  it('asks for the pen extension only when walking', () => {
+    expect(buildScratchProject(POINTS, 'walk').project.extensions).toEqual(['pen']);
+    expect(buildScratchProject(POINTS, 'sprites').project.extensions).toEqual([]);
+  });
+
+  it('names every asset after the MD5 of its contents', () => {
+    const { assets } = buildScratchProject(POINTS, 'sprites');
+    assets.forEach(file => expect(file.name).toBe(`${md5(file.data)}.svg`));
+  });
+});
+
+describe('exportScratchProject', () => {
+  it('zips project.json with every costume it refers to', async () => {
+    const entries = new Map(readZip(exportScratchProject(POINTS, 'sprites')).map(e => [e.name, e]));
+    const project: Record<string, unknown> = JSON.parse(new TextDecoder().decode(await entries.get('project.json')!.read()));
+    const costumes = targetsOf(project).flatMap(t => t.costumes);
+    expect(costumes).toHaveLength(1 + POINTS.length);
+    for (const costume of costumes) {
+      const entry = entries.get(costume.md5ext);
+      expect(entry).toBeDefined();
+      expect(costume.md5ext).toBe(`${costume.assetId}.svg`);
+      expect(md5(await entry!.read())).toBe(costume.assetId);
+    }
+  });
+
+  it('reads back as the same points', async () => {
+    const fence = GAME_MODES[DifficultyLevel.Hell];
+    const sprites = await readScratchProject('points.sb3', exportScratchProject(POINTS, 'sprites'), fence);
+    expect(sprites.skipped).toBe(0);
+    expect(sprites.sprites.map(s => s.name)).toEqual(['A', 'B', 'A2']);
+    expect(sprites.targets.map(t => t.point)).toEqual(POINTS.map(({ x, y }) => ({ x, y })));
+    expect(sprites.sprites.every(s => s.costume?.startsWith('data:image/svg+xml;base64,'))).toBe(true);
+
+    const walk = await readScratchProject('walk.sb3', exportScratchProject(POINTS, 'walk'), fence);
+    expect(walk.sprites.map(s => s.name)).toEqual(['Walker']);
+    expect(walk.targets.map(t => t.point)).toEqual(expect.arrayContaining(POINTS.map(({ x, y }) => ({ x, y }))));
+  });
+});
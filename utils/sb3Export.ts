@@ -0,0 +1,206 @@
+import { DifficultyLevel, GameConfig, LabeledPoint } from '../types';
+import { GAME_MODES } from '../constants';
+import { escapeXml } from './gridDrawing';
+import { md5 } from './md5';
+import { ZipFile, writeZip } from './zip';
+
+export type ExportStyle =
+  | 'sprites' // One sprite standing on each point
+  | 'walk'; // One sprite glides through the points in order, drawing its path with the pen
+
+type Json = Record<string, unknown>;
+
+interface Costume {
+  json: Json; // Entry for the target's `costumes` list
+  file: ZipFile;
+}
+
+// Scratch's own stage size; the backdrop is drawn at this size whatever the level
+const STAGE_WIDTH = 480;
+const STAGE_HEIGHT = 360;
+const GLIDE_SECS = 1;
+
+const encoder = new TextEncoder();
+
+// Assets are stored under the MD5 of their contents, like the Scratch editor does
+const svgCostume = (name: string, svg: string, centerX: number, centerY: number): Costume => {
+  const data = encoder.encode(svg);
+  const assetId = md5(data);
+  return {
+    json: {
+      name,
+      bitmapResolution: 1,
+      dataFormat: 'svg',
+      assetId,
+      md5ext: `${assetId}.svg`,
+      rotationCenterX: centerX,
+      rotationCenterY: centerY
+    },
+    file: { name: `${assetId}.svg`, data }
+  };
+};
+
+// The level's grid as a backdrop, so the points land on familiar lines
+const backdrop = (stage: GameConfig): Costume => {
+  const { xRange, yRange, gridStep, majorGridStep, labelStep } = stage;
+  const sx = (x: number) => ((x - xRange[0]) / (xRange[1] - xRange[0])) * STAGE_WIDTH;
+  const sy = (y: number) => STAGE_HEIGHT - ((y - yRange[0]) / (yRange[1] - yRange[0])) * STAGE_HEIGHT;
+  const colorOf = (v: number) =>
+    v === 0 ? '#334155' : majorGridStep && v % majorGridStep === 0 ? '#94a3b8' : '#e2e8f0';
+
+  const lines: string[] = [];
+  for (let x = xRange[0]; x <= xRange[1]; x += gridStep) {
+    lines.push(`<line x1="${sx(x)}" y1="0" x2="${sx(x)}" y2="${STAGE_HEIGHT}" stroke="${colorOf(x)}" stroke-width="1"/>`);
+    if (x % labelStep === 0 && x !== 0) {
+      lines.push(`<text x="${sx(x)}" y="${sy(0) + 14}" font-size="11" fill="#64748b" text-anchor="middle">${x}</text>`);
+    }
+  }
+  for (let y = yRange[0]; y <= yRange[1]; y += gridStep) {
+    lines.push(`<line x1="0" y1="${sy(y)}" x2="${STAGE_WIDTH}" y2="${sy(y)}" stroke="${colorOf(y)}" stroke-width="1"/>`);
+    if (y % labelStep === 0 && y !== 0) {
+      lines.push(`<text x="${sx(0) - 6}" y="${sy(y) + 4}" font-size="11" fill="#64748b" text-anchor="end">${y}</text>`);
+    }
+  }
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${STAGE_WIDTH}" height="${STAGE_HEIGHT}" viewBox="0 0 ${STAGE_WIDTH} ${STAGE_HEIGHT}">`
+    + `<rect width="${STAGE_WIDTH}" height="${STAGE_HEIGHT}" fill="#f8fafc"/>${lines.join('')}</svg>`;
+  return svgCostume('grid', svg, STAGE_WIDTH / 2, STAGE_HEIGHT / 2);
+};
+
+// A dot with its label next to it; the dot's centre is the sprite's position
+const dot = (label: string, color: string): Costume => {
+  const svg = '<svg xmlns="http://www.w3.org/2000/svg" width="60" height="40" viewBox="0 0 60 40">'
+    + `<circle cx="20" cy="20" r="7" fill="${color}" stroke="#ffffff" stroke-width="2"/>`
+    + `<text x="30" y="14" font-family="Sans Serif" font-size="13" font-weight="bold" fill="#1e293b">${escapeXml(label)}</text></svg>`;
+  return svgCostume(label || 'dot', svg, 20, 20);
+};
+
+// Literal inputs: [1, [4, "10"]] is a number field, [1, [10, "hi"]] a text field
+const numberInput = (n: number) => [1, [4, String(n)]];
+const textInput = (text: string) => [1, [10, text]];
+
+interface BlockSpec {
+  opcode: string;
+  inputs?: Json;
+}
+
+// A green-flag script in Scratch's layout: blocks keyed by id, linked through next/parent
+const flagScript = (body: BlockSpec[]): Json => {
+  const specs: BlockSpec[] = [{ opcode: 'event_whenflagclicked' }, ...body];
+  const ids = specs.map((_, i) => `block${i + 1}`);
+  return Object.fromEntries(specs.map((spec, i) => [ids[i], {
+    opcode: spec.opcode,
+    next: ids[i + 1] ?? null,
+    parent: ids[i - 1] ?? null,
+    inputs: spec.inputs ?? {},
+    fields: {},
+    shadow: false,
+    topLevel: i === 0,
+    ...(i === 0 ? { x: 48, y: 48 } : {})
+  }]));
+};
+
+const targetBase = (name: string, layerOrder: number, costume: Costume, blocks: Json) => ({
+  name,
+  variables: {},
+  lists: {},
+  broadcasts: {},
+  blocks,
+  comments: {},
+  currentCostume: 0,
+  costumes: [costume.json],
+  sounds: [],
+  volume: 100,
+  layerOrder
+});
+
+const sprite = (name: string, layerOrder: number, costume: Costume, blocks: Json, x: number, y: number) => ({
+  isStage: false,
+  ...targetBase(name, layerOrder, costume, blocks),
+  visible: true,
+  x,
+  y,
+  size: 100,
+  direction: 90,
+  draggable: false,
+  rotationStyle: 'all around'
+});
+
+// Scratch wants sprite names to be unique, so repeats get a number: A, A2, A3
+const uniqueNames = (points: LabeledPoint[]) => {
+  const seen = new Map<string, number>();
+  return points.map(p => {
+    const base = p.label || 'P';
+    const count = (seen.get(base) ?? 0) + 1;
+    seen.set(base, count);
+    return count === 1 ? base : `${base}${count}`;
+  });
+};
+
+const formatPoint = (name: string, p: LabeledPoint) => `${name} (${p.x}, ${p.y})`;
+
+/**
+ * The project.json for a set of points, plus the asset files it refers to.
+ * The stage is Scratch's 480x360 with `stage`'s grid as the backdrop.
+ */
+export const buildScratchProject = (
+  points: LabeledPoint[],
+  style: ExportStyle,
+  stage: GameConfig = GAME_MODES[DifficultyLevel.Hell]
+): { project: Json; assets: ZipFile[] } => {
+  const grid = backdrop(stage);
+  const stageTarget = {
+    isStage: true,
+    ...targetBase('Stage', 0, grid, {}),
+    tempo: 60,
+    videoTransparency: 50,
+    videoState: 'on',
+    textToSpeechLanguage: null
+  };
+
+  const costumes: Costume[] = [grid];
+  const sprites: Json[] = [];
+  if (style === 'sprites') {
+    // Each point says where it is when the green flag is clicked
+    uniqueNames(points).forEach((name, i) => {
+      const p = points[i];
+      const costume = dot(name, '#6366f1'); // Indigo 500
+      costumes.push(costume);
+      sprites.push(sprite(name, i + 1, costume, flagScript([
+        { opcode: 'looks_sayforsecs', inputs: { MESSAGE: textInput(formatPoint(name, p)), SECS: numberInput(2) } }
+      ]), p.x, p.y));
+    });
+  } else {
+    const [first, ...rest] = points;
+    const costume = dot('', '#f59e0b'); // Amber 500
+    costumes.push(costume);
+    sprites.push(sprite('Walker', 1, costume, flagScript([
+      { opcode: 'pen_clear' },
+      { opcode: 'motion_gotoxy', inputs: { X: numberInput(first?.x ?? 0), Y: numberInput(first?.y ?? 0) } },
+      { opcode: 'pen_penDown' },
+      ...rest.map(p => ({
+        opcode: 'motion_glidesecstoxy',
+        inputs: { SECS: numberInput(GLIDE_SECS), X: numberInput(p.x), Y: numberInput(p.y) }
+      })),
+      { opcode: 'pen_penUp' }
+    ]), first?.x ?? 0, first?.y ?? 0));
+  }
+
+  // Identical costumes share one file
+  const assets = [...new Map(costumes.map(c => [c.file.name, c.file])).values()];
+  return {
+    project: {
+      targets: [stageTarget, ...sprites],
+      monitors: [],
+      extensions: style === 'walk' ? ['pen'] : [],
+      meta: { semver: '3.0.0', vm: '0.2.0', agent: 'scratch-coordinate-master' }
+    },
+    assets
+  };
+};
+
+// A complete .sb3, ready to download and open in the Scratch editor
+export const exportScratchProject = (points: LabeledPoint[], style: ExportStyle, stage?: GameConfig): Uint8Array => {
+  const { project, assets } = buildScratchProject(points, style, stage);
+  return writeZip([{ name: 'project.json', data: encoder.encode(JSON.stringify(project)) }, ...assets]);
+};
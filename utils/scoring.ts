@@ -0,0 +1,72 @@
+import { AttemptRecord, GameConfig } from '../types';
+
+export interface RoundScore {
+  success: boolean;
+  precision: number; // 1 = dead on, 0 = well outside the tolerance
+  stars: number; // 1–3 on a hit, 0 on a miss
+  points: number; // Precision points plus speed bonus
+  speedBonus: number;
+}
+
+// Points for a perfectly placed answer
+const MAX_PRECISION_POINTS = 100;
+// A near miss keeps this share of its precision points
+const NEAR_MISS_SHARE = 0.5;
+// Full speed bonus up to FAST_MS, fading to nothing by SLOW_MS; only hits earn it
+const MAX_SPEED_BONUS = 50;
+const FAST_MS = 3000;
+const SLOW_MS = 15000;
+// Share of the tolerance a hit must land within for 3 and 2 stars
+const THREE_STAR_SHARE = 1 / 3;
+const TWO_STAR_SHARE = 2 / 3;
+// Average precision only looks at the latest answers, so early struggles don't count forever
+const PRECISION_WINDOW = 50;
+
+/**
+ * How close an answer was, from 1 (exact) down to 0. Credit runs out `slack` past
+ * the tolerance, so an answer just outside the hit zone still counts for something.
+ */
+const precisionWithin = (distance: number, tolerance: number, slack: number) =>
+  Math.max(0, 1 - distance / (tolerance + slack));
+
+const starsWithin = (distance: number, tolerance: number) => {
+  if (distance > tolerance) return 0;
+  if (distance <= tolerance * THREE_STAR_SHARE) return 3;
+  return distance <= tolerance * TWO_STAR_SHARE ? 2 : 1;
+};
+
+// On the grid the slack is one grid step
+export const precisionOf = (distance: number, config: GameConfig) =>
+  precisionWithin(distance, config.tolerance, config.gridStep);
+
+export const starsFor = (distance: number, config: GameConfig) => starsWithin(distance, config.tolerance);
+
+export const speedBonusFor = (timeMs: number) => {
+  const share = 1 - (timeMs - FAST_MS) / (SLOW_MS - FAST_MS);
+  return Math.round(MAX_SPEED_BONUS * Math.min(1, Math.max(0, share)));
+};
+
+// Scores any kind of distance, e.g. degrees off in direction rounds
+export const scoreWithin = (distance: number, timeMs: number, tolerance: number, slack: number): RoundScore => {
+  const success = distance <= tolerance;
+  const precision = precisionWithin(distance, tolerance, slack);
+  const precisionPoints = Math.round(MAX_PRECISION_POINTS * precision * (success ? 1 : NEAR_MISS_SHARE));
+  const speedBonus = success ? speedBonusFor(timeMs) : 0;
+  return {
+    success,
+    precision,
+    stars: starsWithin(distance, tolerance),
+    points: precisionPoints + speedBonus,
+    speedBonus
+  };
+};
+
+export const scoreAnswer = (distance: number, timeMs: number, config: GameConfig): RoundScore =>
+  scoreWithin(distance, timeMs, config.tolerance, config.gridStep);
+
+// Mean precision over a level's recent attempts (0 when there are none)
+export const averagePrecision = (attempts: AttemptRecord[], config: GameConfig) => {
+  const list = attempts.filter(a => a.mode === config.id).slice(-PRECISION_WINDOW);
+  if (list.length === 0) return 0;
+  return list.reduce((sum, a) => sum + precisionOf(a.distance, config), 0) / list.length;
+};
@@ -0,0 +1,181 @@
+import { GameConfig, Point } from '../types';
+import { Message } from '../i18n';
+import { Random } from './random';
+
+// A tiny subset of Scratch 3 "Motion" blocks, enough for coordinate practice.
+export type MotionBlock =
+  | { op: 'goto'; x: number; y: number }
+  | { op: 'glide'; secs: number; x: number; y: number }
+  | { op: 'changeX'; dx: number }
+  | { op: 'setX'; x: number }
+  | { op: 'changeY'; dy: number }
+  | { op: 'setY'; y: number }
+  | { op: 'move'; steps: number }
+  | { op: 'pointInDirection'; direction: number }
+  | { op: 'turnRight'; degrees: number }
+  | { op: 'turnLeft'; degrees: number };
+
+export interface SpriteState {
+  x: number;
+  y: number;
+  direction: number; // Scratch convention: 90 = right, 0 = up, -90 = left, 180 = down
+}
+
+export interface MotionResult {
+  final: SpriteState;
+  trace: Point[]; // Sprite position before the first block and after every block
+}
+
+// Fresh Scratch sprites sit at the origin facing right
+export const DEFAULT_SPRITE: SpriteState = { x: 0, y: 0, direction: 90 };
+
+// The Scratch stage, used as the fence when no config is given
+export const SCRATCH_STAGE: Pick<GameConfig, 'xRange' | 'yRange'> = {
+  xRange: [-240, 240],
+  yRange: [-180, 180]
+};
+
+// Scratch keeps directions in (-180, 180]
+export const wrapDirection = (direction: number): number =>
+  ((direction + 179) % 360 + 360) % 360 - 179;
+
+// Trig on degrees leaves noise like 49.99999999; Scratch trims it the same way
+const limitPrecision = (value: number): number => {
+  const rounded = Math.round(value);
+  return Math.abs(value - rounded) < 1e-9 ? rounded : value;
+};
+
+const clamp = (value: number, [min, max]: [number, number]) => Math.min(max, Math.max(min, value));
+
+export const runMotionScript = (
+  blocks: MotionBlock[],
+  fence: Pick<GameConfig, 'xRange' | 'yRange'> = SCRATCH_STAGE,
+  start: SpriteState = DEFAULT_SPRITE
+): MotionResult => {
+  let state: SpriteState = { ...start, direction: wrapDirection(start.direction) };
+  const trace: Point[] = [{ x: state.x, y: state.y }];
+
+  // Every position change goes through the fence, just like Scratch's keepInFence
+  const moveTo = (x: number, y: number) => {
+    state = {
+      ...state,
+      x: clamp(limitPrecision(x), fence.xRange),
+      y: clamp(limitPrecision(y), fence.yRange)
+    };
+  };
+
+  for (const block of blocks) {
+    switch (block.op) {
+      case 'goto':
+      case 'glide':
+        moveTo(block.x, block.y);
+        break;
+      case 'changeX':
+        moveTo(state.x + block.dx, state.y);
+        break;
+      case 'setX':
+        moveTo(block.x, state.y);
+        break;
+      case 'changeY':
+        moveTo(state.x, state.y + block.dy);
+        break;
+      case 'setY':
+        moveTo(state.x, block.y);
+        break;
+      case 'move': {
+        const radians = ((90 - state.direction) * Math.PI) / 180;
+        moveTo(state.x + block.steps * Math.cos(radians), state.y + block.steps * Math.sin(radians));
+        break;
+      }
+      case 'pointInDirection':
+        state = { ...state, direction: wrapDirection(block.direction) };
+        break;
+      case 'turnRight':
+        state = { ...state, direction: wrapDirection(state.direction + block.degrees) };
+        break;
+      case 'turnLeft':
+        state = { ...state, direction: wrapDirection(state.direction - block.degrees) };
+        break;
+    }
+    trace.push({ x: state.x, y: state.y });
+  }
+
+  return { final: state, trace };
+};
+
+// Block text as it reads in the Scratch editor, in whichever language the UI uses
+export const formatMotionBlock = (block: MotionBlock): Message => {
+  switch (block.op) {
+    case 'goto': return { key: 'script.goto', params: { x: block.x, y: block.y } };
+    case 'glide': return { key: 'script.glide', params: { secs: block.secs, x: block.x, y: block.y } };
+    case 'changeX': return { key: 'script.changeX', params: { dx: block.dx } };
+    case 'setX': return { key: 'script.setX', params: { x: block.x } };
+    case 'changeY': return { key: 'script.changeY', params: { dy: block.dy } };
+    case 'setY': return { key: 'script.setY', params: { y: block.y } };
+    case 'move': return { key: 'script.move', params: { steps: block.steps } };
+    case 'pointInDirection': return { key: 'script.pointInDirection', params: { direction: block.direction } };
+    case 'turnRight': return { key: 'script.turnRight', params: { degrees: block.degrees } };
+    case 'turnLeft': return { key: 'script.turnLeft', params: { degrees: block.degrees } };
+  }
+};
+
+const randomInt = (random: Random, min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+const randomPick = <T>(random: Random, items: readonly T[]): T => items[Math.floor(random() * items.length)];
+
+// Random multiple of `step` inside [min, max]
+const randomOnGrid = (random: Random, [min, max]: [number, number], step: number) =>
+  min + randomInt(random, 0, Math.floor((max - min) / step)) * step;
+
+// Non-zero multiple of `step`, at most `limit` away from zero
+const randomDelta = (random: Random, step: number, limit: number) => {
+  const n = randomInt(random, 1, Math.max(1, Math.floor(limit / step)));
+  return (random() < 0.5 ? -1 : 1) * n * step;
+};
+
+/**
+ * Builds a short script that always starts with `go to x: y:` so the starting
+ * point is known. Directions stay on multiples of 90 so every answer lands on
+ * the config's target grid (or on the stage edge, once clamping kicks in).
+ */
+export const generateMotionScript = (config: GameConfig, random: Random = Math.random): MotionBlock[] => {
+  const step = config.targetStep;
+  const xSpan = config.xRange[1] - config.xRange[0];
+  const ySpan = config.yRange[1] - config.yRange[0];
+
+  const blocks: MotionBlock[] = [
+    { op: 'goto', x: randomOnGrid(random, config.xRange, step), y: randomOnGrid(random, config.yRange, step) }
+  ];
+
+  const count = randomInt(random, 2, 3);
+  for (let i = 0; i < count; i++) {
+    const kind = randomPick(random, ['changeX', 'changeY', 'setX', 'setY', 'move', 'glide'] as const);
+    switch (kind) {
+      case 'changeX':
+        blocks.push({ op: 'changeX', dx: randomDelta(random, step, xSpan / 3) });
+        break;
+      case 'changeY':
+        blocks.push({ op: 'changeY', dy: randomDelta(random, step, ySpan / 3) });
+        break;
+      case 'setX':
+        blocks.push({ op: 'setX', x: randomOnGrid(random, config.xRange, step) });
+        break;
+      case 'setY':
+        blocks.push({ op: 'setY', y: randomOnGrid(random, config.yRange, step) });
+        break;
+      case 'move':
+        blocks.push({ op: 'pointInDirection', direction: randomPick(random, [90, 0, -90, 180]) });
+        blocks.push({ op: 'move', steps: randomInt(random, 1, Math.floor(Math.min(xSpan, ySpan) / 3 / step)) * step });
+        break;
+      case 'glide':
+        blocks.push({
+          op: 'glide',
+          secs: randomPick(random, [0.5, 1, 2]),
+          x: randomOnGrid(random, config.xRange, step),
+          y: randomOnGrid(random, config.yRange, step)
+        });
+        break;
+    }
+  }
+
+  return blocks;
+};
@@ -0,0 +1,104 @@
+import { LeaderboardEntry, SessionType } from '../types';
+import { RoundScore } from './scoring';
+
+export interface SessionRule {
+  timeLimitMs?: number; // Session ends when the clock runs out
+  targetHits?: number; // Session ends on reaching this many hits
+  endsOnMiss: boolean;
+  hitDelayMs: number; // Pause on the ⭐ before the next target
+  replayDelayMs: number; // Pause while a missed script is played back
+}
+
+export const SESSION_RULES: Record<SessionType, SessionRule> = {
+  [SessionType.Practice]: { endsOnMiss: false, hitDelayMs: 1500, replayDelayMs: 3000 },
+  [SessionType.Timed]: { timeLimitMs: 60_000, endsOnMiss: false, hitDelayMs: 400, replayDelayMs: 1500 },
+  [SessionType.FirstTo]: { targetHits: 20, endsOnMiss: false, hitDelayMs: 400, replayDelayMs: 1500 },
+  [SessionType.SuddenDeath]: { endsOnMiss: true, hitDelayMs: 400, replayDelayMs: 1500 }
+};
+
+// Keep only the best runs per level and session type
+export const LEADERBOARD_SIZE = 10;
+
+export interface SessionStats {
+  hits: number;
+  attempts: number;
+  streak: number; // Hits in a row right now
+  bestStreak: number;
+  points: number;
+  precisionSum: number; // Divide by attempts for the average
+  starCounts: [number, number, number, number]; // Rounds that earned 0, 1, 2 and 3 stars
+}
+
+export const emptyStats = (): SessionStats => ({
+  hits: 0,
+  attempts: 0,
+  streak: 0,
+  bestStreak: 0,
+  points: 0,
+  precisionSum: 0,
+  starCounts: [0, 0, 0, 0]
+});
+
+export const recordAnswer = (stats: SessionStats, score: RoundScore): SessionStats => {
+  const streak = score.success ? stats.streak + 1 : 0;
+  const starCounts: SessionStats['starCounts'] = [...stats.starCounts];
+  starCounts[score.stars] += 1;
+  return {
+    hits: stats.hits + (score.success ? 1 : 0),
+    attempts: stats.attempts + 1,
+    streak,
+    bestStreak: Math.max(stats.bestStreak, streak),
+    points: stats.points + score.points,
+    precisionSum: stats.precisionSum + score.precision,
+    starCounts
+  };
+};
+
+// Whether the session is finished after the last answer (the clock is checked separately)
+export const reachedGoal = (type: SessionType, stats: SessionStats, lastSuccess: boolean) => {
+  const rule = SESSION_RULES[type];
+  if (rule.endsOnMiss && !lastSuccess) return true;
+  return rule.targetHits !== undefined && stats.hits >= rule.targetHits;
+};
+
+export const timeLeft = (type: SessionType, elapsedMs: number): number | null => {
+  const limit = SESSION_RULES[type].timeLimitMs;
+  return limit === undefined ? null : Math.max(0, limit - elapsedMs);
+};
+
+export const entryAccuracy = (entry: Pick<LeaderboardEntry, 'hits' | 'attempts'>) =>
+  entry.attempts === 0 ? 0 : entry.hits / entry.attempts;
+
+// Best first: most hits in the time, fastest to the target, longest streak
+const COMPARATORS: Record<SessionType, (a: LeaderboardEntry, b: LeaderboardEntry) => number> = {
+  [SessionType.Practice]: () => 0,
+  [SessionType.Timed]: (a, b) => b.hits - a.hits || entryAccuracy(b) - entryAccuracy(a),
+  [SessionType.FirstTo]: (a, b) => a.timeMs - b.timeMs || entryAccuracy(b) - entryAccuracy(a),
+  [SessionType.SuddenDeath]: (a, b) => b.hits - a.hits || a.timeMs - b.timeMs
+};
+
+export const rankEntries = (entries: LeaderboardEntry[], type: SessionType): LeaderboardEntry[] =>
+  entries
+    .filter(e => e.sessionType === type)
+    .sort((a, b) => COMPARATORS[type](a, b) || a.timestamp - b.timestamp);
+
+// Adds a run to a level's board, dropping whatever falls off the bottom for its session type
+export const addLeaderboardEntry = (entries: LeaderboardEntry[], entry: LeaderboardEntry): LeaderboardEntry[] => {
+  const kept = rankEntries([...entries, entry], entry.sessionType).slice(0, LEADERBOARD_SIZE);
+  return [...entries.filter(e => e.sessionType !== entry.sessionType), ...kept];
+};
+
+// Drops a deleted student's runs from every level's board
+export const withoutProfile = (
+  boards: Record<string, LeaderboardEntry[]>,
+  profileId: string
+): Record<string, LeaderboardEntry[]> => {
+  const kept: Record<string, LeaderboardEntry[]> = {};
+  for (const level of Object.keys(boards)) {
+    kept[level] = boards[level].filter(e => e.profileId !== profileId);
+  }
+  return kept;
+};
+
+// e.g. 12345 → "12.3s"
+export const formatDuration = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
@@ -0,0 +1,123 @@
+import { GameConfig, LabeledPoint, Point } from '../types';
+import { Message } from '../i18n';
+import { Random } from './random';
+import { gridValues } from './targetScheduler';
+
+export type ShapeTaskKind =
+  | 'plotPolygon' // Plot every vertex in order and join them
+  | 'completeRectangle'; // Three corners are given, find the fourth
+
+export interface ShapeTask {
+  kind: ShapeTaskKind;
+  outline: LabeledPoint[]; // Every vertex in drawing order, e.g. A B C D
+  given: LabeledPoint[]; // Shown from the start
+  answers: LabeledPoint[]; // What the student has to place, in order
+}
+
+export interface VertexResult {
+  expected: LabeledPoint;
+  placed: Point;
+  distance: number;
+  success: boolean;
+}
+
+const LABELS = ['A', 'B', 'C', 'D'];
+
+const randomPick = <T>(random: Random, items: readonly T[]): T => items[Math.floor(random() * items.length)];
+
+// Two different grid values, far enough apart that the shape doesn't collapse into a sliver
+const distinctPair = (values: number[], random: Random): [number, number] => {
+  const minGap = Math.max(1, Math.floor(values.length / 4));
+  for (let tries = 0; tries < 50; tries++) {
+    const a = Math.floor(random() * values.length);
+    const b = Math.floor(random() * values.length);
+    if (Math.abs(a - b) >= minGap) return a < b ? [values[a], values[b]] : [values[b], values[a]];
+  }
+  return [values[0], values[values.length - 1]];
+};
+
+const label = (points: Point[]): LabeledPoint[] => points.map((p, i) => ({ ...p, label: LABELS[i] }));
+
+// Corners in drawing order: bottom left, bottom right, top right, top left
+const rectangle = (config: GameConfig, random: Random): LabeledPoint[] => {
+  const [x1, x2] = distinctPair(gridValues(config.xRange, config.targetStep), random);
+  const [y1, y2] = distinctPair(gridValues(config.yRange, config.targetStep), random);
+  return label([{ x: x1, y: y1 }, { x: x2, y: y1 }, { x: x2, y: y2 }, { x: x1, y: y2 }]);
+};
+
+// Twice the signed area; zero means the three points sit on one line
+const cross = (a: Point, b: Point, c: Point) => (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+
+const triangle = (config: GameConfig, random: Random): LabeledPoint[] => {
+  const xs = gridValues(config.xRange, config.targetStep);
+  const ys = gridValues(config.yRange, config.targetStep);
+  const pick = () => ({ x: randomPick(random, xs), y: randomPick(random, ys) });
+  // Reject thin triangles: at least an eighth of the level's area
+  const minArea = ((config.xRange[1] - config.xRange[0]) * (config.yRange[1] - config.yRange[0])) / 8;
+  for (let tries = 0; tries < 100; tries++) {
+    const [a, b, c] = [pick(), pick(), pick()];
+    if (Math.abs(cross(a, b, c)) / 2 >= minArea) return label([a, b, c]);
+  }
+  return rectangle(config, random).slice(0, 3); // A right triangle is always fine
+};
+
+export const generateShapeTask = (config: GameConfig, random: Random = Math.random): ShapeTask => {
+  const kind = randomPick<ShapeTaskKind>(random, ['plotPolygon', 'completeRectangle']);
+  if (kind === 'completeRectangle') {
+    const outline = rectangle(config, random);
+    const missing = Math.floor(random() * outline.length);
+    return {
+      kind,
+      outline,
+      given: outline.filter((_, i) => i !== missing),
+      answers: [outline[missing]]
+    };
+  }
+  const outline = random() < 0.5 ? triangle(config, random) : rectangle(config, random);
+  return { kind, outline, given: [], answers: outline };
+};
+
+const formatVertex = (p: LabeledPoint) => `${p.label}(${p.x}, ${p.y})`;
+
+// `vertex` writes out one labelled corner; speech passes one that says the signs
+export const describeShapeTask = (task: ShapeTask, vertex: (p: LabeledPoint) => string = formatVertex): Message =>
+  task.kind === 'completeRectangle'
+    ? {
+        key: 'shape.completeRectangle',
+        params: {
+          shape: task.outline.map(p => p.label).join(''),
+          given: task.given.map(vertex).join(', '),
+          missing: task.answers[0].label
+        }
+      }
+    : { key: 'shape.plotPolygon', params: { vertices: task.answers.map(vertex).join(', ') } };
+
+// Vertices placed so far, labelled with the answer they stand for
+export const labelPlaced = (task: ShapeTask, placed: Point[]): LabeledPoint[] =>
+  placed.map((p, i) => ({ ...p, label: task.answers[i].label }));
+
+export const isShapeComplete = (task: ShapeTask, placed: Point[]) => placed.length >= task.answers.length;
+
+/**
+ * Outline edges that can be drawn so far: those between two known vertices
+ * (given or placed), including the closing edge back to A.
+ */
+export const shapeSegments = (task: ShapeTask, placed: Point[]): [LabeledPoint, LabeledPoint][] => {
+  const known = [...task.given, ...labelPlaced(task, placed)];
+  const at = (label: string) => known.find(p => p.label === label);
+  const segments: [LabeledPoint, LabeledPoint][] = [];
+  for (let i = 0; i < task.outline.length; i++) {
+    const from = at(task.outline[i].label);
+    const to = at(task.outline[(i + 1) % task.outline.length].label);
+    if (from && to) segments.push([from, to]);
+  }
+  return segments;
+};
+
+// Each vertex is judged on its own, with the level's usual tolerance
+export const checkShape = (task: ShapeTask, placed: Point[], tolerance: number): VertexResult[] =>
+  task.answers.map((expected, i) => {
+    const p = placed[i];
+    const distance = Math.hypot(p.x - expected.x, p.y - expected.y);
+    return { expected, placed: p, distance, success: distance <= tolerance };
+  });
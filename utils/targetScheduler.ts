@@ -0,0 +1,134 @@
+import { AttemptRecord, GameConfig, Point } from '../types';
+import { Region, getRegion } from './attemptHistory';
+import { Random } from './random';
+
+// Distance from the origin, relative to how far the level reaches
+export type Band = 'near' | 'middle' | 'far';
+
+export interface MasteryEstimate {
+  regions: Record<Region, number>; // 0 = always missed … 1 = always hit
+  bands: Record<Band, number>;
+}
+
+// Only the latest answers count, so mastery follows the student as they improve
+const RECENT_ATTEMPTS = 60;
+// Targets in this window aren't asked again
+const NO_REPEAT_WINDOW = 5;
+// Axis points get at least this share of the picks
+const MIN_AXIS_SHARE = 0.25;
+// Keeps strong areas in rotation instead of dropping them entirely
+const BASE_WEIGHT = 0.2;
+// Past this many grid points, weigh a random sample instead of the whole grid
+const MAX_CANDIDATES = 4000;
+
+// Every multiple of targetStep inside the level
+export const gridValues = ([min, max]: [number, number], step: number) => {
+  const values: number[] = [];
+  const count = Math.floor((max - min) / step + 1e-9);
+  // Rounded so fractional steps give 0.3 rather than 0.30000000000000004
+  for (let i = 0; i <= count; i++) values.push(Math.round((min + i * step) * 1e6) / 1e6);
+  return values;
+};
+
+const randomPoint = (config: GameConfig, random: Random): Point => {
+  const xs = gridValues(config.xRange, config.targetStep);
+  const ys = gridValues(config.yRange, config.targetStep);
+  return { x: xs[Math.floor(random() * xs.length)], y: ys[Math.floor(random() * ys.length)] };
+};
+
+const candidatePoints = (config: GameConfig, random: Random): Point[] => {
+  const xs = gridValues(config.xRange, config.targetStep);
+  const ys = gridValues(config.yRange, config.targetStep);
+  if (xs.length * ys.length > MAX_CANDIDATES) {
+    // Sample, but make sure both axes are represented
+    const sample = Array.from({ length: MAX_CANDIDATES / 2 }, () => randomPoint(config, random));
+    sample.push(...xs.filter((_, i) => i % 4 === 0).map(x => ({ x, y: 0 })));
+    sample.push(...ys.filter((_, i) => i % 4 === 0).map(y => ({ x: 0, y })));
+    return sample;
+  }
+  return xs.flatMap(x => ys.map(y => ({ x, y })));
+};
+
+export const getBand = ({ x, y }: Point, config: GameConfig): Band => {
+  const reachX = Math.max(Math.abs(config.xRange[0]), Math.abs(config.xRange[1])) || 1;
+  const reachY = Math.max(Math.abs(config.yRange[0]), Math.abs(config.yRange[1])) || 1;
+  const r = Math.max(Math.abs(x) / reachX, Math.abs(y) / reachY);
+  if (r <= 1 / 3) return 'near';
+  return r >= 2 / 3 ? 'far' : 'middle';
+};
+
+/**
+ * Hit rate per area over the student's recent attempts in this level.
+ * Each area starts from one imaginary hit and one miss, so an untried area reads 0.5
+ * and a single answer can't swing it all the way.
+ */
+export const estimateMastery = (attempts: AttemptRecord[], config: GameConfig): MasteryEstimate => {
+  const recent = attempts.filter(a => a.mode === config.id).slice(-RECENT_ATTEMPTS);
+  const rate = (list: AttemptRecord[]) => (list.filter(a => a.success).length + 1) / (list.length + 2);
+
+  return {
+    regions: {
+      I: rate(recent.filter(a => getRegion(a.target) === 'I')),
+      II: rate(recent.filter(a => getRegion(a.target) === 'II')),
+      III: rate(recent.filter(a => getRegion(a.target) === 'III')),
+      IV: rate(recent.filter(a => getRegion(a.target) === 'IV')),
+      axis: rate(recent.filter(a => getRegion(a.target) === 'axis'))
+    },
+    bands: {
+      near: rate(recent.filter(a => getBand(a.target, config) === 'near')),
+      middle: rate(recent.filter(a => getBand(a.target, config) === 'middle')),
+      far: rate(recent.filter(a => getBand(a.target, config) === 'far'))
+    }
+  };
+};
+
+const samePoint = (a: Point, b: Point) => a.x === b.x && a.y === b.y;
+
+const weightedPick = (points: Point[], weights: number[], random: Random): Point => {
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  let roll = random() * total;
+  for (let i = 0; i < points.length; i++) {
+    roll -= weights[i];
+    if (roll < 0) return points[i];
+  }
+  return points[points.length - 1];
+};
+
+/**
+ * Picks the next target for a level according to its `targetPolicy`.
+ * `recentTargets` is oldest first and should include the target on screen now.
+ */
+export const pickTarget = (
+  config: GameConfig,
+  attempts: AttemptRecord[],
+  recentTargets: Point[],
+  random: Random = Math.random
+): Point => {
+  if (config.targetPolicy === 'uniform') return randomPoint(config, random);
+
+  const avoid = recentTargets.slice(-NO_REPEAT_WINDOW);
+  let candidates = candidatePoints(config, random).filter(p => !avoid.some(r => samePoint(p, r)));
+  // Tiny levels can run out of fresh points; then only the very last one is off limits
+  if (candidates.length === 0) {
+    const last = recentTargets[recentTargets.length - 1];
+    candidates = candidatePoints(config, random).filter(p => !last || !samePoint(p, last));
+  }
+  if (candidates.length === 0) return randomPoint(config, random);
+
+  // Weaker areas weigh more: a point scores for both its quadrant and its distance band
+  const mastery = estimateMastery(attempts, config);
+  const weights = candidates.map(p =>
+    BASE_WEIGHT + (1 - mastery.regions[getRegion(p)]) + (1 - mastery.bands[getBand(p, config)])
+  );
+
+  // There are far fewer axis points than others, so top up their share when needed
+  const onAxis = candidates.map(p => getRegion(p) === 'axis');
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  const axisTotal = weights.reduce((sum, w, i) => sum + (onAxis[i] ? w : 0), 0);
+  if (axisTotal > 0 && axisTotal < total * MIN_AXIS_SHARE) {
+    const boost = (MIN_AXIS_SHARE * (total - axisTotal)) / ((1 - MIN_AXIS_SHARE) * axisTotal);
+    onAxis.forEach((axis, i) => { if (axis) weights[i] *= boost; });
+  }
+
+  return weightedPick(candidates, weights, random);
+};
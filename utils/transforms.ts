@@ -0,0 +1,131 @@
+import { GameConfig, LabeledPoint, Point } from '../types';
+import { Message } from '../i18n';
+import { Random } from './random';
+import { gridValues } from './targetScheduler';
+
+// One change to a point; rotations and reflections are about the origin and the axes
+export type Transform =
+  | { kind: 'translate'; dx: number; dy: number }
+  | { kind: 'reflect'; axis: 'x' | 'y' } // Across the x-axis flips y, across the y-axis flips x
+  | { kind: 'rotate'; degrees: 90 | -90 | 180 }; // Positive is anticlockwise, as in maths
+
+export interface TransformTask {
+  start: LabeledPoint;
+  steps: Transform[]; // Applied in order
+  end: Point;
+}
+
+// Chains get longer less often
+const STEP_COUNTS = [1, 1, 2, 2, 3];
+// Rotations are animated along their arc in steps of this many degrees
+const ARC_STEP = 15;
+
+export const applyTransform = (p: Point, step: Transform): Point => {
+  switch (step.kind) {
+    case 'translate': return { x: p.x + step.dx, y: p.y + step.dy };
+    case 'reflect': return step.axis === 'x' ? { x: p.x, y: -p.y } : { x: -p.x, y: p.y };
+    case 'rotate':
+      if (step.degrees === 180) return { x: -p.x, y: -p.y };
+      return step.degrees === 90 ? { x: -p.y, y: p.x } : { x: p.y, y: -p.x };
+  }
+};
+
+export const applyTransforms = (p: Point, steps: Transform[]): Point => steps.reduce(applyTransform, p);
+
+// Rounding keeps -0 and float dust out of the arc points
+const roundPoint = (p: Point): Point => ({ x: Math.round(p.x * 100) / 100 || 0, y: Math.round(p.y * 100) / 100 || 0 });
+
+/**
+ * Waypoints for animating the task: straight lines for moves and reflections,
+ * an arc around the origin for rotations.
+ */
+export const transformPath = (task: TransformTask): Point[] => {
+  const path: Point[] = [task.start];
+  let at: Point = task.start;
+  for (const step of task.steps) {
+    if (step.kind === 'rotate') {
+      const radius = Math.hypot(at.x, at.y);
+      const from = Math.atan2(at.y, at.x);
+      const arcs = Math.abs(step.degrees) / ARC_STEP;
+      for (let i = 1; i < arcs; i++) {
+        const angle = from + (Math.sign(step.degrees) * i * ARC_STEP * Math.PI) / 180;
+        path.push(roundPoint({ x: radius * Math.cos(angle), y: radius * Math.sin(angle) }));
+      }
+    }
+    at = applyTransform(at, step);
+    path.push(at);
+  }
+  return path;
+};
+
+const inside = (p: Point, config: GameConfig) =>
+  p.x >= config.xRange[0] && p.x <= config.xRange[1] && p.y >= config.yRange[0] && p.y <= config.yRange[1];
+
+const randomStep = (config: GameConfig, random: Random): Transform => {
+  const roll = random();
+  if (roll < 0.45) {
+    // Moves stay on the target grid and within a third of the level
+    const step = config.targetStep;
+    const amount = (span: number) => {
+      const n = Math.floor(random() * (Math.max(1, Math.floor(span / 3 / step)) + 1));
+      return (random() < 0.5 ? -1 : 1) * n * step;
+    };
+    const dx = amount(config.xRange[1] - config.xRange[0]);
+    const dy = amount(config.yRange[1] - config.yRange[0]);
+    return dx === 0 && dy === 0 ? { kind: 'translate', dx: step, dy: 0 } : { kind: 'translate', dx, dy };
+  }
+  if (roll < 0.75) return { kind: 'reflect', axis: random() < 0.5 ? 'x' : 'y' };
+  const turns = [90, -90, 180] as const;
+  return { kind: 'rotate', degrees: turns[Math.floor(random() * turns.length)] };
+};
+
+/**
+ * A start point and a chain of changes whose every stop, the answer included,
+ * lies inside the level. Levels that can't hold a reflection or rotation
+ * (say, only the first quadrant) end up with moves only.
+ */
+export const generateTransformTask = (config: GameConfig, random: Random = Math.random): TransformTask => {
+  const xs = gridValues(config.xRange, config.targetStep);
+  const ys = gridValues(config.yRange, config.targetStep);
+  const count = STEP_COUNTS[Math.floor(random() * STEP_COUNTS.length)];
+
+  for (let tries = 0; tries < 200; tries++) {
+    const start = { x: xs[Math.floor(random() * xs.length)], y: ys[Math.floor(random() * ys.length)] };
+    const steps: Transform[] = [];
+    let at: Point = start;
+    for (let i = 0; i < count; i++) {
+      const step = randomStep(config, random);
+      const next = applyTransform(at, step);
+      if (!inside(next, config)) break;
+      steps.push(step);
+      at = next;
+    }
+    // A change that leaves the point where it was isn't a question
+    const moved = at.x !== start.x || at.y !== start.y;
+    if (steps.length === count && moved) return { start: { ...start, label: 'A' }, steps, end: at };
+  }
+
+  // Nothing fitted: a single move toward the middle always does
+  const start = { x: xs[0], y: ys[0], label: 'A' };
+  const step: Transform = { kind: 'translate', dx: xs[Math.floor(xs.length / 2)] - xs[0], dy: 0 };
+  return { start, steps: [step], end: applyTransform(start, step) };
+};
+
+export const describeTransform = (step: Transform): Message => {
+  switch (step.kind) {
+    case 'translate': {
+      const x = step.dx > 0 ? 'Right' : 'Left';
+      const y = step.dy > 0 ? 'Up' : 'Down';
+      const params = { dx: Math.abs(step.dx), dy: Math.abs(step.dy) };
+      if (step.dy === 0) return { key: `transform.move${x}`, params };
+      if (step.dx === 0) return { key: `transform.move${y}`, params };
+      return { key: `transform.move${x}${y}`, params };
+    }
+    case 'reflect':
+      return { key: step.axis === 'x' ? 'transform.reflectX' : 'transform.reflectY' };
+    case 'rotate':
+      return {
+        key: step.degrees === 180 ? 'transform.rotateHalf' : step.degrees === 90 ? 'transform.rotateAnticlockwise' : 'transform.rotateClockwise'
+      };
+  }
+};
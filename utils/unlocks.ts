@@ -0,0 +1,105 @@
+import { AttemptRecord, GameConfig, UnlockCondition } from '../types';
+import { Message } from '../i18n';
+import { averagePrecision } from './scoring';
+
+// How far the student is with one condition; `current` is in the condition's own units (hits, 0–1 shares)
+export interface ConditionStatus {
+  condition: UnlockCondition;
+  current: number;
+  met: boolean;
+}
+
+const KINDS: UnlockCondition['kind'][] = ['hits', 'accuracy', 'precision', 'streak'];
+
+// Answers an accuracy condition looks back over, unless it says otherwise
+export const ACCURACY_WINDOW = 20;
+
+// Most hits in a row in a list of answers
+export const longestStreak = (attempts: AttemptRecord[]) => {
+  let best = 0;
+  let run = 0;
+  for (const a of attempts) {
+    run = a.success ? run + 1 : 0;
+    best = Math.max(best, run);
+  }
+  return best;
+};
+
+const currentValue = (
+  condition: UnlockCondition,
+  progress: Record<string, number>,
+  attempts: AttemptRecord[],
+  level: GameConfig
+) => {
+  const inLevel = attempts.filter(a => a.mode === condition.level);
+  switch (condition.kind) {
+    case 'hits': return progress[condition.level] || 0;
+    // Fewer answers than the window count as misses, so a lucky first few don't open the level
+    case 'accuracy': return inLevel.slice(-condition.over).filter(a => a.success).length / condition.over;
+    case 'precision': return averagePrecision(attempts, level);
+    case 'streak': return longestStreak(inLevel);
+  }
+};
+
+const target = (condition: UnlockCondition) => ('count' in condition ? condition.count : condition.min);
+
+/**
+ * Every condition on a level with how far the student has got. Conditions that
+ * point at a level which no longer exists (a deleted custom level) are dropped,
+ * so they can't lock a level forever.
+ */
+export const unlockStatus = (
+  config: GameConfig,
+  progress: Record<string, number>,
+  attempts: AttemptRecord[],
+  levels: Record<string, GameConfig>
+): ConditionStatus[] =>
+  (config.unlock ?? [])
+    .filter(condition => condition.level in levels && condition.level !== config.id)
+    .map(condition => {
+      const current = currentValue(condition, progress, attempts, levels[condition.level]);
+      return { condition, current, met: current >= target(condition) };
+    });
+
+export const isUnlocked = (statuses: ConditionStatus[]) => statuses.every(s => s.met);
+
+// Problems with a level's own conditions; whether the levels they point at exist is only known when playing
+export const validateUnlock = (config: GameConfig): Message[] => {
+  const errors: Message[] = [];
+  for (const c of config.unlock ?? []) {
+    if (c.level === config.id) errors.push({ key: 'level.error.unlockSelf' });
+    if (c.kind === 'hits' || c.kind === 'streak' || c.kind === 'accuracy') {
+      const count = c.kind === 'accuracy' ? c.over : c.count;
+      if (!(Number.isInteger(count) && count > 0)) errors.push({ key: 'level.error.unlockCount' });
+    }
+    if ((c.kind === 'accuracy' || c.kind === 'precision') && !(c.min > 0 && c.min <= 1)) {
+      errors.push({ key: 'level.error.unlockShare' });
+    }
+  }
+  return errors;
+};
+
+// Reads the `unlock` field of an imported level, checking types only (values go through validateUnlock).
+// Returns null when it's malformed.
+export const parseUnlock = (raw: unknown): UnlockCondition[] | null => {
+  if (!Array.isArray(raw)) return null;
+  const conditions: UnlockCondition[] = [];
+  for (const item of raw) {
+    if (typeof item !== 'object' || item === null) return null;
+    const c = item as Record<string, unknown>;
+    if (!KINDS.includes(c.kind as UnlockCondition['kind']) || typeof c.level !== 'string') return null;
+    if (c.kind === 'hits' || c.kind === 'streak') {
+      if (typeof c.count !== 'number') return null;
+      conditions.push({ kind: c.kind, level: c.level, count: c.count });
+    } else if (c.kind === 'accuracy') {
+      if (typeof c.min !== 'number') return null;
+      const over = c.over === undefined ? ACCURACY_WINDOW : c.over;
+      if (typeof over !== 'number') return null;
+      conditions.push({ kind: 'accuracy', level: c.level, min: c.min, over });
+    } else {
+      if (typeof c.min !== 'number') return null;
+      conditions.push({ kind: 'precision', level: c.level, min: c.min });
+    }
+  }
+  return conditions;
+};
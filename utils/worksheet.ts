@@ -0,0 +1,165 @@
+import { GameConfig, LabeledPoint, Point } from '../types';
+import { Translate } from '../i18n';
+import { Size, TextStyle, aspectRatioOf, drawGrid, drawVertex, escapeXml, pixelOf, svgPainter } from './gridDrawing';
+import { Random, seedFromText, seededRandom } from './random';
+import { gridValues } from './targetScheduler';
+
+export type WorksheetKind =
+  | 'plot' // Points are listed, the student marks them on the grid
+  | 'name' // Points are marked, the student writes down their coordinates
+  | 'plotJoin'; // Plot the points, then join them in order to draw a shape
+
+export interface WorksheetOptions {
+  config: GameConfig;
+  kind: WorksheetKind;
+  count: number;
+  seed: string; // Same seed, level and count give the same sheet
+}
+
+export interface Worksheet extends WorksheetOptions {
+  points: LabeledPoint[];
+}
+
+export interface WorksheetPages {
+  questions: string; // SVG for the student's page
+  answers: string; // SVG for the teacher's answer key
+}
+
+export const MAX_WORKSHEET_POINTS = 12;
+const LABELS = 'ABCDEFGHIJKL';
+
+// A4 portrait at 96 dpi, so the SVG prints at its real size
+const PAGE_WIDTH = 794;
+const PAGE_HEIGHT = 1123;
+const MARGIN = 48;
+const GRID_TOP = 150;
+const QUESTION_COLUMNS = 3;
+const QUESTION_ROW = 32;
+
+// Points closer than this share of the level on both axes would crowd each other's labels
+const MIN_GAP_SHARE = 1 / 12;
+
+const pickPoints = (config: GameConfig, count: number, random: Random): Point[] => {
+  const xs = gridValues(config.xRange, config.targetStep);
+  const ys = gridValues(config.yRange, config.targetStep);
+  const gapX = (config.xRange[1] - config.xRange[0]) * MIN_GAP_SHARE;
+  const gapY = (config.yRange[1] - config.yRange[0]) * MIN_GAP_SHARE;
+  const crowded = (p: Point, points: Point[], spacing: number) =>
+    points.some(q => Math.abs(p.x - q.x) < gapX * spacing && Math.abs(p.y - q.y) < gapY * spacing);
+
+  const points: Point[] = [];
+  // Loosen the spacing rule if a small level runs out of room
+  for (let spacing = 1; points.length < count && spacing >= 0; spacing -= 0.5) {
+    for (let tries = 0; tries < 200 && points.length < count; tries++) {
+      const p = { x: xs[Math.floor(random() * xs.length)], y: ys[Math.floor(random() * ys.length)] };
+      if (p.x === 0 && p.y === 0) continue; // The origin is labelled already
+      if (points.some(q => q.x === p.x && q.y === p.y) || crowded(p, points, spacing)) continue;
+      points.push(p);
+    }
+  }
+  return points;
+};
+
+// Going round the middle of the points gives a shape whose sides don't cross
+const aroundCentroid = (points: Point[]): Point[] => {
+  const cx = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+  const cy = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+  return [...points].sort((a, b) => Math.atan2(a.y - cy, a.x - cx) - Math.atan2(b.y - cy, b.x - cx));
+};
+
+export const createWorksheet = (options: WorksheetOptions): Worksheet => {
+  const random = seededRandom(seedFromText(`${options.seed}/${options.config.id}/${options.kind}`));
+  const count = Math.min(Math.max(1, options.count), MAX_WORKSHEET_POINTS);
+  let points = pickPoints(options.config, count, random);
+  if (options.kind === 'plotJoin') points = aroundCentroid(points);
+  return { ...options, points: points.map((p, i) => ({ ...p, label: LABELS[i] })) };
+};
+
+const formatPoint = (p: LabeledPoint) => `${p.label} (${p.x}, ${p.y})`;
+const blankPoint = (p: LabeledPoint) => `${p.label} (______, ______)`;
+
+const INSTRUCTIONS = {
+  plot: 'worksheet.instructionsPlot',
+  name: 'worksheet.instructionsName',
+  plotJoin: 'worksheet.instructionsPlotJoin'
+} as const;
+
+interface PageTextStyle {
+  size: number;
+  bold?: boolean;
+  color?: string;
+  align?: TextStyle['align'];
+}
+
+const drawPage = (
+  sheet: Worksheet,
+  answerKey: boolean,
+  levelName: string,
+  t: Translate,
+  fontFamily: string
+): string => {
+  const page = svgPainter();
+  const text = (value: string, at: Point, style: PageTextStyle) =>
+    page.painter.text(value, at, {
+      font: `${style.bold ? 'bold ' : ''}${style.size}px ${fontFamily}`,
+      color: style.color ?? '#1e293b', // Slate 800
+      align: style.align ?? 'left'
+    });
+
+  page.painter.rect(0, 0, PAGE_WIDTH, PAGE_HEIGHT, '#ffffff');
+
+  // Header
+  const title = answerKey ? t('worksheet.answerKeyTitle', { level: levelName }) : t('worksheet.title', { level: levelName });
+  text(title, { x: MARGIN, y: 64 }, { size: 22, bold: true });
+  if (!answerKey) {
+    text(t('worksheet.nameLine'), { x: PAGE_WIDTH - MARGIN, y: 64 }, { size: 14, align: 'right' });
+  }
+  // Plot-and-join spells out the order, back to the first point: A → B → C → A
+  const labels = sheet.points.map(v => v.label);
+  const steps = [...labels, labels[0]].join(' → ');
+  text(t(INSTRUCTIONS[sheet.kind], { steps }), { x: MARGIN, y: 108 }, { size: 14, color: '#475569' }); // Slate 600
+
+  // The grid, exactly as the canvas draws it
+  const gridWidth = PAGE_WIDTH - MARGIN * 2;
+  const size: Size = { width: gridWidth, height: gridWidth / aspectRatioOf(sheet.config) };
+  const grid = svgPainter();
+  drawGrid(grid.painter, sheet.config, size, fontFamily);
+
+  // Marked points: what to name on the question page, every answer on the key
+  const showPoints = answerKey || sheet.kind === 'name';
+  if (showPoints) {
+    const pixels = sheet.points.map(v => pixelOf(v, sheet.config, size));
+    if (answerKey && sheet.kind === 'plotJoin') {
+      pixels.forEach((from, i) => grid.painter.line(from, pixels[(i + 1) % pixels.length], '#6366f1', 3)); // Indigo 500
+    }
+    sheet.points.forEach((v, i) => drawVertex(grid.painter, pixels[i], v.label, '#6366f1', fontFamily));
+  }
+
+  // The question list under the grid
+  const listTop = GRID_TOP + size.height + 40;
+  const columnWidth = gridWidth / QUESTION_COLUMNS;
+  const rows = Math.ceil(sheet.points.length / QUESTION_COLUMNS);
+  sheet.points.forEach((v, i) => {
+    const at = { x: MARGIN + Math.floor(i / rows) * columnWidth, y: listTop + (i % rows) * QUESTION_ROW };
+    const written = answerKey || sheet.kind !== 'name';
+    text(written ? formatPoint(v) : blankPoint(v), at, { size: 16, bold: answerKey && sheet.kind === 'name' });
+  });
+
+  text(t('worksheet.footer', { seed: sheet.seed, count: sheet.points.length }), { x: PAGE_WIDTH / 2, y: PAGE_HEIGHT - 32 }, {
+    size: 11,
+    color: '#94a3b8', // Slate 400
+    align: 'center'
+  });
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="210mm" height="297mm" viewBox="0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}">`
+    + `<title>${escapeXml(title)}</title>${page.markup()}${grid.markup(MARGIN, GRID_TOP)}</svg>`;
+};
+
+/**
+ * Print-ready A4 pages for a worksheet: the questions and a separate answer key.
+ * `levelName` is already translated; `fontFamily` should match the on-screen labels.
+ */
+export const renderWorksheet = (sheet: Worksheet, levelName: string, t: Translate, fontFamily: string): WorksheetPages => ({
+  questions: drawPage(sheet, false, levelName, t, fontFamily),
+  answers: drawPage(sheet, true, levelName, t, fontFamily)
+});
@@ -0,0 +1,160 @@
+// Just enough of the ZIP format for Scratch .sb3 files: reads stored or deflated entries and
+// writes stored ones. No ZIP64, no encryption.
+
+export type ZipProblem = 'notZip' | 'unsupported' | 'corrupt';
+
+export class ZipError extends Error {
+  constructor(public problem: ZipProblem, detail: string) {
+    super(detail);
+    this.name = 'ZipError';
+  }
+}
+
+export interface ZipEntry {
+  name: string;
+  read: () => Promise<Uint8Array>; // Unpacks the entry on demand
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+const EOCD_SIZE = 22;
+const MAX_COMMENT = 0xffff;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+// Deflate is built into the browser; no need to ship an inflater
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// The end-of-directory record sits at the very end, before an optional comment
+const findEndOfDirectory = (view: DataView) => {
+  const last = view.byteLength - EOCD_SIZE;
+  for (let i = last; i >= Math.max(0, last - MAX_COMMENT); i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) return i;
+  }
+  throw new ZipError('notZip', 'no end of central directory record');
+};
+
+/**
+ * Lists the files in a ZIP archive. Throws a ZipError when the bytes aren't a ZIP
+ * or use a feature this reader doesn't cover.
+ */
+export const readZip = (bytes: Uint8Array): ZipEntry[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.byteLength < EOCD_SIZE) throw new ZipError('notZip', 'file too small');
+
+  const eocd = findEndOfDirectory(view);
+  const count = view.getUint16(eocd + 10, true);
+  const directoryOffset = view.getUint32(eocd + 16, true);
+  if (count === 0xffff || directoryOffset === 0xffffffff) throw new ZipError('unsupported', 'ZIP64 archive');
+
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  let at = directoryOffset;
+  for (let i = 0; i < count; i++) {
+    if (at + 46 > bytes.byteLength || view.getUint32(at, true) !== CENTRAL_SIGNATURE) {
+      throw new ZipError('corrupt', `bad central directory entry ${i}`);
+    }
+    const flags = view.getUint16(at + 8, true);
+    const method = view.getUint16(at + 10, true);
+    const compressedSize = view.getUint32(at + 20, true);
+    const nameLength = view.getUint16(at + 28, true);
+    const extraLength = view.getUint16(at + 30, true);
+    const commentLength = view.getUint16(at + 32, true);
+    const localOffset = view.getUint32(at + 42, true);
+    const name = decoder.decode(bytes.subarray(at + 46, at + 46 + nameLength));
+    at += 46 + nameLength + extraLength + commentLength;
+
+    if (flags & 1) throw new ZipError('unsupported', `${name} is encrypted`);
+    if (method !== STORED && method !== DEFLATED) throw new ZipError('unsupported', `${name} uses compression method ${method}`);
+
+    entries.push({
+      name,
+      read: async () => {
+        if (view.getUint32(localOffset, true) !== LOCAL_SIGNATURE) throw new ZipError('corrupt', `bad local header for ${name}`);
+        // The local header repeats the name and may carry a different extra field
+        const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+        const data = bytes.subarray(start, start + compressedSize);
+        if (data.byteLength !== compressedSize) throw new ZipError('corrupt', `${name} is cut short`);
+        try {
+          return method === STORED ? data : await inflateRaw(data);
+        } catch {
+          throw new ZipError('corrupt', `${name} can't be unpacked`);
+        }
+      }
+    });
+  }
+  return entries;
+};
+
+export interface ZipFile {
+  name: string;
+  data: Uint8Array;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (const b of bytes) crc = CRC_TABLE[(crc ^ b) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Packs files without compression; project files are small and costumes are already compact
+export const writeZip = (files: ZipFile[]): Uint8Array => {
+  const encoder = new TextEncoder();
+  const names = files.map(f => encoder.encode(f.name));
+  const localSize = files.reduce((sum, f, i) => sum + 30 + names[i].length + f.data.length, 0);
+  const directorySize = names.reduce((sum, name) => sum + 46 + name.length, 0);
+  const bytes = new Uint8Array(localSize + directorySize + EOCD_SIZE);
+  const view = new DataView(bytes.buffer);
+
+  let at = 0;
+  const offsets: number[] = [];
+  const crcs = files.map(f => crc32(f.data));
+  files.forEach((file, i) => {
+    offsets.push(at);
+    view.setUint32(at, LOCAL_SIGNATURE, true);
+    view.setUint16(at + 4, 20, true); // Version needed: 2.0
+    view.setUint16(at + 6, 0x0800, true); // Names are UTF-8
+    view.setUint16(at + 8, STORED, true);
+    view.setUint32(at + 14, crcs[i], true);
+    view.setUint32(at + 18, file.data.length, true);
+    view.setUint32(at + 22, file.data.length, true);
+    view.setUint16(at + 26, names[i].length, true);
+    bytes.set(names[i], at + 30);
+    bytes.set(file.data, at + 30 + names[i].length);
+    at += 30 + names[i].length + file.data.length;
+  });
+
+  const directoryOffset = at;
+  files.forEach((file, i) => {
+    view.setUint32(at, CENTRAL_SIGNATURE, true);
+    view.setUint16(at + 4, 20, true); // Made by: 2.0
+    view.setUint16(at + 6, 20, true);
+    view.setUint16(at + 8, 0x0800, true);
+    view.setUint16(at + 10, STORED, true);
+    view.setUint32(at + 16, crcs[i], true);
+    view.setUint32(at + 20, file.data.length, true);
+    view.setUint32(at + 24, file.data.length, true);
+    view.setUint16(at + 28, names[i].length, true);
+    view.setUint32(at + 42, offsets[i], true);
+    bytes.set(names[i], at + 46);
+    at += 46 + names[i].length;
+  });
+
+  view.setUint32(at, EOCD_SIGNATURE, true);
+  view.setUint16(at + 8, files.length, true);
+  view.setUint16(at + 10, files.length, true);
+  view.setUint32(at + 12, directorySize, true);
+  view.setUint32(at + 16, directoryOffset, true);
+  return bytes;
+};